@@ -0,0 +1,65 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { LocationObject } from 'expo-location';
+import { handleBackgroundLocations, setAutoTripSettings } from '../app/autoTrip';
+import { startBackgroundTask } from '../app/locationTask';
+import { loadTripBuffer } from '../app/tripBuffer';
+
+// Registering the native task isn't what's under test
+jest.mock('../app/locationTask', () => ({
+  checkTaskStatus: jest.fn(async () => ({ isDefined: true, isRegistered: false })),
+  startBackgroundTask: jest.fn(async () => true),
+  stopBackgroundTask: jest.fn(async () => {}),
+}));
+
+const START = Date.parse('2026-03-02T07:00:00Z');
+
+// A monitoring fix `seconds` after START, heading north at `kmh`
+const fix = (seconds: number, kmh: number): LocationObject => ({
+  timestamp: START + seconds * 1000,
+  coords: {
+    latitude: 24.7136 + seconds * 0.0001,
+    longitude: 46.6753,
+    altitude: null,
+    accuracy: 10,
+    altitudeAccuracy: null,
+    heading: 0,
+    speed: kmh / 3.6,
+  },
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await setAutoTripSettings({ enabled: true });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('auto trip start', () => {
+  test('records the whole fast streak when it spans several batches', async () => {
+    await handleBackgroundLocations([fix(0, 5), fix(15, 30)]);
+    await handleBackgroundLocations([fix(30, 35)]);
+    expect(await loadTripBuffer()).toBeNull();
+
+    await handleBackgroundLocations([fix(45, 40), fix(60, 45)]);
+
+    const buffer = await loadTripBuffer();
+    expect(buffer?.origin).toBe('auto');
+    expect(buffer?.startTime.getTime()).toBe(START + 15000);
+    expect(buffer?.locations.map((l) => l.timestamp - START)).toEqual([15000, 30000, 45000, 60000]);
+    expect(startBackgroundTask).toHaveBeenLastCalledWith('recording');
+  });
+
+  test('forgets the fixes of a streak that slowed down', async () => {
+    await handleBackgroundLocations([fix(0, 30), fix(15, 30)]);
+    await handleBackgroundLocations([fix(30, 5)]);
+    await handleBackgroundLocations([fix(45, 30), fix(60, 30), fix(75, 30), fix(90, 30)]);
+
+    const buffer = await loadTripBuffer();
+    expect(buffer?.startTime.getTime()).toBe(START + 45000);
+    expect(buffer?.locations.map((l) => l.timestamp - START)).toEqual([45000, 60000, 75000, 90000]);
+  });
+});
@@ -0,0 +1,170 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getUnlockedAchievements } from '../app/achievements';
+import { restoreBackup } from '../app/backup';
+import { BACKUP_FORMAT, BackupContents, openArchive, sealArchive } from '../app/backupArchive';
+import { syncTrips } from '../app/syncEngine';
+import { getDeviceId, getPendingDeletes, listLocalTrips, saveLocalTrip, setDeviceId } from '../app/tripRepository';
+import { MockBackend, startMockBackend } from './helpers/mockBackend';
+import { makeTrip } from './helpers/trips';
+
+let backend: MockBackend;
+
+// A backup taken on a phone whose trips had all been uploaded
+const backupFrom = (deviceId: string | null): BackupContents => ({
+  deviceId,
+  trips: [0, 30, 60].map((m) => makeTrip(m, { synced: true })),
+  routes: {},
+  settings: {},
+  achievements: { first_trip: '2026-01-05T07:30:00.000Z' },
+});
+
+const reopen = (contents: BackupContents) => {
+  const result = openArchive(sealArchive(contents, '2026-03-02T09:00:00Z'));
+  if (!result.ok) throw new Error(result.reason);
+  return result.contents;
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  backend = await startMockBackend();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await backend.stop();
+});
+
+describe('restoring a backup', () => {
+  test('merged into a fresh install with a new device id, the trips survive a sync', async () => {
+    const contents = reopen(backupFrom('device_old'));
+    await setDeviceId('device_new');
+
+    expect(await restoreBackup(contents, 'merge')).toEqual({ ok: true, added: 3, kept: 0 });
+    expect(await syncTrips({ baseUrl: backend.url })).toMatchObject({ uploaded: 3, removedLocally: 0 });
+
+    const local = await listLocalTrips();
+    expect(local).toHaveLength(3);
+    expect(local.every((t) => t.synced)).toBe(true);
+    expect([...backend.trips.values()].every((t) => t.deviceId === 'device_new')).toBe(true);
+  });
+
+  test('replacing from a backup without a device id, the trips survive a sync', async () => {
+    const contents = reopen(backupFrom(null));
+
+    expect(await restoreBackup(contents, 'replace')).toMatchObject({ ok: true, added: 3 });
+    expect(await syncTrips({ baseUrl: backend.url })).toMatchObject({ removedLocally: 0 });
+
+    expect(await listLocalTrips()).toHaveLength(3);
+    expect(backend.trips.size).toBe(3);
+    expect([...backend.trips.values()][0].deviceId).toBe(await getDeviceId());
+  });
+
+  test('replacing drops the current history here and on the server', async () => {
+    const deviceId = await getDeviceId();
+    const current = [120, 150].map((m) => makeTrip(m, { synced: true }));
+    for (const trip of current) {
+      await saveLocalTrip(trip);
+      backend.trips.set(trip.id, { deviceId, trip });
+    }
+    const contents = reopen(backupFrom(null));
+
+    await restoreBackup(contents, 'replace');
+    expect(await syncTrips({ baseUrl: backend.url })).toMatchObject({ deleted: 2, uploaded: 3, pulled: 0 });
+
+    const ids = (trips: { id: string }[]) => trips.map((t) => t.id).sort();
+    expect(ids(await listLocalTrips())).toEqual(ids(contents.trips));
+    expect([...backend.trips.keys()].sort()).toEqual(ids(contents.trips));
+    expect(await getPendingDeletes()).toEqual([]);
+  });
+});
+
+describe('achievements', () => {
+  test('are restored with the trips', async () => {
+    await restoreBackup(reopen(backupFrom('device_old')), 'merge');
+    expect(await getUnlockedAchievements()).toEqual({ first_trip: '2026-01-05T07:30:00.000Z' });
+  });
+
+  test('merging keeps the earlier unlock of each', async () => {
+    await AsyncStorage.setItem(
+      'driveiq_achievements',
+      JSON.stringify({ first_trip: '2026-02-01T00:00:00.000Z', road_warrior: '2026-02-10T00:00:00.000Z' })
+    );
+    const contents = reopen({
+      ...backupFrom('device_old'),
+      achievements: { first_trip: '2026-01-05T07:30:00.000Z', road_warrior: '2026-03-01T00:00:00.000Z' },
+    });
+
+    await restoreBackup(contents, 'merge');
+
+    expect(await getUnlockedAchievements()).toEqual({
+      first_trip: '2026-01-05T07:30:00.000Z',
+      road_warrior: '2026-02-10T00:00:00.000Z',
+    });
+  });
+});
+
+describe('older archives', () => {
+  test('a bare trip list opens with no achievements', () => {
+    const result = openArchive(JSON.stringify([makeTrip(0)]));
+    expect(result).toMatchObject({ ok: true, version: 0, contents: { deviceId: null, achievements: {} } });
+  });
+
+  test('a version 1 archive opens with no achievements', () => {
+    const { achievements, ...contents } = backupFrom('device_old');
+    const archive = { format: BACKUP_FORMAT, version: 1, createdAt: '2026-03-02T09:00:00Z', schemaVersion: 3, contents };
+    const result = openArchive(JSON.stringify(archive));
+    expect(result).toMatchObject({ ok: true, version: 1, contents: { deviceId: 'device_old', achievements: {} } });
+    expect(result.ok && result.contents.trips).toHaveLength(3);
+  });
+
+  test('unknown achievements and bad dates are dropped', () => {
+    const contents = { ...backupFrom(null), achievements: { first_trip: 'yesterday', made_up: '2026-01-01T00:00:00Z' } };
+    const result = openArchive(sealArchive(contents as BackupContents, '2026-03-02T09:00:00Z'));
+    expect(result.ok && result.contents.achievements).toEqual({});
+  });
+});
+
+describe('passphrase encryption', () => {
+  const encryption = {
+    passphrase: 'correct horse battery staple',
+    salt: Uint8Array.from({ length: 16 }, (_, i) => i),
+    iv: Uint8Array.from({ length: 16 }, (_, i) => 255 - i),
+  };
+  // Sealed once, the key stretching is slow
+  let sealed: string;
+  beforeAll(() => {
+    sealed = sealArchive(backupFrom('device_old'), '2026-03-02T09:00:00Z', encryption);
+  });
+
+  test('round-trips with the passphrase and keeps nothing readable in the file', () => {
+    expect(sealed).not.toContain('device_old');
+    expect(sealed).not.toContain(backupFrom(null).trips[0].id);
+    const result = openArchive(sealed, encryption.passphrase);
+    expect(result).toMatchObject({ ok: true, version: 2, createdAt: '2026-03-02T09:00:00Z', rejectedTrips: 0 });
+    expect(result.ok && result.contents).toEqual(reopen(backupFrom('device_old')));
+  });
+
+  test('asks for a passphrase when none is given', () => {
+    expect(openArchive(sealed)).toEqual({ ok: false, reason: 'needs_passphrase' });
+    expect(openArchive(sealed, '')).toEqual({ ok: false, reason: 'needs_passphrase' });
+  });
+
+  test('refuses a wrong passphrase', () => {
+    expect(openArchive(sealed, 'correct horse battery stapler')).toEqual({ ok: false, reason: 'wrong_passphrase' });
+  });
+
+  test('refuses an altered ciphertext or MAC', () => {
+    const archive = JSON.parse(sealed);
+    const flip = (text: string, at: number) => text.slice(0, at) + (text[at] === 'A' ? 'B' : 'A') + text.slice(at + 1);
+
+    const ciphertext = { ...archive, ciphertext: flip(archive.ciphertext, 10) };
+    const mac = { ...archive, encryption: { ...archive.encryption, mac: flip(archive.encryption.mac, 0) } };
+    const truncatedMac = { ...archive, encryption: { ...archive.encryption, mac: archive.encryption.mac.slice(2) } };
+
+    for (const tampered of [ciphertext, mac, truncatedMac]) {
+      expect(openArchive(JSON.stringify(tampered), encryption.passphrase)).toEqual({ ok: false, reason: 'wrong_passphrase' });
+    }
+  });
+});
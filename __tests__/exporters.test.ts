@@ -0,0 +1,29 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ExportFormat, ExportTrip, exportFileName, exportTrips } from '../app/exporters';
+
+// Known output for the fixture trips, one file per format. A change in
+// what the exporters write has to come with an update to these files.
+const FIXTURES = join(__dirname, 'fixtures', 'exports');
+const GOLDEN_FILES: Record<ExportFormat, string> = {
+  gpx: 'trips.gpx',
+  kml: 'trips.kml',
+  csv_trips: 'trips.csv',
+  csv_fixes: 'fixes.csv',
+};
+
+const readFixture = (name: string) => readFileSync(join(FIXTURES, name), 'utf8');
+const trips: ExportTrip[] = JSON.parse(readFixture('trips.json'));
+
+describe('exporters', () => {
+  test.each(Object.entries(GOLDEN_FILES) as [ExportFormat, string][])('%s matches %s', (format, file) => {
+    expect(exportTrips(format, trips)).toBe(readFixture(file));
+  });
+
+  test('names the file after the days covered', () => {
+    const all = trips.map((t) => t.trip);
+    expect(exportFileName('gpx', all)).toBe('driveiq_2026-03-02_2026-03-03.gpx');
+    expect(exportFileName('csv_fixes', all.slice(0, 2))).toBe('driveiq_2026-03-02.csv');
+    expect(exportFileName('kml', [])).toBe('driveiq_empty.kml');
+  });
+});
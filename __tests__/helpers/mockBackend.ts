@@ -0,0 +1,85 @@
+// A stand-in for the DriveIQ backend on a local port, speaking the same
+// routes as the real one: POST /api/trips, GET /api/trips?device_id=
+// and DELETE /api/trips/:id. Requests can be made to fail on demand.
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  body: any;
+}
+
+export interface MockBackend {
+  url: string;
+  // Server-side trips by id, with the device that uploaded them
+  trips: Map<string, { deviceId: string; trip: Record<string, any> }>;
+  requests: RecordedRequest[];
+  // Answered in order, before anything else, by requests of that method
+  failures: { method: string; status: number }[];
+  // Uploads and deletes of these trips are refused (422 and 409)
+  rejectedIds: Set<string>;
+  stop: () => Promise<void>;
+}
+
+const readBody = (req: http.IncomingMessage) =>
+  new Promise<any>((resolve) => {
+    let text = '';
+    req.on('data', (chunk) => (text += chunk));
+    req.on('end', () => resolve(text ? JSON.parse(text) : null));
+  });
+
+export async function startMockBackend(): Promise<MockBackend> {
+  const backend: MockBackend = {
+    url: '',
+    trips: new Map(),
+    requests: [],
+    failures: [],
+    rejectedIds: new Set(),
+    stop: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+    const body = await readBody(req);
+    backend.requests.push({ method, path: url.pathname, body });
+
+    const send = (status: number, payload: unknown = {}) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    };
+
+    const failure = backend.failures.findIndex((f) => f.method === method);
+    if (failure >= 0) {
+      send(backend.failures.splice(failure, 1)[0].status);
+      return;
+    }
+
+    if (method === 'POST' && url.pathname === '/api/trips') {
+      if (body.trips.some((trip: any) => backend.rejectedIds.has(trip.id))) {
+        send(422, { error: 'invalid trip' });
+        return;
+      }
+      body.trips.forEach((trip: any) => backend.trips.set(trip.id, { deviceId: body.device_id, trip }));
+      send(200, { saved: body.trips.length });
+    } else if (method === 'GET' && url.pathname === '/api/trips') {
+      const deviceId = url.searchParams.get('device_id');
+      send(200, [...backend.trips.values()].filter((t) => t.deviceId === deviceId).map((t) => t.trip));
+    } else if (method === 'DELETE' && url.pathname.startsWith('/api/trips/')) {
+      const id = url.pathname.slice('/api/trips/'.length);
+      if (backend.rejectedIds.has(id)) {
+        send(409, { error: 'conflict' });
+      } else {
+        send(backend.trips.delete(id) ? 200 : 404);
+      }
+    } else {
+      send(404);
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  backend.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return backend;
+}
@@ -0,0 +1,22 @@
+import type { Trip } from '../../app/storage';
+
+// A stored trip starting `minutesAgo` before a fixed moment
+export function makeTrip(minutesAgo: number, overrides: Partial<Trip> = {}): Trip {
+  const start = Date.parse('2026-03-02T08:00:00Z') - minutesAgo * 60000;
+  return {
+    id: `trip_${start}_test`,
+    start_time: new Date(start).toISOString(),
+    end_time: new Date(start + 20 * 60000).toISOString(),
+    distance_km: 12.5,
+    duration_minutes: 20,
+    max_speed: 84,
+    avg_speed: 37.5,
+    hard_brakes: 1,
+    hard_accelerations: 0,
+    speeding_count: 2,
+    score: 86,
+    synced: false,
+    route_key: null,
+    ...overrides,
+  };
+}
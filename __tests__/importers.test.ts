@@ -0,0 +1,96 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { ExportTrip } from '../app/exporters';
+import { MAX_TRACK_GAP_MS, parseFixesCsv, parseTrackFile, splitAtGaps } from '../app/importers';
+import type { Fix } from '../app/tripAnalysis';
+
+// The exporters' golden files read back in: whatever DriveIQ writes it
+// has to be able to import on another phone.
+const FIXTURES = join(__dirname, 'fixtures', 'exports');
+const readFixture = (name: string) => readFileSync(join(FIXTURES, name), 'utf8');
+const exported: ExportTrip[] = JSON.parse(readFixture('trips.json'));
+const routes = exported.map((t) => t.route).filter((route) => route.length > 0);
+
+const START = Date.parse('2026-03-02T07:00:00Z');
+const fixAt = (ms: number): Fix => ({
+  timestamp: START + ms,
+  latitude: 24.7136,
+  longitude: 46.6753,
+  speed: 10,
+  accuracy: 5,
+  heading: 90,
+});
+
+describe('parseTrackFile', () => {
+  test('reads the exported GPX back as one drive per trip with a route', () => {
+    const tracks = parseTrackFile('trips.gpx', readFixture('trips.gpx'));
+
+    expect(tracks?.map((t) => t.label)).toEqual(['trips.gpx #1', 'trips.gpx #2']);
+    // GPX has no accuracy unless the logger writes hdop
+    expect(tracks?.map((t) => t.fixes)).toEqual(routes.map((route) => route.map((p) => ({ ...p, accuracy: null }))));
+  });
+
+  test('reads the exported fixes CSV back, speeds to the nearest km/h', () => {
+    const tracks = parseTrackFile('fixes.csv', readFixture('fixes.csv'));
+
+    expect(tracks?.map((t) => t.label)).toEqual(['fixes.csv #1', 'fixes.csv #2']);
+    tracks?.forEach((track, i) => {
+      expect(track.fixes).toHaveLength(routes[i].length);
+      track.fixes.forEach((fix, j) => {
+        const { speed, ...rest } = routes[i][j];
+        expect(fix).toMatchObject(rest);
+        if (speed === null) {
+          expect(fix.speed).toBeNull();
+        } else {
+          expect(Math.abs((fix.speed as number) - speed)).toBeLessThanOrEqual(0.5 / 3.6);
+        }
+      });
+    });
+  });
+
+  test('keeps the file name as the label of a single drive', () => {
+    const firstTrip = readFixture('fixes.csv').split('\n').slice(0, 5).join('\n');
+    expect(parseTrackFile('one.csv', firstTrip)?.map((t) => [t.label, t.fixes.length])).toEqual([['one.csv', 4]]);
+  });
+
+  test('gives null for files in neither format', () => {
+    expect(parseTrackFile('notes.txt', 'shopping list\nmilk, eggs')).toBeNull();
+    expect(parseTrackFile('empty.csv', '')).toBeNull();
+  });
+});
+
+describe('parseFixesCsv', () => {
+  test('reads quoted fields, columns in any order, and skips lines without a position', () => {
+    const csv = [
+      'latitude,longitude,"trip_id",timestamp',
+      '24.7136,46.6753,"trip ""a"", morning",2026-03-02T07:00:05Z',
+      '24.7137,46.6754,"trip ""a"", morning",2026-03-02T07:00:00Z',
+      ',46.6755,"trip ""a"", morning",2026-03-02T07:00:10Z',
+      '24.7138,46.6756,"trip ""a"", morning",not a time',
+    ].join('\r\n');
+
+    expect(parseFixesCsv(csv)).toEqual([
+      [
+        { timestamp: START, latitude: 24.7137, longitude: 46.6754, speed: null, accuracy: null, heading: null },
+        { timestamp: START + 5000, latitude: 24.7136, longitude: 46.6753, speed: null, accuracy: null, heading: null },
+      ],
+    ]);
+  });
+
+  test('gives null when a required column is missing', () => {
+    expect(parseFixesCsv('trip_id,timestamp,latitude\ntrip_a,2026-03-02T07:00:00Z,24.7')).toBeNull();
+  });
+});
+
+describe('splitAtGaps', () => {
+  test('cuts only where the gap is longer than the limit', () => {
+    const fixes = [0, 1000, 1000 + MAX_TRACK_GAP_MS, 2000 + MAX_TRACK_GAP_MS * 2, 3000 + MAX_TRACK_GAP_MS * 2].map(fixAt);
+
+    expect(splitAtGaps(fixes).map((part) => part.length)).toEqual([3, 2]);
+    expect(splitAtGaps(fixes, 500).map((part) => part.length)).toEqual([1, 1, 1, 1, 1]);
+  });
+
+  test('gives no drives for no fixes', () => {
+    expect(splitAtGaps([])).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { MotionSample, detectMotionEvents } from '../app/motionAnalysis';
+import { Fix, analyzeTrip } from '../app/tripAnalysis';
+
+// 20 Hz sensor traces with the 1 Hz fixes of the same drive, phone in a
+// dash mount. Every trace starts at the same moment.
+interface MotionTrace {
+  description: string;
+  fixes: Fix[];
+  samples: MotionSample[];
+}
+
+const TRACE_START = Date.parse('2026-03-02T07:00:00Z');
+
+const loadTrace = (name: string): MotionTrace =>
+  JSON.parse(readFileSync(join(__dirname, 'fixtures', 'motion', `${name}.json`), 'utf8'));
+
+const detect = (trace: MotionTrace) => detectMotionEvents(trace.samples, trace.fixes);
+
+describe('detectMotionEvents', () => {
+  test('finds nothing on a calm drive', () => {
+    expect(detect(loadTrace('calm_drive'))).toEqual([]);
+  });
+
+  test('leaves a hard brake to the GPS analysis', () => {
+    const trace = loadTrace('hard_brake');
+
+    // Braking is lengthwise and the phone only rocks in its mount
+    expect(detect(trace)).toEqual([]);
+    const summary = analyzeTrip(trace.fixes, {
+      startTime: trace.fixes[0].timestamp,
+      endTime: trace.fixes[trace.fixes.length - 1].timestamp,
+    });
+    expect(summary.hardBrakes).toBe(1);
+  });
+
+  test('reports picking up the phone while moving, not while parked', () => {
+    const events = detect(loadTrace('phone_pickup'));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'phone_handling', speed: 40 });
+    // Picked up 15 s in, back in the mount about five seconds later
+    expect(events[0].timestamp - TRACE_START).toBeGreaterThanOrEqual(15000);
+    expect(events[0].timestamp - TRACE_START).toBeLessThan(15500);
+    expect(events[0].durationMs).toBeGreaterThanOrEqual(4500);
+    expect(events[0].durationMs).toBeLessThanOrEqual(5500);
+  });
+
+  test('reports a sharp turn but not a gentle bend', () => {
+    const events = detect(loadTrace('sharp_turn'));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'harsh_cornering', speed: 45 });
+    expect(events[0].timestamp - TRACE_START).toBe(13000);
+    expect(events[0].peakG).toBeCloseTo(0.7, 1);
+  });
+});
@@ -0,0 +1,13 @@
+import { SCENARIOS, checkScenario } from '../app/scenarios';
+
+describe('drive scenarios', () => {
+  test.each(SCENARIOS.map((s) => [s.id, s] as const))('%s meets its expectations', (_id, scenario) => {
+    expect(checkScenario(scenario).failures).toEqual([]);
+  });
+
+  test('build the same fixes every time', () => {
+    for (const scenario of SCENARIOS) {
+      expect(scenario.build()).toEqual(scenario.build());
+    }
+  });
+});
@@ -0,0 +1,131 @@
+import { CATEGORY_CAPS, nightOverlapMs, scoreTrip, tripScoringInput } from '../app/scoring';
+import type { TripEvent } from '../app/tripAnalysis';
+import { makeTrip } from './helpers/trips';
+
+const event = (type: TripEvent['type'], overrides: Partial<TripEvent> = {}): TripEvent => ({
+  type,
+  timestamp: Date.parse('2026-03-02T08:05:00Z'),
+  latitude: 24.7136,
+  longitude: 46.6753,
+  speed: 60,
+  durationMs: 1500,
+  ...overrides,
+});
+
+const times = (count: number, make: () => TripEvent) => Array.from({ length: count }, make);
+
+const MINUTE = 60000;
+// Local time, in a week without a clock change
+const local = (day: number, hour: number, minute = 0) => new Date(2026, 0, day, hour, minute).getTime();
+
+describe('category saturation', () => {
+  test('each category approaches its cap without passing it', () => {
+    const smoothness = (brakes: number) =>
+      scoreTrip({
+        distanceKm: 100,
+        movingMinutes: 90,
+        nightMinutes: 0,
+        events: times(brakes, () => event('hard_brake', { peakG: 0.4 })),
+      }).breakdown.smoothness;
+
+    const lost = [10, 40, 80, 160].map(smoothness);
+    expect(lost).toEqual([8.8, 25.3, 34.6, 39.3]);
+    expect(smoothness(1000)).toBe(CATEGORY_CAPS.smoothness);
+  });
+
+  test('a trip maxing out every category scores 0, not less', () => {
+    const result = scoreTrip({
+      distanceKm: 10,
+      movingMinutes: 10,
+      nightMinutes: 10,
+      events: [
+        ...times(1000, () => event('harsh_cornering', { peakG: 0.8 })),
+        event('speeding', { durationMs: 10 * MINUTE, limitKmh: 50, overshootKmh: 60 }),
+        event('phone_handling', { durationMs: 10 * MINUTE }),
+      ],
+    });
+
+    expect(result.breakdown).toEqual(CATEGORY_CAPS);
+    expect(result.score).toBe(0);
+  });
+});
+
+describe('minimum distance and time', () => {
+  // One medium brake costs 40 × (1 − e^(−20/40)) over 10 km
+  test('a short trip is scored as if it covered 10 km', () => {
+    const brake = [event('hard_brake', { peakG: 0.5 })];
+    const short = scoreTrip({ distanceKm: 0.8, movingMinutes: 3, nightMinutes: 0, events: brake });
+    const tenKm = scoreTrip({ distanceKm: 10, movingMinutes: 10, nightMinutes: 0, events: brake });
+    const longer = scoreTrip({ distanceKm: 40, movingMinutes: 30, nightMinutes: 0, events: brake });
+
+    expect(short).toEqual(tenKm);
+    expect(short.breakdown.smoothness).toBe(15.7);
+    expect(short.score).toBe(84);
+    expect(longer.breakdown.smoothness).toBeLessThan(short.breakdown.smoothness);
+  });
+
+  // A minute over the limit is a 0.1 share of 10 minutes: 35 × (1 − e^(−1))
+  test('a short trip is scored as if it lasted 10 minutes', () => {
+    const speeding = [event('speeding', { durationMs: MINUTE, limitKmh: 50, overshootKmh: 0 })];
+    const short = scoreTrip({ distanceKm: 12, movingMinutes: 2, nightMinutes: 0, events: speeding });
+    const tenMinutes = scoreTrip({ distanceKm: 12, movingMinutes: 10, nightMinutes: 0, events: speeding });
+
+    expect(short).toEqual(tenMinutes);
+    expect(short.breakdown.speeding).toBe(22.1);
+  });
+});
+
+describe('nightOverlapMs', () => {
+  test('counts the whole of a drive across midnight', () => {
+    expect(nightOverlapMs(local(14, 23, 30), local(15, 0, 30))).toBe(60 * MINUTE);
+  });
+
+  test('counts only the part after 22:00 and before 05:00', () => {
+    expect(nightOverlapMs(local(14, 21, 30), local(14, 22, 30))).toBe(30 * MINUTE);
+    expect(nightOverlapMs(local(15, 4, 30), local(15, 5, 30))).toBe(30 * MINUTE);
+    expect(nightOverlapMs(local(14, 21, 0), local(15, 6, 0))).toBe(7 * 60 * MINUTE);
+  });
+
+  test('is zero by day and for an empty interval', () => {
+    expect(nightOverlapMs(local(14, 8), local(14, 18))).toBe(0);
+    expect(nightOverlapMs(local(14, 23), local(14, 23))).toBe(0);
+  });
+
+  test('estimates night time for trips recorded before it was stored', () => {
+    const trip = makeTrip(0, {
+      start_time: new Date(local(14, 23, 40)).toISOString(),
+      end_time: new Date(local(15, 0, 20)).toISOString(),
+      duration_minutes: 40,
+      moving_minutes: 30,
+    });
+
+    // All 40 minutes are at night, scaled to the 30 spent moving
+    expect(tripScoringInput(trip).nightMinutes).toBeCloseTo(30);
+  });
+});
+
+describe('a zero-distance trip', () => {
+  test('keeps a perfect score', () => {
+    expect(scoreTrip({ distanceKm: 0, movingMinutes: 0, nightMinutes: 0, events: [] })).toMatchObject({
+      score: 100,
+      breakdown: { smoothness: 0, speeding: 0, distraction: 0, night: 0 },
+    });
+  });
+
+  test('scores its events over the minimum distance and time', () => {
+    const result = scoreTrip({
+      distanceKm: 0,
+      movingMinutes: 0,
+      nightMinutes: 5,
+      events: [event('hard_brake', { peakG: 0.5 })],
+    });
+
+    expect(result.breakdown).toEqual({ smoothness: 15.7, speeding: 0, distraction: 0, night: 0 });
+    expect(result.score).toBe(84);
+  });
+
+  test('has no night time when it has no duration', () => {
+    const trip = makeTrip(0, { distance_km: 0, duration_minutes: 0, moving_minutes: undefined });
+    expect(tripScoringInput(trip)).toEqual({ distanceKm: 0, movingMinutes: 0, nightMinutes: 0, events: [] });
+  });
+});
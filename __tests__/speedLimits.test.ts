@@ -0,0 +1,119 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  DEFAULT_SPEED_LIMIT_SETTINGS,
+  RoadSegment,
+  SpeedLimitDataset,
+  createDatasetProvider,
+  getSpeedLimitDatasetInfo,
+  getSpeedLimitProvider,
+  installSpeedLimitDataset,
+  removeSpeedLimitDataset,
+  setFallbackLimit,
+} from '../app/speedLimits';
+import { SPEEDING_THRESHOLD_KMH } from '../app/tripAnalysis';
+
+// A few roads in Riyadh: a motorway with a service road 50 m east of
+// it, a primary road without a posted limit running just south of a
+// grid line, a path of an unknown class, and eight broken segments.
+const dataset: SpeedLimitDataset = JSON.parse(
+  readFileSync(join(__dirname, 'fixtures', 'speedLimits', 'riyadh.json'), 'utf8')
+);
+const { fallbackKmh } = DEFAULT_SPEED_LIMIT_SETTINGS;
+const UNMATCHED = { limitKmh: SPEEDING_THRESHOLD_KMH, roadClass: 'unknown', source: 'fallback' };
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await removeSpeedLimitDataset();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('createDatasetProvider', () => {
+  const wellFormed = dataset.segments.slice(0, 4) as RoadSegment[];
+  const { lookup } = createDatasetProvider(wellFormed, fallbackKmh);
+
+  test('matches a fix to the nearest road within 25 m', () => {
+    // 10 m east of the motorway, 40 m from the service road
+    expect(lookup({ latitude: 24.71, longitude: 46.6751 })).toEqual({
+      limitKmh: 120,
+      roadClass: 'motorway',
+      source: 'dataset',
+    });
+    // and the other way round, further along where the grid cell differs
+    expect(lookup({ latitude: 24.735, longitude: 46.6754 })).toEqual({
+      limitKmh: 40,
+      roadClass: 'residential',
+      source: 'dataset',
+    });
+    // 22 m past the end of the motorway
+    expect(lookup({ latitude: 24.6998, longitude: 46.675 })).toMatchObject({ roadClass: 'motorway' });
+    expect(lookup({ latitude: 24.6995, longitude: 46.675 })).toEqual(UNMATCHED);
+    expect(lookup({ latitude: 24.8, longitude: 46.8 })).toEqual(UNMATCHED);
+  });
+
+  test('finds a road in the next grid cell', () => {
+    // Olaya runs at 24.7299, the fix is 22 m north across the cell line
+    expect(Math.floor(24.7299 / 0.01)).not.toBe(Math.floor(24.7301 / 0.01));
+    expect(lookup({ latitude: 24.7301, longitude: 46.69 })).toMatchObject({ roadClass: 'primary' });
+    expect(lookup({ latitude: 24.7302, longitude: 46.69 })).toEqual(UNMATCHED);
+  });
+
+  test('uses the fallback for the road class when the road has no limit', () => {
+    expect(lookup({ latitude: 24.7299, longitude: 46.69 })).toEqual({
+      limitKmh: fallbackKmh.primary,
+      roadClass: 'primary',
+      source: 'fallback',
+    });
+    expect(
+      createDatasetProvider(wellFormed, { ...fallbackKmh, primary: 60 }).lookup({ latitude: 24.7299, longitude: 46.69 })
+    ).toMatchObject({ limitKmh: 60, source: 'fallback' });
+  });
+});
+
+describe('installSpeedLimitDataset', () => {
+  test('skips malformed segments and serves the rest', async () => {
+    const info = await installSpeedLimitDataset(dataset);
+
+    expect(info).toMatchObject({ name: 'Riyadh test roads', segmentCount: 4, skippedCount: 8, chunkCount: 1 });
+    expect(await getSpeedLimitDatasetInfo()).toEqual(info);
+
+    const { lookup } = await getSpeedLimitProvider();
+    expect(lookup({ latitude: 24.71, longitude: 46.6751 })).toMatchObject({ limitKmh: 120, source: 'dataset' });
+    // A class the app doesn't know is kept as unknown, with the road's own limit
+    expect(lookup({ latitude: 24.7505, longitude: 46.7 })).toEqual({
+      limitKmh: 25,
+      roadClass: 'unknown',
+      source: 'dataset',
+    });
+    // None of the broken segments along 46.70 made it in
+    expect(lookup({ latitude: 24.705, longitude: 46.7 })).toEqual(UNMATCHED);
+  });
+
+  test('rebuilds the provider when a fallback changes or the dataset is removed', async () => {
+    await installSpeedLimitDataset(dataset);
+    const olaya = { latitude: 24.7299, longitude: 46.69 };
+    expect((await getSpeedLimitProvider()).lookup(olaya).limitKmh).toBe(fallbackKmh.primary);
+
+    await setFallbackLimit('primary', 60);
+    expect((await getSpeedLimitProvider()).lookup(olaya).limitKmh).toBe(60);
+
+    await removeSpeedLimitDataset();
+    expect(await getSpeedLimitDatasetInfo()).toBeNull();
+    expect((await getSpeedLimitProvider()).lookup(olaya)).toEqual(UNMATCHED);
+  });
+
+  test('refuses a file that is not a dataset and keeps the installed one', async () => {
+    await installSpeedLimitDataset(dataset);
+
+    await expect(installSpeedLimitDataset({ ...dataset, version: 2 })).rejects.toThrow('Not a speed limit dataset');
+    await expect(installSpeedLimitDataset({ version: 1, segments: {} })).rejects.toThrow();
+    await expect(installSpeedLimitDataset(null)).rejects.toThrow();
+
+    expect(await getSpeedLimitDatasetInfo()).toMatchObject({ segmentCount: 4 });
+  });
+});
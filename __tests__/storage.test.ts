@@ -0,0 +1,103 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { loadAchievements } from '../app/achievements';
+import { getRecentComparison } from '../app/coaching';
+import { SCHEMA_VERSION, ensureStorageReady } from '../app/storage';
+import { deleteTrip, getTripStats, listLocalTrips, saveLocalTrip } from '../app/tripRepository';
+import { makeTrip } from './helpers/trips';
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// Migrations run once per launch, so a test of one loads the modules
+// afresh, as a new launch of the app would
+const relaunch = () => {
+  jest.resetModules();
+  return {
+    AsyncStorage: require('@react-native-async-storage/async-storage') as typeof AsyncStorage,
+    storage: require('../app/storage') as typeof import('../app/storage'),
+    repository: require('../app/tripRepository') as typeof import('../app/tripRepository'),
+  };
+};
+
+describe('ensureStorageReady', () => {
+  test('reports a failed migration and retries it on the next call', async () => {
+    // A v2 store still holding the single trip list
+    const trips = [makeTrip(0), makeTrip(30)];
+    await AsyncStorage.multiSet([
+      ['driveiq_schema_version', '2'],
+      ['driveiq_offline_trips', JSON.stringify(trips)],
+    ]);
+    jest.spyOn(AsyncStorage, 'multiSet').mockRejectedValueOnce(new Error('disk full'));
+
+    expect(await ensureStorageReady()).toEqual({ ok: false, version: 3, reason: 'disk full' });
+    expect(await AsyncStorage.getItem('driveiq_schema_version')).toBe('2');
+    expect(await AsyncStorage.getItem('driveiq_offline_trips')).not.toBeNull();
+
+    expect(await ensureStorageReady()).toEqual({ ok: true });
+    expect(await AsyncStorage.getItem('driveiq_schema_version')).toBe(String(SCHEMA_VERSION));
+    expect((await listLocalTrips()).map((t) => t.id).sort()).toEqual(trips.map((t) => t.id).sort());
+  });
+});
+
+describe('replayed trips', () => {
+  // Started just now, so they fall in the coaching window
+  const recent = (minutesAgo: number, overrides = {}) =>
+    makeTrip(0, { start_time: new Date(Date.now() - minutesAgo * 60000).toISOString(), ...overrides });
+
+  test('leave the stats and achievements alone', async () => {
+    await saveLocalTrip(recent(30, { id: 'trip_replay', simulated: true, score: 100 }));
+
+    expect(await getTripStats()).toMatchObject({ count: 0, distanceKm: 0, scoreCounts: {} });
+    const achievements = await loadAchievements(await getTripStats());
+    expect(achievements.filter((a) => a.unlocked)).toEqual([]);
+
+    await deleteTrip('trip_replay');
+    expect((await getTripStats()).count).toBe(0);
+  });
+
+  test('are left out of the recent averages', async () => {
+    await saveLocalTrip(recent(30, { id: 'trip_real', score: 80 }));
+    await saveLocalTrip(recent(60, { id: 'trip_replay', simulated: true, score: 20 }));
+
+    expect(await getRecentComparison()).toMatchObject({ trips: 1, averageScore: 80 });
+  });
+
+  test('are taken out of stats written before they were left out', async () => {
+    const { AsyncStorage, storage, repository } = relaunch();
+    const real = makeTrip(0, { id: 'trip_real' });
+    const replay = makeTrip(30, { id: 'trip_replay', simulated: true });
+    await AsyncStorage.multiSet([
+      ['driveiq_schema_version', '3'],
+      ['driveiq_trip_record_trip_real', JSON.stringify(real)],
+      ['driveiq_trip_record_trip_replay', JSON.stringify(replay)],
+      [
+        'driveiq_trip_index',
+        JSON.stringify([
+          { id: 'trip_real', start: Date.parse(real.start_time), synced: false },
+          { id: 'trip_replay', start: Date.parse(replay.start_time), synced: false, simulated: true },
+        ]),
+      ],
+      [
+        'driveiq_trip_stats',
+        JSON.stringify({ count: 2, distanceKm: 25, durationMinutes: 40, scoreSum: 172, scoreCounts: { '86': 2 } }),
+      ],
+    ]);
+
+    expect(await storage.ensureStorageReady()).toEqual({ ok: true });
+    expect(await repository.getTripStats()).toEqual({
+      count: 1,
+      distanceKm: 12.5,
+      durationMinutes: 20,
+      scoreSum: 86,
+      scoreCounts: { '86': 1 },
+    });
+    expect(await repository.listLocalTrips()).toHaveLength(2);
+  });
+});
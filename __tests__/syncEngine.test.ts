@@ -0,0 +1,240 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  SyncOptions,
+  getSyncRejections,
+  getSyncStatus,
+  retrySyncRejections,
+  syncTrips,
+} from '../app/syncEngine';
+import {
+  Trip,
+  deleteTrip,
+  getDeviceId,
+  getPendingDeletes,
+  listLocalTrips,
+  saveLocalTrip,
+  setPendingDeletes,
+} from '../app/tripRepository';
+import { MockBackend, startMockBackend } from './helpers/mockBackend';
+import { makeTrip } from './helpers/trips';
+
+let backend: MockBackend;
+let sleeps: number[];
+
+const sync = (overrides: SyncOptions = {}) =>
+  syncTrips({
+    baseUrl: backend.url,
+    baseDelayMs: 100,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+    },
+    ...overrides,
+  });
+
+const localById = async () => new Map((await listLocalTrips()).map((t) => [t.id, t]));
+// What the server stores for an uploaded trip
+const serverCopy = ({ synced, route_key, ...trip }: Trip) => trip;
+const posts = () => backend.requests.filter((r) => r.method === 'POST');
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  backend = await startMockBackend();
+  sleeps = [];
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await backend.stop();
+});
+
+describe('uploads', () => {
+  test('sends unsynced trips in batches and marks them synced', async () => {
+    const trips = [0, 30, 60, 90, 120].map((m) => makeTrip(m, { route_key: `route_${m}` }));
+    for (const trip of trips) await saveLocalTrip(trip);
+
+    const result = await sync({ batchSize: 2 });
+
+    expect(result).toMatchObject({ uploaded: 5, deleted: 0 });
+    expect(posts().map((r) => r.body.trips.length)).toEqual([2, 2, 1]);
+    expect(posts()[0].body.device_id).toBe(await getDeviceId());
+    // The server never sees local bookkeeping
+    expect(posts()[0].body.trips[0]).not.toHaveProperty('synced');
+    expect(posts()[0].body.trips[0]).not.toHaveProperty('route_key');
+
+    const local = await localById();
+    expect(trips.every((t) => local.get(t.id)?.synced)).toBe(true);
+    expect(local.get(trips[0].id)?.route_key).toBe('route_0');
+    expect((await getSyncStatus()).pendingCount).toBe(0);
+  });
+
+  test('backs off and retries on 5xx and 429', async () => {
+    const trip = makeTrip(0);
+    await saveLocalTrip(trip);
+    backend.failures.push({ method: 'POST', status: 503 }, { method: 'POST', status: 429 });
+
+    const result = await sync();
+
+    expect(result?.uploaded).toBe(1);
+    expect(posts()).toHaveLength(3);
+    expect(sleeps).toHaveLength(2);
+    // Exponential with up to 20% jitter
+    expect(sleeps[0]).toBeGreaterThanOrEqual(100);
+    expect(sleeps[0]).toBeLessThanOrEqual(120);
+    expect(sleeps[1]).toBeGreaterThanOrEqual(200);
+    expect(sleeps[1]).toBeLessThanOrEqual(240);
+  });
+
+  test('records the failure and keeps trips pending when retries run out', async () => {
+    const trip = makeTrip(0);
+    await saveLocalTrip(trip);
+    backend.failures.push(...Array.from({ length: 3 }, () => ({ method: 'POST', status: 500 })));
+
+    const result = await sync({ maxRetries: 2 });
+
+    expect(result).toBeNull();
+    expect(posts()).toHaveLength(3);
+    const status = await getSyncStatus();
+    expect(status.lastError).toMatch(/500/);
+    expect(status.pendingCount).toBe(1);
+    expect((await localById()).get(trip.id)?.synced).toBe(false);
+  });
+
+  test('sets aside a trip the server refuses with a 422 and uploads the rest', async () => {
+    const trips = [0, 30, 60].map((m) => makeTrip(m));
+    for (const trip of trips) await saveLocalTrip(trip);
+    backend.rejectedIds.add(trips[1].id);
+
+    const result = await sync({ batchSize: 20 });
+
+    // No retries for a 4xx
+    expect(sleeps).toHaveLength(0);
+    expect(result?.uploaded).toBe(2);
+    const local = await localById();
+    expect(local.get(trips[0].id)?.synced).toBe(true);
+    expect(local.get(trips[1].id)?.synced).toBe(false);
+    expect(local.get(trips[2].id)?.synced).toBe(true);
+    expect(await getSyncRejections()).toEqual([
+      expect.objectContaining({ id: trips[1].id, action: 'upload', reason: expect.stringMatching(/422/) }),
+    ]);
+
+    // Not offered again, and counted apart from the pending trips
+    backend.requests.length = 0;
+    await sync();
+    expect(posts()).toHaveLength(0);
+    expect(await getSyncStatus()).toMatchObject({ pendingCount: 0, rejectedCount: 1 });
+  });
+
+  test('fails the run on a 401 and leaves the queue as it was', async () => {
+    const trips = [0, 30, 60].map((m) => makeTrip(m));
+    for (const trip of trips) await saveLocalTrip(trip);
+    backend.failures.push({ method: 'POST', status: 401 });
+
+    expect(await sync({ batchSize: 20 })).toBeNull();
+
+    // No per-trip fallback and nothing set aside
+    expect(posts()).toHaveLength(1);
+    expect(await getSyncRejections()).toEqual([]);
+    const status = await getSyncStatus();
+    expect(status.lastError).toMatch(/401/);
+    expect(status).toMatchObject({ pendingCount: 3, rejectedCount: 0 });
+    expect([...(await localById()).values()].every((t) => !t.synced)).toBe(true);
+
+    // Once the server takes them again everything goes up
+    expect(await sync({ batchSize: 20 })).toMatchObject({ uploaded: 3 });
+  });
+
+  test('uploads a trip set aside once it is retried', async () => {
+    const trip = makeTrip(0);
+    await saveLocalTrip(trip);
+    backend.rejectedIds.add(trip.id);
+    await sync();
+    expect((await getSyncStatus()).rejectedCount).toBe(1);
+
+    backend.rejectedIds.clear();
+    const result = await retrySyncRejections({ baseUrl: backend.url });
+
+    expect(result?.uploaded).toBe(1);
+    expect(backend.trips.has(trip.id)).toBe(true);
+    expect(await getSyncStatus()).toMatchObject({ pendingCount: 0, rejectedCount: 0 });
+  });
+});
+
+describe('deletes', () => {
+  test('replays deletes queued while offline', async () => {
+    const deviceId = await getDeviceId();
+    const trip = makeTrip(0, { synced: true });
+    await saveLocalTrip(trip);
+    backend.trips.set(trip.id, { deviceId, trip });
+
+    // No backend configured in the app, so the delete is queued
+    await deleteTrip(trip.id);
+    expect(await getPendingDeletes()).toEqual([trip.id]);
+
+    const result = await sync();
+
+    expect(result?.deleted).toBe(1);
+    expect(backend.trips.has(trip.id)).toBe(false);
+    expect(await getPendingDeletes()).toEqual([]);
+  });
+
+  test('drops a delete the server refuses and carries on with the queue', async () => {
+    await setPendingDeletes(['trip_refused', 'trip_gone', 'trip_kept']);
+    backend.rejectedIds.add('trip_refused');
+    backend.trips.set('trip_kept', { deviceId: await getDeviceId(), trip: makeTrip(0, { id: 'trip_kept' }) });
+
+    const result = await sync();
+
+    expect(result?.deleted).toBe(2);
+    expect(backend.trips.has('trip_kept')).toBe(false);
+    expect(await getPendingDeletes()).toEqual([]);
+    expect(await getSyncRejections()).toEqual([
+      expect.objectContaining({ id: 'trip_refused', action: 'delete', reason: expect.stringMatching(/409/) }),
+    ]);
+  });
+
+  test('fails the run on a 403 and keeps every delete queued', async () => {
+    await setPendingDeletes(['trip_a', 'trip_b']);
+    backend.failures.push({ method: 'DELETE', status: 403 });
+
+    expect(await sync()).toBeNull();
+    expect(await getPendingDeletes()).toEqual(['trip_a', 'trip_b']);
+    expect(await getSyncRejections()).toEqual([]);
+  });
+
+  test('keeps deletes queued when the server is unreachable', async () => {
+    await setPendingDeletes(['trip_a']);
+    backend.failures.push(...Array.from({ length: 2 }, () => ({ method: 'DELETE', status: 503 })));
+
+    expect(await sync({ maxRetries: 1 })).toBeNull();
+    expect(await getPendingDeletes()).toEqual(['trip_a']);
+  });
+});
+
+describe('pull', () => {
+  test('reconciles local trips with the server copy', async () => {
+    const deviceId = await getDeviceId();
+    const deletedOnServer = makeTrip(0, { synced: true });
+    const editedOnServer = makeTrip(30, { synced: true, route_key: 'route_edited' });
+    const unsynced = makeTrip(60);
+    const onlyOnServer = makeTrip(90);
+    for (const trip of [deletedOnServer, editedOnServer, unsynced]) await saveLocalTrip(trip);
+
+    backend.trips.set(editedOnServer.id, { deviceId, trip: { ...serverCopy(editedOnServer), name: 'Renamed on the web' } });
+    backend.trips.set(onlyOnServer.id, { deviceId, trip: serverCopy(onlyOnServer) });
+    // Another device's trips are never pulled
+    backend.trips.set('trip_other', { deviceId: 'device_other', trip: makeTrip(120, { id: 'trip_other' }) });
+
+    const result = await sync();
+
+    expect(result).toMatchObject({ uploaded: 1, pulled: 2, removedLocally: 1 });
+    const local = await localById();
+    expect(local.has(deletedOnServer.id)).toBe(false);
+    expect(local.get(editedOnServer.id)).toMatchObject({ name: 'Renamed on the web', route_key: 'route_edited' });
+    expect(local.get(unsynced.id)?.synced).toBe(true);
+    expect(local.get(onlyOnServer.id)).toMatchObject({ synced: true, route_key: null });
+    expect(local.has('trip_other')).toBe(false);
+  });
+});
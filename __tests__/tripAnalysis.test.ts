@@ -0,0 +1,59 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Fix, analyzeTrip, createTripAnalyzer } from '../app/tripAnalysis';
+
+// A four-and-a-half minute drive at 1 Hz: parked with the GPS wandering,
+// a hard pull away, a poor fix and a multipath jump, a stretch over
+// 130 km/h, an emergency stop, then on to a gentle stop. 4.54 km.
+const commute: Fix[] = JSON.parse(readFileSync(join(__dirname, 'fixtures', 'analysis', 'commute.json'), 'utf8'));
+
+describe('analyzeTrip', () => {
+  const summary = analyzeTrip(commute);
+
+  test('measures distance and time', () => {
+    expect(summary.startTime).toBe(commute[0].timestamp);
+    expect(summary.endTime).toBe(commute[commute.length - 1].timestamp);
+    expect(summary.durationMinutes).toBeCloseTo(263 / 60);
+    expect(summary.distanceKm).toBeCloseTo(4.54, 1);
+    // Parked at the start and stopped for 15 s after the emergency stop
+    expect(summary.stoppedMinutes * 60).toBeCloseTo(26, 0);
+    expect(summary.movingMinutes + summary.stoppedMinutes).toBeCloseTo(summary.durationMinutes);
+  });
+
+  test('measures speed', () => {
+    expect(summary.maxSpeed).toBe(140);
+    const kmhWhileMoving = summary.distanceKm / (summary.movingMinutes / 60);
+    expect(Math.abs(summary.avgSpeed - kmhWhileMoving)).toBeLessThan(2);
+  });
+
+  test('finds one of each GPS event', () => {
+    expect(summary).toMatchObject({
+      hardBrakes: 1,
+      hardAccelerations: 1,
+      speedingCount: 1,
+      harshCorneringCount: 0,
+      phoneHandlingCount: 0,
+    });
+    expect(summary.events.map((e) => [e.type, e.speed])).toEqual([
+      ['hard_acceleration', 15],
+      ['speeding', 132],
+      ['hard_brake', 60],
+    ]);
+    expect(summary.events[1]).toMatchObject({ limitKmh: 130, overshootKmh: 10 });
+  });
+
+  test('drops the bad fixes before measuring', () => {
+    expect(summary.discardedFixes).toMatchObject({ low_accuracy: 1, impossible_jump: 1, duplicate: 0 });
+    expect(summary.discardedFixes.stationary_drift).toBeGreaterThan(0);
+    const discarded = Object.values(summary.discardedFixes).reduce((sum, n) => sum + n, 0);
+    expect(summary.acceptedFixes + discarded).toBe(commute.length);
+  });
+
+  test('matches the live analyzer fed one fix at a time', () => {
+    const live = createTripAnalyzer();
+    const triggered = commute.flatMap((fix) => live.addFix(fix));
+
+    expect(live.getSummary()).toEqual(summary);
+    expect(triggered.map((e) => e.type)).toEqual(['hard_acceleration', 'speeding', 'hard_brake']);
+  });
+});
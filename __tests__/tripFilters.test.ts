@@ -0,0 +1,114 @@
+import {
+  DEFAULT_FILTER,
+  TripFilter,
+  countActiveFilters,
+  matchesFilter,
+  normalizeTags,
+  sortTrips,
+  summarizeTrips,
+} from '../app/tripFilters';
+import { makeTrip } from './helpers/trips';
+
+const filter = (overrides: Partial<TripFilter>): TripFilter => ({ ...DEFAULT_FILTER, ...overrides });
+const ids = (trips: { id: string }[]) => trips.map((t) => t.id);
+
+describe('bands', () => {
+  test('a score on a band edge belongs to the band above', () => {
+    const matching = (score: number) =>
+      (['excellent', 'very_good', 'good', 'needs_work'] as const).filter((band) =>
+        matchesFilter(makeTrip(0, { score }), filter({ scoreBand: band }))
+      );
+
+    expect(matching(90)).toEqual(['excellent']);
+    expect(matching(89.9)).toEqual(['very_good']);
+    expect(matching(80)).toEqual(['very_good']);
+    expect(matching(60)).toEqual(['good']);
+    expect(matching(59)).toEqual(['needs_work']);
+    expect(matching(0)).toEqual(['needs_work']);
+    expect(matching(100)).toEqual(['excellent']);
+  });
+
+  test('a distance on a band edge belongs to the band above', () => {
+    const matching = (distance_km: number) =>
+      (['short', 'medium', 'long'] as const).filter((band) =>
+        matchesFilter(makeTrip(0, { distance_km }), filter({ distanceBand: band }))
+      );
+
+    expect(matching(0)).toEqual(['short']);
+    expect(matching(4.99)).toEqual(['short']);
+    expect(matching(5)).toEqual(['medium']);
+    expect(matching(20)).toEqual(['long']);
+    expect(matching(350)).toEqual(['long']);
+  });
+
+  test('events filters keep only trips that had them', () => {
+    const calm = makeTrip(0, { speeding_count: 0, hard_brakes: 0 });
+    expect(matchesFilter(calm, filter({ withSpeeding: true }))).toBe(false);
+    expect(matchesFilter(calm, filter({ withHardBrakes: true }))).toBe(false);
+    expect(matchesFilter(makeTrip(0), filter({ withSpeeding: true, withHardBrakes: true }))).toBe(true);
+    expect(countActiveFilters(filter({ range: 'week', withSpeeding: true, query: 'work' }))).toBe(2);
+  });
+});
+
+describe('search', () => {
+  const commute = makeTrip(0, { name: 'Morning commute', tags: ['work', 'highway'] });
+  const errand = makeTrip(60, { name: 'Groceries', tags: ['family'] });
+  const unnamed = makeTrip(120);
+  const search = (query: string) =>
+    ids([commute, errand, unnamed].filter((t) => matchesFilter(t, filter({ query }))));
+
+  test('matches every word against the name and tags, ignoring case', () => {
+    expect(search('')).toEqual(ids([commute, errand, unnamed]));
+    expect(search('  ')).toEqual(ids([commute, errand, unnamed]));
+    expect(search('MORNING')).toEqual(ids([commute]));
+    expect(search('commute highway')).toEqual(ids([commute]));
+    expect(search('commute family')).toEqual([]);
+  });
+
+  test('reads a # word as the tag typed without it', () => {
+    expect(search('#work')).toEqual(ids([commute]));
+    expect(search('#FAMILY groceries')).toEqual(ids([errand]));
+    expect(search('#gym')).toEqual([]);
+    // A bare # searches for nothing
+    expect(search('#')).toEqual(ids([commute, errand, unnamed]));
+  });
+
+  test('tags are stored the way the search reads them', () => {
+    expect(normalizeTags('#Work, highway،#work  ##Night')).toEqual(['work', 'highway', 'night']);
+  });
+});
+
+describe('sortTrips', () => {
+  const trips = [
+    makeTrip(60, { id: 'middle', score: 80, distance_km: 10 }),
+    makeTrip(0, { id: 'newest', score: 80, distance_km: 5 }),
+    makeTrip(120, { id: 'oldest', score: 95, distance_km: 10 }),
+  ];
+
+  test('sorts by the key in either direction', () => {
+    expect(ids(sortTrips(trips, { key: 'date', ascending: false }))).toEqual(['newest', 'middle', 'oldest']);
+    expect(ids(sortTrips(trips, { key: 'date', ascending: true }))).toEqual(['oldest', 'middle', 'newest']);
+    expect(ids(sortTrips(trips, { key: 'score', ascending: false }))[0]).toBe('oldest');
+    expect(ids(sortTrips(trips, { key: 'distance', ascending: true }))[0]).toBe('newest');
+  });
+
+  test('keeps ties newest first whichever way the key runs', () => {
+    expect(ids(sortTrips(trips, { key: 'score', ascending: true }))).toEqual(['newest', 'middle', 'oldest']);
+    expect(ids(sortTrips(trips, { key: 'score', ascending: false }))).toEqual(['oldest', 'newest', 'middle']);
+    expect(ids(sortTrips(trips, { key: 'distance', ascending: false }))).toEqual(['middle', 'oldest', 'newest']);
+    expect(ids(sortTrips(trips, { key: 'duration', ascending: true }))).toEqual(['newest', 'middle', 'oldest']);
+  });
+
+  test('leaves the list it was given alone', () => {
+    sortTrips(trips, { key: 'date', ascending: true });
+    expect(ids(trips)).toEqual(['middle', 'newest', 'oldest']);
+  });
+});
+
+describe('summarizeTrips', () => {
+  test('totals the set and rounds the average score', () => {
+    const trips = [makeTrip(0, { score: 80 }), makeTrip(60, { score: 85 })];
+    expect(summarizeTrips(trips)).toEqual({ count: 2, distanceKm: 25, durationMinutes: 40, avgScore: 83 });
+    expect(summarizeTrips([])).toEqual({ count: 0, distanceKm: 0, durationMinutes: 0, avgScore: 0 });
+  });
+});
@@ -0,0 +1,117 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { loadRoute } from '../app/routeStore';
+import { syncTrips } from '../app/syncEngine';
+import { importTrackFiles } from '../app/tripImport';
+import { listLocalTrips, saveLocalTrip } from '../app/tripRepository';
+import { makeTrip } from './helpers/trips';
+
+// Uploading isn't what's under test
+jest.mock('../app/syncEngine', () => ({
+  syncTrips: jest.fn(async () => null),
+}));
+
+// A per-fix CSV line every second for `seconds`, heading east at 54 km/h
+const drive = (tripId: string, startIso: string, seconds: number) =>
+  Array.from({ length: seconds + 1 }, (_, s) =>
+    [
+      tripId,
+      new Date(Date.parse(startIso) + s * 1000).toISOString(),
+      24.7136,
+      (46.6753 + s * 0.000148).toFixed(6),
+      54,
+      5,
+      90,
+    ].join(',')
+  );
+
+const csv = (...drives: string[][]) =>
+  ['trip_id,timestamp,latitude,longitude,speed_kmh,accuracy_m,heading', ...drives.flat()].join('\n');
+
+const morning = csv(drive('trip_a', '2026-03-02T07:00:00Z', 120));
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('importTrackFiles', () => {
+  test('saves a drive as an imported trip with its route and syncs', async () => {
+    const summary = await importTrackFiles([{ name: 'morning.csv', text: morning }]);
+
+    expect(summary).toMatchObject({ skipped: [], rejected: [] });
+    expect(summary.added).toHaveLength(1);
+    const [trip] = await listLocalTrips();
+    expect(trip).toMatchObject({ id: summary.added[0].id, imported: true, start_time: '2026-03-02T07:00:00.000Z' });
+    expect(trip.distance_km).toBeCloseTo(1.8, 1);
+    expect(await loadRoute(trip.route_key as string)).toHaveLength(121);
+    expect(syncTrips).toHaveBeenCalledTimes(1);
+  });
+
+  test('adds a drive found in two files only once', async () => {
+    const summary = await importTrackFiles([
+      { name: 'phone.csv', text: morning },
+      { name: 'copy.csv', text: morning },
+    ]);
+
+    expect(summary.added).toHaveLength(1);
+    expect(summary.skipped).toEqual([{ label: 'copy.csv', reason: 'duplicate' }]);
+    expect(await listLocalTrips()).toHaveLength(1);
+  });
+
+  test('skips drives overlapping a trip already in the history', async () => {
+    await importTrackFiles([{ name: 'morning.csv', text: morning }]);
+    // Recorded live on this phone, overlapping the second drive by a minute
+    await saveLocalTrip(makeTrip(-39, { id: 'trip_live' }));
+    const later = csv(drive('trip_b', '2026-03-02T07:01:00Z', 60), drive('trip_c', '2026-03-02T08:58:00Z', 120));
+    jest.clearAllMocks();
+
+    const summary = await importTrackFiles([{ name: 'again.csv', text: later }]);
+
+    expect(summary.added).toEqual([]);
+    expect(summary.skipped).toEqual([
+      { label: 'again.csv #1', reason: 'duplicate' },
+      { label: 'again.csv #2', reason: 'duplicate' },
+    ]);
+    expect(await listLocalTrips()).toHaveLength(2);
+    expect(syncTrips).not.toHaveBeenCalled();
+  });
+
+  test('splits a day-long track where the fixes stop', async () => {
+    const day = csv([
+      ...drive('logger', '2026-03-02T07:00:00Z', 120),
+      ...drive('logger', '2026-03-02T07:30:00Z', 120),
+    ]);
+
+    const summary = await importTrackFiles([{ name: 'day.csv', text: day }]);
+
+    expect(summary.added.map((t) => t.start_time)).toEqual(['2026-03-02T07:00:00.000Z', '2026-03-02T07:30:00.000Z']);
+    expect(summary.skipped).toEqual([]);
+  });
+
+  test('rejects drives too short to score and files it cannot read', async () => {
+    const parked = csv(
+      Array.from({ length: 30 }, (_, s) =>
+        ['parked', new Date(Date.parse('2026-03-02T07:00:00Z') + s * 1000).toISOString(), 24.7136, 46.6753, 0, 5, 90].join(',')
+      )
+    );
+
+    const summary = await importTrackFiles([
+      { name: 'blip.csv', text: csv(drive('blip', '2026-03-02T07:00:00Z', 5)) },
+      { name: 'parked.csv', text: parked },
+      { name: 'notes.txt', text: 'not a track' },
+    ]);
+
+    expect(summary.rejected).toEqual([
+      { label: 'blip.csv', reason: 'too_short' },
+      { label: 'parked.csv', reason: 'too_short' },
+      { label: 'notes.txt', reason: 'unsupported' },
+    ]);
+    expect(summary.added).toEqual([]);
+    expect(syncTrips).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+import { GroupBy, groupTrips, periodEnd, periodStart, summarizeSection, weightedScore } from '../app/tripSections';
+import { makeTrip } from './helpers/trips';
+
+// Periods are in the phone's local time, so expectations are built with
+// the local Date constructor. The ranges below cover the 2026 daylight
+// saving changes in Europe (29 Mar, 25 Oct) and North America (8 Mar,
+// 1 Nov); run with TZ set to one of those zones to exercise them.
+const local = (month: number, day: number, hours = 0, minutes = 0) =>
+  new Date(2026, month - 1, day, hours, minutes).getTime();
+
+const days = (month: number, from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => from + i).map((day) => [month, day]);
+
+describe('periods', () => {
+  test.each([...days(3, 1, 31), ...days(10, 20, 31), ...days(11, 1, 5)])(
+    'day %i/%i runs from local midnight to the next',
+    (month, day) => {
+      for (const hours of [0, 1, 2, 3, 12, 23]) {
+        expect(periodStart(local(month, day, hours, 30), 'day')).toBe(local(month, day));
+      }
+      expect(periodEnd(local(month, day), 'day')).toBe(local(month, day + 1));
+    }
+  );
+
+  test('weeks start on Sunday', () => {
+    // 1 March 2026 is a Sunday
+    expect(new Date(local(3, 1)).getDay()).toBe(0);
+    expect(periodStart(local(3, 1), 'week')).toBe(local(3, 1));
+    expect(periodStart(local(3, 4, 9), 'week')).toBe(local(3, 1));
+    expect(periodStart(local(3, 7, 23, 59), 'week')).toBe(local(3, 1));
+    expect(periodStart(local(3, 8, 0, 1), 'week')).toBe(local(3, 8));
+    // and run over a year end
+    expect(periodStart(local(1, 1), 'week')).toBe(new Date(2025, 11, 28).getTime());
+  });
+
+  test.each([
+    [3, 8],
+    [3, 29],
+    [10, 25],
+    [11, 1],
+  ])('a week starting %i/%i ends on the next Sunday at midnight', (month, day) => {
+    const start = periodStart(local(month, day + 3, 18), 'week');
+    expect(start).toBe(local(month, day));
+    expect(periodEnd(start, 'week')).toBe(local(month, day + 7));
+  });
+
+  test('months run from the 1st to the 1st, over a year end', () => {
+    expect(periodStart(local(3, 31, 23, 30), 'month')).toBe(local(3, 1));
+    expect(periodEnd(local(3, 1), 'month')).toBe(local(4, 1));
+    expect(periodEnd(local(10, 1), 'month')).toBe(local(11, 1));
+    expect(periodEnd(local(12, 1), 'month')).toBe(new Date(2027, 0, 1).getTime());
+  });
+
+  test.each(['day', 'week', 'month'] as GroupBy[])('%s periods follow on without gaps', (groupBy) => {
+    let start = periodStart(local(1, 1), groupBy);
+    while (start < local(12, 31)) {
+      const end = periodEnd(start, groupBy);
+      expect(periodStart(end - 1, groupBy)).toBe(start);
+      expect(periodStart(end, groupBy)).toBe(end);
+      start = end;
+    }
+  });
+});
+
+describe('weightedScore', () => {
+  test('weights each trip by its distance', () => {
+    const trips = [makeTrip(0, { score: 100, distance_km: 30 }), makeTrip(60, { score: 60, distance_km: 10 })];
+    expect(weightedScore(trips)).toBe(90);
+  });
+
+  test('a trip without distance carries no weight beside ones with it', () => {
+    const trips = [makeTrip(0, { score: 40, distance_km: 0 }), makeTrip(60, { score: 85, distance_km: 3 })];
+    expect(weightedScore(trips)).toBe(85);
+  });
+
+  test('falls back to the plain average when no trip has a distance', () => {
+    const trips = [makeTrip(0, { score: 90, distance_km: 0 }), makeTrip(60, { score: 75, distance_km: 0 })];
+    expect(weightedScore(trips)).toBe(83);
+    expect(weightedScore([])).toBe(0);
+  });
+});
+
+describe('groupTrips', () => {
+  const at = (id: string, time: number, overrides = {}) =>
+    makeTrip(0, { id, start_time: new Date(time).toISOString(), ...overrides });
+
+  test('makes a section per run of trips in the same period, newest first', () => {
+    const trips = [
+      at('sun', local(3, 8, 8), { distance_km: 0, score: 70 }),
+      at('sat_late', local(3, 7, 23, 30), { score: 100, distance_km: 10 }),
+      at('wed', local(3, 4, 7), { score: 70, distance_km: 30 }),
+    ];
+
+    const byDay = groupTrips(trips, 'day');
+    expect(byDay.map((s) => s.trips.map((t) => t.id))).toEqual([['sun'], ['sat_late'], ['wed']]);
+
+    const byWeek = groupTrips(trips, 'week');
+    expect(byWeek.map((s) => [s.key, s.start, s.end])).toEqual([
+      [`week-${local(3, 8)}`, local(3, 8), local(3, 15)],
+      [`week-${local(3, 1)}`, local(3, 1), local(3, 8)],
+    ]);
+    expect(byWeek[1].summary).toEqual({ count: 2, distanceKm: 40, durationMinutes: 40, score: 78 });
+    expect(byWeek[0].summary).toEqual(summarizeSection([trips[0]]));
+    expect(byWeek[0].summary.score).toBe(70);
+
+    expect(groupTrips(trips, 'month')).toHaveLength(1);
+    expect(groupTrips([], 'month')).toEqual([]);
+  });
+});
@@ -1,21 +1,24 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   Text,
   StyleSheet,
-  FlatList,
+  SectionList,
   TouchableOpacity,
   RefreshControl,
   ActivityIndicator,
   Share,
   Dimensions,
   Alert,
+  Modal,
+  Pressable,
+  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useFocusEffect, useRouter } from 'expo-router';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -30,39 +33,123 @@ import {
   GestureDetector,
 } from 'react-native-gesture-handler';
 
+import {
+  Trip,
+  TripSource,
+  clearLocalTrips,
+  getTripSource,
+  getTripStats,
+  queryTrips,
+  searchTrips,
+} from '../tripRepository';
+import {
+  DEFAULT_FILTER,
+  DEFAULT_SORT,
+  DateRange,
+  DistanceBand,
+  ScoreBand,
+  SortKey,
+  TripFilter,
+  TripSetSummary,
+  TripSort,
+  countActiveFilters,
+  isDefaultView,
+  summarizeTrips,
+} from '../tripFilters';
+import { GroupBy, TripSection, groupTrips, periodStart } from '../tripSections';
+import type { ExportFormat } from '../exporters';
+import { ExportResult, shareTrips, shareTripsInRange } from '../tripExport';
+
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
-const TRIPS_STORAGE_KEY = 'driveiq_offline_trips';
-
-interface Trip {
-  id: string;
-  start_time: string;
-  end_time: string;
-  distance_km: number;
-  duration_minutes: number;
-  max_speed: number;
-  avg_speed: number;
-  hard_brakes: number;
-  hard_accelerations: number;
-  speeding_count: number;
-  score: number;
-}
+
+// Trips loaded per page as the list scrolls
+const PAGE_SIZE = 20;
+
+const SOURCE_BADGES: Record<TripSource, { icon: string; label: string; color: string }> = {
+  local: { icon: 'phone-portrait-outline', label: 'على الجهاز', color: '#9CA3AF' },
+  synced: { icon: 'cloud-done-outline', label: 'متزامن', color: '#10B981' },
+  remote: { icon: 'cloud-outline', label: 'على الخادم', color: '#00AAFF' },
+};
+
+const EXPORT_FORMATS: { format: ExportFormat; icon: string; label: string; hint: string }[] = [
+  { format: 'gpx', icon: 'map-outline', label: 'GPX', hint: 'المسار مع السرعة' },
+  { format: 'kml', icon: 'earth-outline', label: 'KML', hint: 'المسار ومواقع الأحداث' },
+  { format: 'csv_trips', icon: 'list-outline', label: 'CSV', hint: 'سطر لكل رحلة' },
+  { format: 'csv_fixes', icon: 'grid-outline', label: 'CSV', hint: 'سطر لكل نقطة من المسار' },
+];
+
+const RANGE_LABELS: Record<DateRange, string> = {
+  all: 'الكل',
+  week: 'أسبوع',
+  month: 'شهر',
+  quarter: '3 أشهر',
+  year: 'سنة',
+};
+
+const SCORE_BAND_LABELS: Record<ScoreBand, string> = {
+  excellent: 'ممتاز 90+',
+  very_good: 'جيد جداً 80-89',
+  good: 'جيد 60-79',
+  needs_work: 'يحتاج تحسين',
+};
+
+const DISTANCE_BAND_LABELS: Record<DistanceBand, string> = {
+  short: 'أقل من 5 كم',
+  medium: '5-20 كم',
+  long: 'أكثر من 20 كم',
+};
+
+const SORT_LABELS: Record<SortKey, string> = {
+  date: 'التاريخ',
+  score: 'النقاط',
+  distance: 'المسافة',
+  duration: 'المدة',
+};
+
+const GROUP_LABELS: Record<GroupBy, string> = {
+  day: 'يوم',
+  week: 'أسبوع',
+  month: 'شهر',
+};
+
+// Typing pauses this long before the search runs
+const SEARCH_DELAY_MS = 300;
+
+// Ranges for exporting many trips, in days back from now (null = all)
+const EXPORT_RANGES: { days: number | null; label: string }[] = [
+  { days: 7, label: 'آخر 7 أيام' },
+  { days: 30, label: 'آخر 30 يوماً' },
+  { days: null, label: 'الكل' },
+];
+
+const EXPORT_ERRORS: Record<Extract<ExportResult, { ok: false }>['reason'], string> = {
+  no_trips: 'لا توجد رحلات في هذه الفترة.',
+  no_routes: 'لا توجد مسارات محفوظة على هذا الجهاز لهذه الرحلات.',
+  unavailable: 'المشاركة غير متاحة على هذا الجهاز.',
+  failed: 'تعذر تصدير الرحلات.',
+};
 
 // Swipeable Trip Card Component
 const SwipeableTripCard = ({ 
   item, 
   index, 
-  onShare 
+  showDate,
+  onShare,
+  onOpen,
 }: { 
   item: Trip; 
   index: number; 
+  showDate: boolean; // false when the section header already names the day
   onShare: (trip: Trip) => void;
+  onOpen: (trip: Trip) => void;
 }) => {
   const translateX = useSharedValue(0);
   const cardOpacity = useSharedValue(0);
   const cardScale = useSharedValue(0.9);
 
   useEffect(() => {
-    const delay = index * 100;
+    // Stagger within a page so later pages don't wait for earlier ones
+    const delay = (index % PAGE_SIZE) * 100;
     setTimeout(() => {
       cardOpacity.value = withTiming(1, { duration: 400 });
       cardScale.value = withSpring(1, { damping: 15 });
@@ -83,6 +170,13 @@ const SwipeableTripCard = ({
       translateX.value = withSpring(0);
     });
 
+  const tapGesture = Gesture.Tap().onEnd(() => {
+    runOnJS(onOpen)(item);
+  });
+
+  const cardGesture = Gesture.Race(panGesture, tapGesture);
+  const source = SOURCE_BADGES[getTripSource(item)];
+
   const cardAnimatedStyle = useAnimatedStyle(() => ({
     transform: [
       { translateX: translateX.value },
@@ -120,6 +214,11 @@ const SwipeableTripCard = ({
     return '#EF4444';
   };
 
+  const day = showDate ? formatDate(item.start_time) : null;
+  const time = formatTime(item.start_time);
+  const title = item.name || day || time;
+  const subtitle = [item.name ? day : null, item.name || day ? time : null].filter(Boolean).join(' · ');
+
   const getScoreGrade = (score: number): string => {
     if (score >= 90) return 'ممتاز';
     if (score >= 80) return 'جيد جداً';
@@ -141,7 +240,7 @@ const SwipeableTripCard = ({
         <Text style={styles.shareText}>مشاركة</Text>
       </Animated.View>
 
-      <GestureDetector gesture={panGesture}>
+      <GestureDetector gesture={cardGesture}>
         <Animated.View style={[styles.tripCard, cardAnimatedStyle]}>
           <LinearGradient
             colors={['rgba(255,255,255,0.08)', 'rgba(255,255,255,0.03)']}
@@ -149,8 +248,11 @@ const SwipeableTripCard = ({
           >
             <View style={styles.tripHeader}>
               <View style={styles.tripDateTime}>
-                <Text style={styles.tripDate}>{formatDate(item.start_time)}</Text>
-                <Text style={styles.tripTime}>{formatTime(item.start_time)}</Text>
+                <Text style={styles.tripDate} numberOfLines={1}>{title}</Text>
+                {subtitle.length > 0 && <Text style={styles.tripTime}>{subtitle}</Text>}
+                {item.tags && item.tags.length > 0 && (
+                  <Text style={styles.tagsText} numberOfLines={1}>{item.tags.map((tag) => '#' + tag).join(' ')}</Text>
+                )}
               </View>
               <View style={[styles.scoreContainer, { backgroundColor: `${getScoreColor(item.score)}20` }]}>
                 <Ionicons name={getScoreIcon(item.score) as any} size={16} color={getScoreColor(item.score)} />
@@ -194,12 +296,42 @@ const SwipeableTripCard = ({
                     <Text style={styles.eventText}>{item.speeding_count}</Text>
                   </View>
                 )}
+                {(item.phone_handling_count ?? 0) > 0 && (
+                  <View style={styles.eventBadge}>
+                    <Ionicons name="phone-portrait" size={12} color="#0EA5E9" />
+                    <Text style={styles.eventText}>{item.phone_handling_count}</Text>
+                  </View>
+                )}
               </View>
             </View>
 
-            <View style={styles.swipeHint}>
-              <Ionicons name="chevron-forward" size={14} color="#4B5563" />
-              <Text style={styles.swipeHintText}>اسحب للمشاركة</Text>
+            <View style={styles.cardBottomRow}>
+              <View style={styles.sourceBadge}>
+                <Ionicons name={source.icon as any} size={12} color={source.color} />
+                <Text style={[styles.sourceText, { color: source.color }]}>{source.label}</Text>
+                {item.auto_started && (
+                  <>
+                    <Ionicons name="flash-outline" size={12} color="#F59E0B" style={styles.autoIcon} />
+                    <Text style={[styles.sourceText, { color: '#F59E0B' }]}>تلقائية</Text>
+                  </>
+                )}
+                {item.recovered && (
+                  <>
+                    <Ionicons name="medkit-outline" size={12} color="#8B5CF6" style={styles.autoIcon} />
+                    <Text style={[styles.sourceText, { color: '#8B5CF6' }]}>مستعادة</Text>
+                  </>
+                )}
+                {item.imported && (
+                  <>
+                    <Ionicons name="document-attach-outline" size={12} color="#10B981" style={styles.autoIcon} />
+                    <Text style={[styles.sourceText, { color: '#10B981' }]}>مستوردة</Text>
+                  </>
+                )}
+              </View>
+              <View style={styles.swipeHint}>
+                <Ionicons name="chevron-forward" size={14} color="#4B5563" />
+                <Text style={styles.swipeHintText}>اسحب للمشاركة</Text>
+              </View>
             </View>
           </LinearGradient>
         </Animated.View>
@@ -209,27 +341,90 @@ const SwipeableTripCard = ({
 };
 
 export default function HistoryScreen() {
+  const router = useRouter();
   const [trips, setTrips] = useState<Trip[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
   const [totalStats, setTotalStats] = useState({ totalTrips: 0, totalDistance: 0, avgScore: 0 });
+  // The trip being exported, or 'range' for the whole-history export
+  const [exportTarget, setExportTarget] = useState<Trip | 'range' | null>(null);
+  const [exportRangeIndex, setExportRangeIndex] = useState(1);
+  const [exporting, setExporting] = useState(false);
+  const [filter, setFilter] = useState<TripFilter>(DEFAULT_FILTER);
+  const [sort, setSort] = useState<TripSort>(DEFAULT_SORT);
+  const [searchText, setSearchText] = useState('');
+  const [filterSheetVisible, setFilterSheetVisible] = useState(false);
+  // Summary of the filtered trips; null when showing the whole history
+  const [filteredSummary, setFilteredSummary] = useState<TripSetSummary | null>(null);
+  const [groupBy, setGroupBy] = useState<GroupBy>('day');
+
+  // fetchTrips also runs from callbacks made on mount, so it reads the
+  // current view from here. Only the latest fetch may set the list.
+  const viewRef = useRef({ filter, sort, groupBy });
+  viewRef.current = { filter, sort, groupBy };
+  const fetchCount = useRef(0);
+
+  // Refetch on focus so trips deleted from the detail screen disappear
+  useFocusEffect(
+    useCallback(() => {
+      fetchTrips();
+    }, [])
+  );
 
   useEffect(() => {
-    fetchTrips();
-  }, []);
+    if (!loading) fetchTrips();
+  }, [filter, sort, groupBy]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilter((current) => (current.query === searchText ? current : { ...current, query: searchText }));
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  // A page of the newest-first history, carried on to the end of the
+  // last section so every loaded section's summary covers all its trips
+  const loadPage = async (offset: number, sectionsBy: GroupBy) => {
+    const page = await queryTrips({ offset, limit: PAGE_SIZE });
+    if (page.length < PAGE_SIZE) {
+      return { page, more: false };
+    }
+    const boundary = periodStart(new Date(page[page.length - 1].start_time).getTime(), sectionsBy);
+    const rest = await queryTrips({ from: boundary, offset: offset + page.length });
+    return { page: [...page, ...rest], more: true };
+  };
 
   const fetchTrips = async () => {
+    const fetchId = ++fetchCount.current;
+    const view = viewRef.current;
     try {
-      const tripsData = await AsyncStorage.getItem(TRIPS_STORAGE_KEY);
-      if (tripsData) {
-        const parsedTrips = JSON.parse(tripsData);
-        setTrips(parsedTrips);
-        
-        if (parsedTrips.length > 0) {
-          const totalDistance = parsedTrips.reduce((sum: number, t: Trip) => sum + t.distance_km, 0);
-          const avgScore = parsedTrips.reduce((sum: number, t: Trip) => sum + t.score, 0) / parsedTrips.length;
-          setTotalStats({ totalTrips: parsedTrips.length, totalDistance, avgScore: Math.round(avgScore) });
-        }
+      const stats = await getTripStats();
+      if (stats.count > 0) {
+        setTotalStats({
+          totalTrips: stats.count,
+          totalDistance: stats.distanceKm,
+          avgScore: Math.round(stats.scoreSum / stats.count),
+        });
+      } else {
+        setTotalStats({ totalTrips: 0, totalDistance: 0, avgScore: 0 });
+      }
+
+      // The newest-first view pages through the index; anything else
+      // needs every matching trip to filter and sort
+      if (isDefaultView(view.filter, view.sort)) {
+        const { page, more } = await loadPage(0, view.groupBy);
+        if (fetchId !== fetchCount.current) return;
+        setTrips(page);
+        setHasMore(more);
+        setFilteredSummary(null);
+      } else {
+        const matching = await searchTrips(view.filter, view.sort);
+        if (fetchId !== fetchCount.current) return;
+        setTrips(matching);
+        setHasMore(false);
+        setFilteredSummary(summarizeTrips(matching));
       }
     } catch (error) {
       console.error('Error fetching trips:', error);
@@ -238,6 +433,23 @@ export default function HistoryScreen() {
     }
   };
 
+  const loadMore = async () => {
+    if (!hasMore || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const { page, more } = await loadPage(trips.length, groupBy);
+      setTrips((current) => [
+        ...current,
+        ...page.filter((t) => !current.some((c) => c.id === t.id)),
+      ]);
+      setHasMore(more);
+    } catch (error) {
+      console.error('Error loading more trips:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -245,7 +457,7 @@ export default function HistoryScreen() {
     setRefreshing(false);
   }, []);
 
-  const shareTrip = async (trip: Trip) => {
+  const shareSummary = async (trip: Trip) => {
     try {
       const message = `🚗 رحلتي مع DriveIQ\n\n🏆 النقاط: ${trip.score}/100\n📏 المسافة: ${trip.distance_km.toFixed(1)} كم\n⏱️ المدة: ${trip.duration_minutes.toFixed(0)} دقيقة\n🚀 أقصى سرعة: ${trip.max_speed} كم/س\n\nحمّل DriveIQ وحسّن قيادتك!`;
       await Share.share({ message, title: 'مشاركة الرحلة' });
@@ -254,6 +466,28 @@ export default function HistoryScreen() {
     }
   };
 
+  const exportTrips = async (format: ExportFormat) => {
+    const target = exportTarget;
+    setExportTarget(null);
+    if (!target) return;
+
+    setExporting(true);
+    let result: ExportResult;
+    if (target === 'range') {
+      const { days } = EXPORT_RANGES[exportRangeIndex];
+      result = await shareTripsInRange(format, days === null ? undefined : Date.now() - days * 86400000);
+    } else {
+      result = await shareTrips([target], format);
+    }
+    setExporting(false);
+
+    if (!result.ok) {
+      Alert.alert('تصدير الرحلات', EXPORT_ERRORS[result.reason]);
+    } else if (result.withoutRoute > 0) {
+      Alert.alert('تصدير الرحلات', `تم تخطي ${result.withoutRoute} رحلة بلا مسار محفوظ.`);
+    }
+  };
+
   const clearHistory = () => {
     Alert.alert('مسح السجل', 'هل أنت متأكد من حذف جميع الرحلات؟', [
       { text: 'إلغاء', style: 'cancel' },
@@ -261,8 +495,10 @@ export default function HistoryScreen() {
         text: 'حذف',
         style: 'destructive',
         onPress: async () => {
-          await AsyncStorage.removeItem(TRIPS_STORAGE_KEY);
+          await clearLocalTrips();
           setTrips([]);
+          setHasMore(false);
+          setFilteredSummary(null);
           setTotalStats({ totalTrips: 0, totalDistance: 0, avgScore: 0 });
           Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         },
@@ -270,11 +506,95 @@ export default function HistoryScreen() {
     ]);
   };
 
-  const renderTripItem = ({ item, index }: { item: Trip; index: number }) => (
-    <SwipeableTripCard item={item} index={index} onShare={shareTrip} />
+  const openTrip = (trip: Trip) => {
+    router.push(`/trip/${trip.id}`);
+  };
+
+  // Sections only make sense in date order; other sorts show one list
+  const sectioned = sort.key === 'date';
+  const sections = useMemo(
+    () =>
+      sectioned
+        ? groupTrips(trips, groupBy).map((section) => ({ key: section.key, section, data: section.trips }))
+        : [{ key: 'all', section: null, data: trips }],
+    [trips, groupBy, sectioned]
   );
 
-  const renderEmptyList = () => (
+  const openSection = (section: TripSection) => {
+    router.push(`/summary/${section.start}?groupBy=${section.groupBy}`);
+  };
+
+  const formatSectionTitle = (section: TripSection) => {
+    const current = periodStart(Date.now(), section.groupBy);
+    const previous = periodStart(current - 1, section.groupBy);
+    const date = new Date(section.start);
+    if (section.groupBy === 'month') {
+      return date.toLocaleDateString('ar-SA', { month: 'long', year: 'numeric' });
+    }
+    if (section.groupBy === 'week') {
+      if (section.start === current) return 'هذا الأسبوع';
+      if (section.start === previous) return 'الأسبوع الماضي';
+      return `أسبوع ${date.toLocaleDateString('ar-SA', { month: 'short', day: 'numeric' })}`;
+    }
+    if (section.start === current) return 'اليوم';
+    if (section.start === previous) return 'أمس';
+    return date.toLocaleDateString('ar-SA', { weekday: 'long', month: 'short', day: 'numeric' });
+  };
+
+  const formatDrivingTime = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = Math.round(minutes % 60);
+    return hours > 0 ? `${hours} س ${mins} د` : `${mins} د`;
+  };
+
+  const getScoreColor = (score: number) => {
+    if (score >= 80) return '#10B981';
+    if (score >= 60) return '#F59E0B';
+    return '#EF4444';
+  };
+
+  const renderSectionHeader = ({ section: { section } }: { section: { section: TripSection | null } }) => {
+    if (!section) return null;
+    const { summary } = section;
+    return (
+      <TouchableOpacity style={styles.sectionHeader} onPress={() => openSection(section)} activeOpacity={0.8}>
+        <View style={styles.sectionInfo}>
+          <Text style={styles.sectionTitle}>{formatSectionTitle(section)}</Text>
+          <Text style={styles.sectionStats}>
+            {`${summary.count} رحلة · ${summary.distanceKm.toFixed(1)} كم · ${formatDrivingTime(summary.durationMinutes)}`}
+          </Text>
+        </View>
+        <View style={[styles.sectionScore, { backgroundColor: `${getScoreColor(summary.score)}20` }]}>
+          <Text style={[styles.sectionScoreText, { color: getScoreColor(summary.score) }]}>{summary.score}</Text>
+        </View>
+        <Ionicons name="chevron-back" size={18} color="#4B5563" />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderTripItem = ({ item, index, section }: { item: Trip; index: number; section: { section: TripSection | null } }) => (
+    <SwipeableTripCard
+      item={item}
+      index={index}
+      showDate={section.section?.groupBy !== 'day'}
+      onShare={setExportTarget}
+      onOpen={openTrip}
+    />
+  );
+
+  const resetView = () => {
+    setSearchText('');
+    setFilter(DEFAULT_FILTER);
+    setSort(DEFAULT_SORT);
+  };
+
+  const renderEmptyList = () => filteredSummary ? (
+    <View style={styles.emptyContainer}>
+      <Ionicons name="search" size={48} color="#4B5563" />
+      <Text style={styles.emptyTitle}>لا توجد رحلات مطابقة</Text>
+      <Text style={styles.emptyText}>جرّب تغيير التصفية أو كلمات البحث</Text>
+    </View>
+  ) : (
     <View style={styles.emptyContainer}>
       <LinearGradient colors={['rgba(0, 102, 204, 0.1)', 'rgba(0, 102, 204, 0.05)']} style={styles.emptyIconContainer}>
         <Ionicons name="car-sport" size={60} color="#0066CC" />
@@ -284,36 +604,204 @@ export default function HistoryScreen() {
     </View>
   );
 
+  const renderFooter = () =>
+    loadingMore ? <ActivityIndicator style={styles.footerLoader} color="#00AAFF" /> : null;
+
   const renderHeader = () => {
-    if (trips.length === 0) return null;
-    
+    if (trips.length === 0 && !filteredSummary) return null;
+
+    // The summary follows the filter when one is active
+    const shown = filteredSummary
+      ? { trips: filteredSummary.count, distance: filteredSummary.distanceKm, avgScore: filteredSummary.avgScore }
+      : { trips: totalStats.totalTrips, distance: totalStats.totalDistance, avgScore: totalStats.avgScore };
+
     return (
       <View style={styles.statsHeader}>
         <LinearGradient colors={['rgba(255,255,255,0.08)', 'rgba(255,255,255,0.03)']} style={styles.statsCard}>
           <View style={styles.statBox}>
-            <Text style={styles.statBoxValue}>{totalStats.totalTrips}</Text>
-            <Text style={styles.statBoxLabel}>رحلة</Text>
+            <Text style={styles.statBoxValue}>{shown.trips}</Text>
+            <Text style={styles.statBoxLabel}>{filteredSummary ? 'رحلة مطابقة' : 'رحلة'}</Text>
           </View>
           <View style={styles.statDivider} />
           <View style={styles.statBox}>
-            <Text style={styles.statBoxValue}>{totalStats.totalDistance.toFixed(1)}</Text>
+            <Text style={styles.statBoxValue}>{shown.distance.toFixed(1)}</Text>
             <Text style={styles.statBoxLabel}>كم إجمالي</Text>
           </View>
           <View style={styles.statDivider} />
           <View style={styles.statBox}>
-            <Text style={styles.statBoxValue}>{totalStats.avgScore}</Text>
+            <Text style={styles.statBoxValue}>{shown.avgScore}</Text>
             <Text style={styles.statBoxLabel}>متوسط النقاط</Text>
           </View>
         </LinearGradient>
 
-        <TouchableOpacity style={styles.clearButton} onPress={clearHistory}>
-          <Ionicons name="trash-outline" size={18} color="#EF4444" />
-          <Text style={styles.clearButtonText}>مسح السجل</Text>
-        </TouchableOpacity>
+        {filteredSummary && (
+          <View style={styles.filterNotice}>
+            <Text style={styles.filterNoticeText}>
+              {`عرض ${filteredSummary.count} من ${totalStats.totalTrips} رحلة`}
+            </Text>
+            <TouchableOpacity onPress={resetView}>
+              <Text style={styles.filterResetText}>إعادة الضبط</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.headerActions}>
+          <TouchableOpacity style={styles.exportButton} onPress={() => setExportTarget('range')} disabled={exporting}>
+            {exporting ? (
+              <ActivityIndicator size="small" color="#00AAFF" />
+            ) : (
+              <Ionicons name="download-outline" size={18} color="#00AAFF" />
+            )}
+            <Text style={styles.exportButtonText}>تصدير</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.clearButton} onPress={clearHistory}>
+            <Ionicons name="trash-outline" size={18} color="#EF4444" />
+            <Text style={styles.clearButtonText}>مسح السجل</Text>
+          </TouchableOpacity>
+        </View>
       </View>
     );
   };
 
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity key={key} style={[styles.rangeChip, active && styles.rangeChipActive]} onPress={onPress}>
+      <Text style={[styles.rangeChipText, active && styles.rangeChipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const updateFilter = (patch: Partial<TripFilter>) => setFilter((current) => ({ ...current, ...patch }));
+
+  const renderFilterSheet = () => (
+    <Modal visible={filterSheetVisible} transparent animationType="slide" onRequestClose={() => setFilterSheetVisible(false)}>
+      <Pressable style={styles.sheetBackdrop} onPress={() => setFilterSheetVisible(false)}>
+        <Pressable style={styles.sheet}>
+          <Text style={styles.sheetTitle}>التصفية والترتيب</Text>
+
+          <Text style={styles.sheetSectionTitle}>الفترة</Text>
+          <View style={styles.rangeRow}>
+            {(Object.keys(RANGE_LABELS) as DateRange[]).map((range) =>
+              renderChip(range, RANGE_LABELS[range], filter.range === range, () => updateFilter({ range }))
+            )}
+          </View>
+
+          <Text style={styles.sheetSectionTitle}>النقاط</Text>
+          <View style={styles.rangeRow}>
+            {(Object.keys(SCORE_BAND_LABELS) as ScoreBand[]).map((band) =>
+              renderChip(band, SCORE_BAND_LABELS[band], filter.scoreBand === band, () =>
+                updateFilter({ scoreBand: filter.scoreBand === band ? null : band })
+              )
+            )}
+          </View>
+
+          <Text style={styles.sheetSectionTitle}>المسافة</Text>
+          <View style={styles.rangeRow}>
+            {(Object.keys(DISTANCE_BAND_LABELS) as DistanceBand[]).map((band) =>
+              renderChip(band, DISTANCE_BAND_LABELS[band], filter.distanceBand === band, () =>
+                updateFilter({ distanceBand: filter.distanceBand === band ? null : band })
+              )
+            )}
+          </View>
+
+          <Text style={styles.sheetSectionTitle}>الأحداث</Text>
+          <View style={styles.rangeRow}>
+            {renderChip('speeding', 'مع تجاوز السرعة', filter.withSpeeding, () =>
+              updateFilter({ withSpeeding: !filter.withSpeeding })
+            )}
+            {renderChip('brakes', 'مع فرملة قوية', filter.withHardBrakes, () =>
+              updateFilter({ withHardBrakes: !filter.withHardBrakes })
+            )}
+          </View>
+
+          <Text style={styles.sheetSectionTitle}>التجميع</Text>
+          <View style={styles.rangeRow}>
+            {(Object.keys(GROUP_LABELS) as GroupBy[]).map((key) =>
+              renderChip(key, GROUP_LABELS[key], groupBy === key, () => setGroupBy(key))
+            )}
+          </View>
+
+          <Text style={styles.sheetSectionTitle}>الترتيب</Text>
+          <View style={styles.rangeRow}>
+            {(Object.keys(SORT_LABELS) as SortKey[]).map((key) =>
+              renderChip(key, SORT_LABELS[key], sort.key === key, () => setSort({ ...sort, key }))
+            )}
+            {renderChip('direction', sort.ascending ? 'تصاعدي ↑' : 'تنازلي ↓', false, () =>
+              setSort({ ...sort, ascending: !sort.ascending })
+            )}
+          </View>
+
+          <View style={styles.sheetActions}>
+            <TouchableOpacity
+              onPress={() => {
+                setFilter((current) => ({ ...DEFAULT_FILTER, query: current.query }));
+                setSort(DEFAULT_SORT);
+              }}
+            >
+              <Text style={styles.sheetCancelText}>إعادة الضبط</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setFilterSheetVisible(false)}>
+              <Text style={styles.filterResetText}>تم</Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+
+  const renderExportSheet = () => (
+    <Modal visible={exportTarget !== null} transparent animationType="slide" onRequestClose={() => setExportTarget(null)}>
+      <Pressable style={styles.sheetBackdrop} onPress={() => setExportTarget(null)}>
+        <Pressable style={styles.sheet}>
+          <Text style={styles.sheetTitle}>{exportTarget === 'range' ? 'تصدير الرحلات' : 'مشاركة الرحلة'}</Text>
+
+          {exportTarget === 'range' ? (
+            <View style={styles.rangeRow}>
+              {EXPORT_RANGES.map((range, i) => (
+                <TouchableOpacity
+                  key={range.label}
+                  style={[styles.rangeChip, i === exportRangeIndex && styles.rangeChipActive]}
+                  onPress={() => setExportRangeIndex(i)}
+                >
+                  <Text style={[styles.rangeChipText, i === exportRangeIndex && styles.rangeChipTextActive]}>{range.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ) : (
+            exportTarget && (
+              <TouchableOpacity
+                style={styles.sheetOption}
+                onPress={() => {
+                  const trip = exportTarget;
+                  setExportTarget(null);
+                  shareSummary(trip);
+                }}
+              >
+                <Ionicons name="chatbubble-outline" size={20} color="#10B981" />
+                <View style={styles.sheetOptionInfo}>
+                  <Text style={styles.sheetOptionLabel}>ملخص نصي</Text>
+                  <Text style={styles.sheetOptionHint}>النقاط والمسافة والمدة</Text>
+                </View>
+              </TouchableOpacity>
+            )
+          )}
+
+          {EXPORT_FORMATS.map((option) => (
+            <TouchableOpacity key={option.format} style={styles.sheetOption} onPress={() => exportTrips(option.format)}>
+              <Ionicons name={option.icon as any} size={20} color="#00AAFF" />
+              <View style={styles.sheetOptionInfo}>
+                <Text style={styles.sheetOptionLabel}>{option.label}</Text>
+                <Text style={styles.sheetOptionHint}>{option.hint}</Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity style={styles.sheetCancel} onPress={() => setExportTarget(null)}>
+            <Text style={styles.sheetCancelText}>إلغاء</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+
   if (loading) {
     return (
       <LinearGradient colors={['#0A1628', '#0F2847', '#0A1628']} style={styles.container}>
@@ -329,19 +817,56 @@ export default function HistoryScreen() {
       <SafeAreaView style={styles.container} edges={['top']}>
         <View style={styles.header}>
           <Text style={styles.headerTitle}>السجل</Text>
-          <Text style={styles.headerSubtitle}>{trips.length > 0 ? `${trips.length} رحلة مسجلة` : 'رحلاتك ستظهر هنا'}</Text>
+          <Text style={styles.headerSubtitle}>{totalStats.totalTrips > 0 ? `${totalStats.totalTrips} رحلة مسجلة` : 'رحلاتك ستظهر هنا'}</Text>
         </View>
 
-        <FlatList
-          data={trips}
+        {totalStats.totalTrips > 0 && (
+          <View style={styles.searchRow}>
+            <View style={styles.searchBox}>
+              <Ionicons name="search" size={18} color="#6B7280" />
+              <TextInput
+                style={styles.searchInput}
+                value={searchText}
+                onChangeText={setSearchText}
+                placeholder="ابحث في الأسماء والوسوم"
+                placeholderTextColor="#6B7280"
+                returnKeyType="search"
+                autoCapitalize="none"
+              />
+              {searchText.length > 0 && (
+                <TouchableOpacity onPress={() => setSearchText('')}>
+                  <Ionicons name="close-circle" size={18} color="#6B7280" />
+                </TouchableOpacity>
+              )}
+            </View>
+            <TouchableOpacity style={styles.filterButton} onPress={() => setFilterSheetVisible(true)}>
+              <Ionicons name="options-outline" size={20} color="#00AAFF" />
+              {countActiveFilters(filter) > 0 && (
+                <View style={styles.filterBadge}>
+                  <Text style={styles.filterBadgeText}>{countActiveFilters(filter)}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <SectionList
+          sections={trips.length > 0 ? sections : []}
           renderItem={renderTripItem}
+          renderSectionHeader={renderSectionHeader}
+          stickySectionHeadersEnabled
           keyExtractor={(item) => item.id}
           contentContainerStyle={trips.length === 0 ? styles.emptyListContent : styles.listContent}
           ListHeaderComponent={renderHeader}
           ListEmptyComponent={renderEmptyList}
+          ListFooterComponent={renderFooter}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
           refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#00AAFF" colors={['#00AAFF']} />}
           showsVerticalScrollIndicator={false}
         />
+        {renderFilterSheet()}
+        {renderExportSheet()}
       </SafeAreaView>
     </LinearGradient>
   );
@@ -359,9 +884,13 @@ const styles = StyleSheet.create({
   statBoxValue: { fontSize: 24, fontWeight: 'bold', color: '#FFFFFF' },
   statBoxLabel: { fontSize: 12, color: '#6B7280', marginTop: 4 },
   statDivider: { width: 1, height: 40, backgroundColor: '#1E3A5F' },
-  clearButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', marginTop: 16, padding: 12, borderRadius: 12, backgroundColor: 'rgba(239, 68, 68, 0.1)', gap: 8 },
+  headerActions: { flexDirection: 'row', marginTop: 16, gap: 12 },
+  exportButton: { flex: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'center', padding: 12, borderRadius: 12, backgroundColor: 'rgba(0, 170, 255, 0.1)', gap: 8 },
+  exportButtonText: { color: '#00AAFF', fontSize: 14, fontWeight: '600' },
+  clearButton: { flex: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'center', padding: 12, borderRadius: 12, backgroundColor: 'rgba(239, 68, 68, 0.1)', gap: 8 },
   clearButtonText: { color: '#EF4444', fontSize: 14, fontWeight: '600' },
   listContent: { paddingHorizontal: 24, paddingBottom: 100 },
+  footerLoader: { marginVertical: 16 },
   emptyListContent: { flex: 1, paddingHorizontal: 24 },
   cardWrapper: { marginBottom: 12, position: 'relative' },
   shareAction: { position: 'absolute', left: 0, top: 0, bottom: 0, width: 80, backgroundColor: '#10B981', borderRadius: 16, alignItems: 'center', justifyContent: 'center' },
@@ -372,6 +901,13 @@ const styles = StyleSheet.create({
   tripDateTime: { flex: 1 },
   tripDate: { fontSize: 18, fontWeight: '600', color: '#FFFFFF' },
   tripTime: { fontSize: 14, color: '#6B7280', marginTop: 2 },
+  tagsText: { fontSize: 12, color: '#00AAFF', marginTop: 2 },
+  sectionHeader: { flexDirection: 'row', alignItems: 'center', gap: 12, paddingVertical: 10, marginBottom: 8, backgroundColor: '#0A1628' },
+  sectionInfo: { flex: 1 },
+  sectionTitle: { fontSize: 16, fontWeight: '600', color: '#FFFFFF' },
+  sectionStats: { fontSize: 12, color: '#9CA3AF', marginTop: 2 },
+  sectionScore: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 10 },
+  sectionScoreText: { fontSize: 14, fontWeight: 'bold' },
   scoreContainer: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 12, paddingVertical: 6, borderRadius: 12, gap: 4 },
   tripScore: { fontSize: 20, fontWeight: 'bold' },
   progressBarContainer: { marginBottom: 12 },
@@ -385,10 +921,39 @@ const styles = StyleSheet.create({
   eventsContainer: { flexDirection: 'row', gap: 8 },
   eventBadge: { flexDirection: 'row', alignItems: 'center', gap: 4, backgroundColor: 'rgba(255,255,255,0.05)', paddingHorizontal: 8, paddingVertical: 4, borderRadius: 8 },
   eventText: { fontSize: 12, color: '#9CA3AF' },
-  swipeHint: { flexDirection: 'row', alignItems: 'center', justifyContent: 'flex-end', marginTop: 8, gap: 2 },
+  cardBottomRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginTop: 8 },
+  sourceBadge: { flexDirection: 'row', alignItems: 'center', gap: 4 },
+  sourceText: { fontSize: 10 },
+  autoIcon: { marginLeft: 6 },
+  swipeHint: { flexDirection: 'row', alignItems: 'center', justifyContent: 'flex-end', gap: 2 },
   swipeHintText: { fontSize: 10, color: '#4B5563' },
   emptyContainer: { flex: 1, alignItems: 'center', justifyContent: 'center', paddingHorizontal: 32 },
   emptyIconContainer: { width: 120, height: 120, borderRadius: 60, alignItems: 'center', justifyContent: 'center', marginBottom: 24 },
   emptyTitle: { fontSize: 24, fontWeight: 'bold', color: '#FFFFFF', marginBottom: 8 },
   emptyText: { fontSize: 16, color: '#6B7280', textAlign: 'center', lineHeight: 24 },
+  sheetBackdrop: { flex: 1, justifyContent: 'flex-end', backgroundColor: 'rgba(0,0,0,0.5)' },
+  sheet: { backgroundColor: '#0F2847', borderTopLeftRadius: 24, borderTopRightRadius: 24, padding: 24, paddingBottom: 40, borderWidth: 1, borderColor: 'rgba(255,255,255,0.1)' },
+  sheetTitle: { fontSize: 20, fontWeight: 'bold', color: '#FFFFFF', marginBottom: 16 },
+  rangeRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 12 },
+  sheetSectionTitle: { fontSize: 13, color: '#9CA3AF', marginBottom: 8 },
+  sheetActions: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginTop: 8, paddingTop: 8 },
+  searchRow: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 24, marginBottom: 16, gap: 12 },
+  searchBox: { flex: 1, flexDirection: 'row', alignItems: 'center', gap: 8, paddingHorizontal: 12, borderRadius: 12, backgroundColor: 'rgba(255,255,255,0.06)', borderWidth: 1, borderColor: 'rgba(255,255,255,0.1)' },
+  searchInput: { flex: 1, paddingVertical: 10, fontSize: 14, color: '#FFFFFF' },
+  filterButton: { width: 44, height: 44, borderRadius: 12, alignItems: 'center', justifyContent: 'center', backgroundColor: 'rgba(0, 170, 255, 0.1)' },
+  filterBadge: { position: 'absolute', top: 4, right: 4, minWidth: 16, height: 16, borderRadius: 8, paddingHorizontal: 4, alignItems: 'center', justifyContent: 'center', backgroundColor: '#00AAFF' },
+  filterBadgeText: { fontSize: 10, fontWeight: 'bold', color: '#FFFFFF' },
+  filterNotice: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginTop: 12, paddingHorizontal: 4 },
+  filterNoticeText: { fontSize: 13, color: '#9CA3AF' },
+  filterResetText: { fontSize: 14, fontWeight: '600', color: '#00AAFF' },
+  rangeChip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, backgroundColor: 'rgba(255,255,255,0.05)' },
+  rangeChipActive: { backgroundColor: 'rgba(0, 170, 255, 0.2)' },
+  rangeChipText: { fontSize: 13, color: '#9CA3AF' },
+  rangeChipTextActive: { color: '#00AAFF', fontWeight: '600' },
+  sheetOption: { flexDirection: 'row', alignItems: 'center', paddingVertical: 12, gap: 12, borderBottomWidth: 1, borderColor: '#1E3A5F' },
+  sheetOptionInfo: { flex: 1 },
+  sheetOptionLabel: { fontSize: 16, fontWeight: '600', color: '#FFFFFF' },
+  sheetOptionHint: { fontSize: 12, color: '#6B7280', marginTop: 2 },
+  sheetCancel: { alignItems: 'center', marginTop: 16, padding: 12 },
+  sheetCancelText: { fontSize: 16, color: '#9CA3AF' },
 });
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -15,8 +15,6 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
-import * as Location from 'expo-location';
-import * as TaskManager from 'expo-task-manager';
 import * as Haptics from 'expo-haptics';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import Animated, {
@@ -30,30 +28,38 @@ import Animated, {
 } from 'react-native-reanimated';
 import Svg, { Circle, Defs, LinearGradient as SvgGradient, Stop } from 'react-native-svg';
 
-import { LOCATION_TASK_NAME, checkTaskStatus } from '../locationTask';
+import { checkTaskStatus } from '../locationTask';
+import { TripEvent, getSpeedColor } from '../tripAnalysis';
+import { getDeviceId, queryTrips } from '../tripRepository';
+import { waitForRecovery } from '../tripRecovery';
+import { subscribeRescoreProgress } from '../rescoring';
+import {
+  getTrackingState,
+  pauseTrip,
+  refreshPermissions,
+  resumeTrip,
+  startTrip,
+  stopTrip,
+  subscribeTripEvents,
+  useTrackingState,
+} from '../trackingController';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const WELCOME_SHOWN_KEY = 'driveiq_welcome_shown';
-const TRIPS_STORAGE_KEY = 'driveiq_offline_trips';
-
-interface TripData {
-  id: string;
-  startTime: Date;
-  distance: number;
-  maxSpeed: number;
-  avgSpeed: number;
-  hardBrakes: number;
-  hardAccelerations: number;
-  speedingCount: number;
-  speedReadings: number[];
-  isOffline: boolean;
-}
 
 // Animated components
 const AnimatedTouchable = Animated.createAnimatedComponent(TouchableOpacity);
 
 // Speed Gauge Component
-const SpeedGauge = ({ speed, maxSpeed = 200 }: { speed: number; maxSpeed?: number }) => {
+const SpeedGauge = ({
+  speed,
+  limit,
+  maxSpeed = 200,
+}: {
+  speed: number;
+  limit?: number;
+  maxSpeed?: number;
+}) => {
   const size = 180;
   const strokeWidth = 12;
   const radius = (size - strokeWidth) / 2;
@@ -61,12 +67,6 @@ const SpeedGauge = ({ speed, maxSpeed = 200 }: { speed: number; maxSpeed?: numbe
   const percentage = Math.min(speed / maxSpeed, 1);
   const strokeDashoffset = circumference - (percentage * circumference * 0.75);
   
-  const getSpeedColor = () => {
-    if (speed > 130) return '#EF4444';
-    if (speed > 100) return '#F59E0B';
-    return '#10B981';
-  };
-
   return (
     <View style={styles.gaugeContainer}>
       <Svg width={size} height={size} viewBox={`0 0 ${size} ${size}`}>
@@ -93,7 +93,7 @@ const SpeedGauge = ({ speed, maxSpeed = 200 }: { speed: number; maxSpeed?: numbe
           cx={size / 2}
           cy={size / 2}
           r={radius}
-          stroke={getSpeedColor()}
+          stroke={getSpeedColor(speed, limit)}
           strokeWidth={strokeWidth}
           fill="transparent"
           strokeDasharray={circumference}
@@ -107,6 +107,11 @@ const SpeedGauge = ({ speed, maxSpeed = 200 }: { speed: number; maxSpeed?: numbe
         <Text style={styles.gaugeSpeed}>{speed}</Text>
         <Text style={styles.gaugeUnit}>km/h</Text>
       </View>
+      {limit !== undefined && (
+        <View style={styles.limitSign}>
+          <Text style={styles.limitText}>{limit}</Text>
+        </View>
+      )}
     </View>
   );
 };
@@ -175,21 +180,16 @@ const showToast = (message: string) => {
 };
 
 export default function TodayScreen() {
-  const [isTracking, setIsTracking] = useState(false);
-  const [currentSpeed, setCurrentSpeed] = useState(0);
-  const [currentTrip, setCurrentTrip] = useState<TripData | null>(null);
+  const tracking = useTrackingState();
   const [todayScore, setTodayScore] = useState<number | null>(null);
   const [deviceId, setDeviceId] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [locationPermission, setLocationPermission] = useState(false);
-  const [backgroundPermission, setBackgroundPermission] = useState(false);
-  const [taskReady, setTaskReady] = useState(false);
   const [showConfetti, setShowConfetti] = useState(false);
 
-  const locationSubscription = useRef<Location.LocationSubscription | null>(null);
-  const previousSpeed = useRef(0);
-  const previousLocation = useRef<Location.LocationObject | null>(null);
-  const tripDataRef = useRef<TripData | null>(null);
+  const isTracking = tracking.phase !== 'idle' && tracking.phase !== 'starting';
+  const isLoading = tracking.phase === 'starting' || tracking.phase === 'stopping';
+  const isPaused = tracking.phase === 'paused';
+  const currentTrip = tracking.summary;
+  const currentSpeed = tracking.currentSpeedKmh;
 
   // Animations
   const pulseScale = useSharedValue(1);
@@ -205,6 +205,27 @@ export default function TodayScreen() {
     initializeApp();
   }, []);
 
+  useEffect(() => {
+    return subscribeTripEvents(handleTripEvents);
+  }, []);
+
+  // A trip that ends anywhere (this screen, auto-stop, recovery) lands
+  // in today's score
+  useEffect(() => {
+    if (tracking.phase === 'idle') {
+      loadTodayScore();
+    }
+  }, [tracking.phase]);
+
+  // Re-scoring changes the trips today's score is made of
+  useEffect(() => {
+    return subscribeRescoreProgress((progress) => {
+      if (!progress.running) {
+        loadTodayScore();
+      }
+    });
+  }, []);
+
   // Pulse animation for tracking
   useEffect(() => {
     if (isTracking) {
@@ -238,12 +259,12 @@ export default function TodayScreen() {
     log('Init', 'Starting app initialization...');
     
     const status = await checkTaskStatus();
-    setTaskReady(status.isDefined);
-    
     if (!status.isDefined) {
       log('Init', 'WARNING: Background task not defined!');
     }
     
+    // RootLayout may be asking whether to keep a trip left by a crash
+    await waitForRecovery();
     await initializeDevice();
     await showWelcomeMessage();
     await loadTodayScore();
@@ -256,7 +277,7 @@ export default function TodayScreen() {
         await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         Alert.alert(
           'مرحباً بك في DriveIQ! 🚗',
-          'هذا التطبيق يساعدك على تحسين قيادتك وتتبع رحلاتك.\n\nاضغط على "بدء التتبع" قبل الانطلاق.',
+          'هذا التطبيق يساعدك على تحسين قيادتك وتتبع رحلاتك.\n\nاضغط على "بدء التتبع" قبل الانطلاق، أو فعّل التسجيل التلقائي من الملف الشخصي ليبدأ التسجيل بمجرد أن تقود.',
           [{ text: 'فهمت', onPress: () => {} }]
         );
         await AsyncStorage.setItem(WELCOME_SHOWN_KEY, 'true');
@@ -266,44 +287,29 @@ export default function TodayScreen() {
     }
   };
 
+  const showPermissionAlert = () => {
+    Alert.alert(
+      'صلاحية الموقع مطلوبة',
+      'لم يتم تفعيل صلاحية الموقع. الرجاء الذهاب إلى الإعدادات ومنح التطبيق إذن الوصول إلى الموقع.',
+      [
+        { text: 'إلغاء', style: 'cancel' },
+        { text: 'فتح الإعدادات', onPress: () => Linking.openSettings() }
+      ]
+    );
+  };
+
   const initializeDevice = async () => {
     try {
-      let id = await AsyncStorage.getItem('deviceId');
-      if (!id) {
-        id = 'device_' + Math.random().toString(36).substring(2, 15);
-        await AsyncStorage.setItem('deviceId', id);
-        log('Init', 'Created new device ID: ' + id);
-      }
-      setDeviceId(id);
+      setDeviceId(await getDeviceId());
 
-      log('Permissions', 'Requesting foreground permission...');
-      const { status: foregroundStatus } = await Location.requestForegroundPermissionsAsync();
-      log('Permissions', 'Foreground permission: ' + foregroundStatus);
-      setLocationPermission(foregroundStatus === 'granted');
+      log('Permissions', 'Requesting location permissions...');
+      const permissions = await refreshPermissions(true);
+      log('Permissions', 'Permissions', permissions);
 
-      if (foregroundStatus !== 'granted') {
-        Alert.alert(
-          'صلاحية الموقع مطلوبة',
-          'لم يتم تفعيل صلاحية الموقع. الرجاء الذهاب إلى الإعدادات ومنح التطبيق إذن الوصول إلى الموقع.',
-          [
-            { text: 'إلغاء', style: 'cancel' },
-            { text: 'فتح الإعدادات', onPress: () => Linking.openSettings() }
-          ]
-        );
-        return;
-      }
-
-      if (Platform.OS === 'android') {
-        log('Permissions', 'Requesting background permission...');
-        const { status: backgroundStatus } = await Location.requestBackgroundPermissionsAsync();
-        log('Permissions', 'Background permission: ' + backgroundStatus);
-        setBackgroundPermission(backgroundStatus === 'granted');
-
-        if (backgroundStatus !== 'granted') {
-          showToast('للحصول على تتبع مستمر، اختر "طوال الوقت" في إعدادات الموقع');
-        }
-      } else {
-        setBackgroundPermission(true);
+      if (!permissions.foreground) {
+        showPermissionAlert();
+      } else if (!permissions.background) {
+        showToast('للحصول على تتبع مستمر، اختر "طوال الوقت" في إعدادات الموقع');
       }
     } catch (error) {
       log('Init', 'Error initializing device');
@@ -312,27 +318,48 @@ export default function TodayScreen() {
 
   const loadTodayScore = async () => {
     try {
-      const tripsData = await AsyncStorage.getItem(TRIPS_STORAGE_KEY);
-      if (tripsData) {
-        const trips = JSON.parse(tripsData);
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-
-        const todayTrips = trips.filter((trip: any) => {
-          const tripDate = new Date(trip.start_time);
-          return tripDate >= today;
-        });
-
-        if (todayTrips.length > 0) {
-          const avgScore = todayTrips.reduce((sum: number, t: any) => sum + t.score, 0) / todayTrips.length;
-          setTodayScore(Math.round(avgScore));
-        }
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+
+      const todayTrips = await queryTrips({ from: today });
+
+      if (todayTrips.length > 0) {
+        const avgScore = todayTrips.reduce((sum, t) => sum + t.score, 0) / todayTrips.length;
+        setTodayScore(Math.round(avgScore));
       }
     } catch (error) {
       log('Score', 'Error loading today score');
     }
   };
 
+  const handleTripEvents = (events: TripEvent[]) => {
+    if (events.some((e) => e.type === 'hard_brake')) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      showToast('⚠️ فرملة مفاجئة!');
+    }
+
+    if (events.some((e) => e.type === 'hard_acceleration')) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      showToast('⚠️ تسارع مفاجئ!');
+    }
+
+    const speeding = events.find((e) => e.type === 'speeding');
+    if (speeding) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      showToast(`⚠️ تجاوزت السرعة المسموحة (${speeding.limitKmh} كم/س)!`);
+    }
+
+    if (events.some((e) => e.type === 'harsh_cornering')) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      showToast('⚠️ انعطاف حاد!');
+    }
+
+    if (events.some((e) => e.type === 'phone_handling')) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      showToast('📱 تجنب استخدام الهاتف أثناء القيادة');
+    }
+  };
+
   const startTracking = async () => {
     log('Tracking', '========== START TRACKING ==========');
     
@@ -343,102 +370,28 @@ export default function TodayScreen() {
       withTiming(1, { duration: 100 })
     );
 
-    if (!locationPermission) {
-      Alert.alert(
-        'صلاحية الموقع مطلوبة',
-        'لم يتم تفعيل صلاحية الموقع.',
-        [
-          { text: 'إلغاء', style: 'cancel' },
-          { text: 'فتح الإعدادات', onPress: () => Linking.openSettings() }
-        ]
-      );
-      return;
-    }
-
-    const status = await checkTaskStatus();
-    if (!status.isDefined) {
-      log('Tracking', 'CRITICAL: Background task not defined!');
-      Alert.alert(
-        'خطأ في النظام',
-        'نظام التتبع غير جاهز. أعد تشغيل التطبيق.',
-        [{ text: 'حسناً' }]
-      );
-      return;
-    }
-
-    if (Platform.OS === 'android' && !backgroundPermission) {
-      showToast('تحذير: التتبع قد يتوقف عند إغلاق التطبيق');
-    }
-
-    setIsLoading(true);
-
     try {
-      const tripId = 'trip_' + Date.now() + '_' + Math.random().toString(36).substring(2, 9);
-
-      const tripData: TripData = {
-        id: tripId,
-        startTime: new Date(),
-        distance: 0,
-        maxSpeed: 0,
-        avgSpeed: 0,
-        hardBrakes: 0,
-        hardAccelerations: 0,
-        speedingCount: 0,
-        speedReadings: [],
-        isOffline: true,
-      };
-
-      setCurrentTrip(tripData);
-      tripDataRef.current = tripData;
-
-      try {
-        const isRunning = await TaskManager.isTaskRegisteredAsync(LOCATION_TASK_NAME);
-        if (isRunning) {
-          log('Tracking', 'Stopping existing background task...');
-          await Location.stopLocationUpdatesAsync(LOCATION_TASK_NAME);
-        }
-      } catch (e) {
-        // Ignore
-      }
+      const result = await startTrip();
 
-      if (Platform.OS === 'android') {
-        try {
-          log('Tracking', 'Starting background location with foreground service...');
-
-          await Location.startLocationUpdatesAsync(LOCATION_TASK_NAME, {
-            accuracy: Location.Accuracy.BestForNavigation,
-            timeInterval: 2000,
-            distanceInterval: 5,
-            showsBackgroundLocationIndicator: true,
-            foregroundService: {
-              notificationTitle: 'DriveIQ - تتبع القيادة',
-              notificationBody: 'جاري تسجيل رحلتك...',
-              notificationColor: '#0066CC',
-            },
-            pausesUpdatesAutomatically: false,
-            activityType: Location.ActivityType.AutomotiveNavigation,
-          });
-
-          log('Tracking', '✅ Background location started successfully');
-        } catch (bgError: any) {
-          log('Tracking', '⚠️ Background location failed: ' + bgError.message);
-        }
+      if (result === 'no_permission') {
+        showPermissionAlert();
+        return;
+      }
+      if (result === 'task_unavailable') {
+        Alert.alert(
+          'خطأ في النظام',
+          'نظام التتبع غير جاهز. أعد تشغيل التطبيق.',
+          [{ text: 'حسناً' }]
+        );
+        return;
+      }
+      if (result !== 'started') {
+        return;
       }
 
-      log('Tracking', 'Starting foreground location watcher...');
-      locationSubscription.current = await Location.watchPositionAsync(
-        {
-          accuracy: Location.Accuracy.BestForNavigation,
-          timeInterval: 1000,
-          distanceInterval: 1,
-        },
-        (location) => {
-          handleLocationUpdate(location);
-        }
-      );
-
-      log('Tracking', '✅ Foreground watcher started');
-      setIsTracking(true);
+      if (!getTrackingState().backgroundActive) {
+        showToast('تحذير: التتبع قد يتوقف عند إغلاق التطبيق');
+      }
 
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
@@ -452,69 +405,29 @@ export default function TodayScreen() {
       log('Tracking', '❌ Error: ' + error.message);
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
 
-      if (locationSubscription.current) {
-        locationSubscription.current.remove();
-        locationSubscription.current = null;
-      }
-
       Alert.alert(
         'خطأ في بدء التتبع',
         `${error.message}\n\nتأكد من:\n1. تفعيل GPS\n2. منح صلاحية الموقع`,
         [{ text: 'حسناً' }]
       );
-    } finally {
-      setIsLoading(false);
     }
   };
 
-  const handleLocationUpdate = useCallback((location: Location.LocationObject) => {
-    const tripData = tripDataRef.current;
-    if (!tripData) return;
-
-    const speedKmh = (location.coords.speed || 0) * 3.6;
-    const speed = Math.max(0, Math.round(speedKmh));
-
-    setCurrentSpeed(speed);
-
-    if (previousLocation.current) {
-      const dist = calculateDistance(
-        previousLocation.current.coords.latitude,
-        previousLocation.current.coords.longitude,
-        location.coords.latitude,
-        location.coords.longitude
-      );
-      tripData.distance += dist;
-    }
-    previousLocation.current = location;
-
-    if (speed > tripData.maxSpeed) {
-      tripData.maxSpeed = speed;
-    }
-
-    tripData.speedReadings.push(speed);
-
-    const speedDiff = previousSpeed.current - speed;
-    if (speedDiff > 15 && previousSpeed.current > 20) {
-      tripData.hardBrakes++;
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
-      showToast('⚠️ فرملة مفاجئة!');
-    }
-
-    const speedIncrease = speed - previousSpeed.current;
-    if (speedIncrease > 15) {
-      tripData.hardAccelerations++;
-    }
-
-    if (speed > 130 && previousSpeed.current <= 130) {
-      tripData.speedingCount++;
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
-      showToast('⚠️ تجاوزت السرعة المسموحة!');
+  // A manual pause needs a manual resume; an automatic one ends by
+  // itself once the car moves, but can still be turned into a manual one
+  const togglePause = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      if (tracking.pause === 'manual') {
+        await resumeTrip();
+      } else {
+        await pauseTrip();
+      }
+    } catch (error: any) {
+      log('Tracking', '❌ Pause error: ' + error.message);
+      Alert.alert('خطأ', 'تعذر تغيير حالة الرحلة. حاول مرة أخرى.', [{ text: 'حسناً' }]);
     }
-
-    previousSpeed.current = speed;
-    tripDataRef.current = tripData;
-    setCurrentTrip({ ...tripData });
-  }, []);
+  };
 
   const stopTracking = async () => {
     log('Tracking', '========== STOP TRACKING ==========');
@@ -525,52 +438,26 @@ export default function TodayScreen() {
     );
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
 
-    const tripData = tripDataRef.current;
-    if (!tripData) {
-      log('Tracking', 'No trip data to save');
-      return;
-    }
-
-    setIsLoading(true);
-
     try {
-      if (locationSubscription.current) {
-        locationSubscription.current.remove();
-        locationSubscription.current = null;
-      }
-
-      try {
-        const isRunning = await TaskManager.isTaskRegisteredAsync(LOCATION_TASK_NAME);
-        if (isRunning) {
-          await Location.stopLocationUpdatesAsync(LOCATION_TASK_NAME);
-        }
-      } catch (e) {
-        // Ignore
+      const finished = await stopTrip();
+      if (!finished) {
+        // Auto-stopped in the background while this screen still showed it
+        log('Tracking', 'Trip was already saved');
+        return;
       }
 
-      const endTime = new Date();
-      const durationMs = endTime.getTime() - tripData.startTime.getTime();
-      const durationMinutes = durationMs / 60000;
-
-      const avgSpeed = tripData.speedReadings.length > 0
-        ? tripData.speedReadings.reduce((a, b) => a + b, 0) / tripData.speedReadings.length
-        : 0;
-
-      let score = 100;
-      score -= tripData.hardBrakes * 4;
-      score -= tripData.hardAccelerations * 4;
-      score -= tripData.speedingCount * 8;
-      score = Math.max(0, Math.round(score));
+      const { summary } = finished;
+      const { score, distanceKm, durationMinutes } = summary;
 
       log('Tracking', 'Trip summary', {
-        distance: tripData.distance.toFixed(2),
+        distance: distanceKm.toFixed(2),
         duration: durationMinutes.toFixed(1),
-        maxSpeed: tripData.maxSpeed,
+        maxSpeed: summary.maxSpeed,
         score,
+        acceptedFixes: summary.acceptedFixes,
+        discardedFixes: summary.discardedFixes,
       });
 
-      await saveOfflineTrip(tripData, score, durationMinutes, avgSpeed);
-
       if (score === 100) {
         setShowConfetti(true);
         await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -582,76 +469,26 @@ export default function TodayScreen() {
 
       if (score >= 90) {
         feedbackTitle = '🌟 قيادة مثالية!';
-        feedbackMessage = `أنت سائق محترف!\n\n🏆 النقاط: ${score}/100\n📏 المسافة: ${tripData.distance.toFixed(2)} كم\n⏱️ المدة: ${durationMinutes.toFixed(1)} دقيقة`;
+        feedbackMessage = `أنت سائق محترف!\n\n🏆 النقاط: ${score}/100\n📏 المسافة: ${distanceKm.toFixed(2)} كم\n⏱️ المدة: ${durationMinutes.toFixed(1)} دقيقة`;
       } else if (score >= 70) {
         feedbackTitle = '👍 قيادة جيدة جداً';
-        feedbackMessage = `أداء ممتاز!\n\n✅ النقاط: ${score}/100\n📏 المسافة: ${tripData.distance.toFixed(2)} كم\n⏱️ المدة: ${durationMinutes.toFixed(1)} دقيقة`;
+        feedbackMessage = `أداء ممتاز!\n\n✅ النقاط: ${score}/100\n📏 المسافة: ${distanceKm.toFixed(2)} كم\n⏱️ المدة: ${durationMinutes.toFixed(1)} دقيقة`;
       } else if (score >= 50) {
         feedbackTitle = '💪 يمكنك التحسن';
-        feedbackMessage = `هناك مجال للتحسن.\n\n📊 النقاط: ${score}/100\n📏 المسافة: ${tripData.distance.toFixed(2)} كم\n⏱️ المدة: ${durationMinutes.toFixed(1)} دقيقة`;
+        feedbackMessage = `هناك مجال للتحسن.\n\n📊 النقاط: ${score}/100\n📏 المسافة: ${distanceKm.toFixed(2)} كم\n⏱️ المدة: ${durationMinutes.toFixed(1)} دقيقة`;
       } else {
         feedbackTitle = '⚠️ قيادة تحتاج انتباه';
-        feedbackMessage = `حاول القيادة بهدوء أكبر.\n\n⚠️ النقاط: ${score}/100\n📏 المسافة: ${tripData.distance.toFixed(2)} كم\n⏱️ المدة: ${durationMinutes.toFixed(1)} دقيقة`;
+        feedbackMessage = `حاول القيادة بهدوء أكبر.\n\n⚠️ النقاط: ${score}/100\n📏 المسافة: ${distanceKm.toFixed(2)} كم\n⏱️ المدة: ${durationMinutes.toFixed(1)} دقيقة`;
       }
 
       Alert.alert(feedbackTitle, feedbackMessage, [{ text: 'حسناً' }]);
 
-      setCurrentTrip(null);
-      tripDataRef.current = null;
-      setCurrentSpeed(0);
-      setIsTracking(false);
-      previousSpeed.current = 0;
-      previousLocation.current = null;
-
-      await loadTodayScore();
-
     } catch (error: any) {
       log('Tracking', 'Error stopping: ' + error.message);
       Alert.alert('خطأ', 'فشل حفظ الرحلة.');
-    } finally {
-      setIsLoading(false);
     }
   };
 
-  const saveOfflineTrip = async (tripData: TripData, score: number, duration: number, avgSpeed: number) => {
-    try {
-      const existingTrips = await AsyncStorage.getItem(TRIPS_STORAGE_KEY);
-      const trips = existingTrips ? JSON.parse(existingTrips) : [];
-
-      trips.unshift({
-        id: tripData.id,
-        start_time: tripData.startTime.toISOString(),
-        end_time: new Date().toISOString(),
-        distance_km: parseFloat(tripData.distance.toFixed(2)),
-        duration_minutes: parseFloat(duration.toFixed(2)),
-        max_speed: tripData.maxSpeed,
-        avg_speed: parseFloat(avgSpeed.toFixed(1)),
-        hard_brakes: tripData.hardBrakes,
-        hard_accelerations: tripData.hardAccelerations,
-        speeding_count: tripData.speedingCount,
-        score,
-        synced: false,
-      });
-
-      await AsyncStorage.setItem(TRIPS_STORAGE_KEY, JSON.stringify(trips));
-      log('Tracking', 'Trip saved locally');
-    } catch (error) {
-      log('Tracking', 'Error saving offline trip');
-    }
-  };
-
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371;
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  };
-
   const getScoreColor = (score: number | null) => {
     if (score === null) return '#6B7280';
     if (score >= 80) return '#10B981';
@@ -699,7 +536,7 @@ export default function TodayScreen() {
           </Animated.View>
 
           <Animated.View style={[styles.speedCard, pulseAnimatedStyle]}>
-            <SpeedGauge speed={currentSpeed} />
+            <SpeedGauge speed={currentSpeed} limit={currentTrip?.speedLimit?.limitKmh} />
             <Text style={styles.speedLabel}>
               {isTracking ? 'السرعة الحالية' : 'السرعة'}
             </Text>
@@ -709,7 +546,7 @@ export default function TodayScreen() {
             <Animated.View style={[styles.tripStats, cardAnimatedStyle]}>
               <View style={styles.statItem}>
                 <Ionicons name="navigate" size={20} color="#00AAFF" />
-                <Text style={styles.statValue}>{currentTrip.distance.toFixed(2)}</Text>
+                <Text style={styles.statValue}>{currentTrip.distanceKm.toFixed(2)}</Text>
                 <Text style={styles.statLabel}>كم</Text>
               </View>
               <View style={styles.statDivider} />
@@ -722,7 +559,7 @@ export default function TodayScreen() {
               <View style={styles.statItem}>
                 <Ionicons name="warning" size={20} color="#EF4444" />
                 <Text style={styles.statValue}>
-                  {currentTrip.hardBrakes + currentTrip.hardAccelerations}
+                  {currentTrip.hardBrakes + currentTrip.hardAccelerations + currentTrip.harshCorneringCount}
                 </Text>
                 <Text style={styles.statLabel}>أحداث</Text>
               </View>
@@ -733,14 +570,24 @@ export default function TodayScreen() {
             <Animated.View 
               style={[
                 styles.statusIndicator,
-                { backgroundColor: isTracking ? '#10B981' : '#6B7280' },
-                isTracking && pulseAnimatedStyle
+                { backgroundColor: isPaused ? '#F59E0B' : isTracking ? '#10B981' : '#6B7280' },
+                isTracking && !isPaused && pulseAnimatedStyle
               ]}
             />
             <Text style={styles.statusText}>
-              {isTracking ? 'جاري تسجيل الرحلة...' : 'غير نشط'}
+              {tracking.pause === 'manual'
+                ? 'الرحلة متوقفة مؤقتاً'
+                : tracking.pause === 'auto'
+                  ? 'توقف تلقائي - يستأنف عند الحركة'
+                  : isTracking ? 'جاري تسجيل الرحلة...' : 'غير نشط'}
             </Text>
           </View>
+
+          {tracking.replay && (
+            <Text style={styles.replayText}>
+              {`محاكاة: ${tracking.replay.label} ×${tracking.replay.rate} - ${Math.round(tracking.replay.progress * 100)}%`}
+            </Text>
+          )}
         </ScrollView>
 
         <View style={styles.buttonContainer}>
@@ -768,28 +615,42 @@ export default function TodayScreen() {
               </LinearGradient>
             </AnimatedTouchable>
           ) : (
-            <AnimatedTouchable
-              style={[styles.button, styles.stopButton, buttonAnimatedStyle]}
-              onPress={stopTracking}
-              disabled={isLoading}
-              activeOpacity={0.8}
-            >
-              <LinearGradient
-                colors={['#EF4444', '#DC2626']}
-                style={styles.buttonGradient}
-                start={{ x: 0, y: 0 }}
-                end={{ x: 1, y: 1 }}
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={styles.pauseButton}
+                onPress={togglePause}
+                disabled={isLoading}
+                activeOpacity={0.8}
               >
-                {isLoading ? (
-                  <ActivityIndicator color="#FFFFFF" size="small" />
-                ) : (
-                  <>
-                    <Ionicons name="stop-circle" size={28} color="#FFFFFF" />
-                    <Text style={styles.buttonText}>إيقاف التتبع</Text>
-                  </>
-                )}
-              </LinearGradient>
-            </AnimatedTouchable>
+                <Ionicons
+                  name={tracking.pause === 'manual' ? 'play' : 'pause'}
+                  size={26}
+                  color="#FFFFFF"
+                />
+              </TouchableOpacity>
+              <AnimatedTouchable
+                style={[styles.button, styles.stopButton, buttonAnimatedStyle]}
+                onPress={stopTracking}
+                disabled={isLoading}
+                activeOpacity={0.8}
+              >
+                <LinearGradient
+                  colors={['#EF4444', '#DC2626']}
+                  style={styles.buttonGradient}
+                  start={{ x: 0, y: 0 }}
+                  end={{ x: 1, y: 1 }}
+                >
+                  {isLoading ? (
+                    <ActivityIndicator color="#FFFFFF" size="small" />
+                  ) : (
+                    <>
+                      <Ionicons name="stop-circle" size={28} color="#FFFFFF" />
+                      <Text style={styles.buttonText}>إيقاف التتبع</Text>
+                    </>
+                  )}
+                </LinearGradient>
+              </AnimatedTouchable>
+            </View>
           )}
         </View>
       </SafeAreaView>
@@ -815,6 +676,8 @@ const styles = StyleSheet.create({
   gaugeTextContainer: { position: 'absolute', alignItems: 'center', justifyContent: 'center' },
   gaugeSpeed: { fontSize: 48, fontWeight: 'bold', color: '#FFFFFF' },
   gaugeUnit: { fontSize: 16, color: '#9CA3AF', marginTop: -4 },
+  limitSign: { position: 'absolute', bottom: 0, right: 0, width: 44, height: 44, borderRadius: 22, borderWidth: 4, borderColor: '#EF4444', backgroundColor: '#FFFFFF', alignItems: 'center', justifyContent: 'center' },
+  limitText: { fontSize: 16, fontWeight: 'bold', color: '#111827' },
   speedLabel: { fontSize: 14, color: '#6B7280', marginTop: 12 },
   tripStats: { flexDirection: 'row', backgroundColor: 'rgba(15, 31, 56, 0.8)', borderRadius: 20, padding: 20, marginBottom: 20, borderWidth: 1, borderColor: '#1E3A5F', justifyContent: 'space-around', alignItems: 'center' },
   statItem: { alignItems: 'center', flex: 1 },
@@ -824,10 +687,13 @@ const styles = StyleSheet.create({
   statusContainer: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', marginBottom: 12 },
   statusIndicator: { width: 12, height: 12, borderRadius: 6, marginRight: 8 },
   statusText: { fontSize: 14, color: '#9CA3AF' },
+  replayText: { fontSize: 12, color: '#8B5CF6', textAlign: 'center', marginBottom: 12 },
   buttonContainer: { paddingHorizontal: 24, paddingBottom: Platform.OS === 'ios' ? 100 : 90 },
   button: { borderRadius: 20, overflow: 'hidden', elevation: 8, shadowColor: '#000', shadowOffset: { width: 0, height: 4 }, shadowOpacity: 0.3, shadowRadius: 8 },
   buttonGradient: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', paddingVertical: 18, gap: 12 },
   startButton: {},
-  stopButton: {},
+  stopButton: { flex: 1 },
+  buttonRow: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+  pauseButton: { width: 64, height: 64, borderRadius: 20, backgroundColor: '#F59E0B', alignItems: 'center', justifyContent: 'center', elevation: 8 },
   buttonText: { fontSize: 18, fontWeight: '700', color: '#FFFFFF' },
 });
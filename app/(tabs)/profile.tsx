@@ -1,4 +1,4 @@
-"import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -9,12 +9,17 @@ import {
   Switch,
   TouchableOpacity,
   Dimensions,
+  Alert,
+  Linking,
+  Modal,
+  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useRouter } from 'expo-router';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -24,7 +29,153 @@ import Animated, {
   Easing,
 } from 'react-native-reanimated';
 
-const TRIPS_STORAGE_KEY = 'driveiq_offline_trips';
+import { SyncStatus, getSyncStatus, retrySyncRejections, subscribeSyncStatus, syncTrips } from '../syncEngine';
+import { getBestScore, getDeviceId, getTripStats } from '../tripRepository';
+import { AchievementId, AchievementProgress, loadAchievements } from '../achievements';
+import {
+  AutoTripSettings,
+  DEFAULT_AUTO_TRIP_SETTINGS,
+  STATIONARY_TIMEOUT_OPTIONS,
+  getAutoTripSettings,
+  setAutoTripSettings,
+} from '../autoTrip';
+import {
+  AUTO_PAUSE_OPTIONS,
+  AutoPauseSettings,
+  DEFAULT_AUTO_PAUSE_SETTINGS,
+  getAutoPauseSettings,
+  setAutoPauseSettings,
+} from '../autoPause';
+import {
+  DEFAULT_SPEED_LIMIT_SETTINGS,
+  FALLBACK_LIMIT_OPTIONS,
+  ROAD_CLASSES,
+  RoadClass,
+  SPEED_LIMITS_URL,
+  SpeedLimitDatasetInfo,
+  SpeedLimitSettings,
+  downloadSpeedLimitDataset,
+  getSpeedLimitDatasetInfo,
+  getSpeedLimitSettings,
+  setFallbackLimit,
+} from '../speedLimits';
+import {
+  RescoreProgress,
+  getRescoreProgress,
+  rescoreTrips,
+  subscribeRescoreProgress,
+} from '../rescoring';
+import { CoachingTip, CoachingTipId, getRecentCoaching } from '../coaching';
+import { SCENARIOS, ScenarioId, checkScenario, getScenario } from '../scenarios';
+import { refreshPermissions, startReplay } from '../trackingController';
+import { ImportIssueReason, ImportSummary, pickAndImportTrips, pickTrackFiles } from '../tripImport';
+import { parseTrackFile } from '../importers';
+import { RestoreMode, pickBackupFile, restoreBackup, shareBackup } from '../backup';
+import { BackupContents, OpenResult, openArchive } from '../backupArchive';
+
+const ROAD_CLASS_LABELS: Record<RoadClass, string> = {
+  motorway: 'طريق سريع',
+  trunk: 'طريق رئيسي بين المدن',
+  primary: 'طريق رئيسي',
+  secondary: 'طريق فرعي',
+  tertiary: 'طريق محلي',
+  residential: 'حي سكني',
+  unknown: 'طريق غير معروف',
+};
+
+const TIP_TEXT: Record<CoachingTipId, { icon: string; color: string; title: string; text: (tip: CoachingTip) => string }> = {
+  brake_after_speeding: {
+    icon: 'trending-down',
+    color: '#EF4444',
+    title: 'خفف السرعة قبل أن تضطر للفرملة',
+    text: () => 'أغلب فرملتك المفاجئة تأتي بعد تجاوز السرعة. الالتزام بالحد يمنحك وقتاً للتوقف بهدوء',
+  },
+  hard_brakes: {
+    icon: 'warning',
+    color: '#EF4444',
+    title: 'اترك مسافة أكبر أمامك',
+    text: (tip) => 'الفرملة المفاجئة تكلفك ' + tip.lost.toFixed(1) + ' نقطة في الرحلة. المسافة الكافية تسمح لك بالفرملة مبكراً وبهدوء',
+  },
+  hard_accelerations: {
+    icon: 'flash',
+    color: '#F59E0B',
+    title: 'انطلق بشكل تدريجي',
+    text: (tip) => 'التسارع المفاجئ يكلفك ' + tip.lost.toFixed(1) + ' نقطة في الرحلة. اضغط على الدواسة بلطف',
+  },
+  harsh_cornering: {
+    icon: 'git-branch',
+    color: '#EC4899',
+    title: 'خفف السرعة قبل المنعطف',
+    text: () => 'تأخذ المنعطفات بسرعة عالية. اضغط الفرامل على الطريق المستقيم وحافظ على سرعة ثابتة في المنعطف',
+  },
+  phone_handling: {
+    icon: 'phone-portrait',
+    color: '#0EA5E9',
+    title: 'اترك الهاتف أثناء القيادة',
+    text: (tip) => 'استخدام الهاتف يكلفك ' + tip.lost.toFixed(1) + ' نقطة في الرحلة. جهّز المسار قبل الانطلاق',
+  },
+  speeding_sustained: {
+    icon: 'speedometer',
+    color: '#8B5CF6',
+    title: 'ثبّت سرعتك عند الحد',
+    text: () => 'تبقى فوق الحد لدقيقة أو أكثر. مثبت السرعة يساعدك على الطرق الطويلة',
+  },
+  speeding_zone: {
+    icon: 'speedometer',
+    color: '#8B5CF6',
+    title: 'انتبه للوحات السرعة',
+    text: (tip) =>
+      tip.limitKmh !== undefined
+        ? 'أغلب تجاوزاتك في مناطق ' + tip.limitKmh + ' كم/س. راقب سرعتك عندما ينخفض الحد'
+        : 'تجاوز السرعة يكلفك ' + tip.lost.toFixed(1) + ' نقطة في الرحلة. راقب سرعتك عندما ينخفض الحد',
+  },
+  night: {
+    icon: 'moon',
+    color: '#6B7280',
+    title: 'قد في النهار متى أمكن',
+    text: (tip) => 'القيادة الليلية تكلفك ' + tip.lost.toFixed(1) + ' نقطة في الرحلة. الرؤية والتعب يزيدان المخاطر',
+  },
+  smooth_driving: {
+    icon: 'checkmark-circle',
+    color: '#10B981',
+    title: 'قيادة سلسة',
+    text: () => 'لا شيء يكلفك أكثر من نقطة في رحلاتك الأخيرة. استمر',
+  },
+};
+
+const SCENARIO_LABELS: Record<ScenarioId, string> = {
+  city_commute: 'رحلة يومية في المدينة',
+  highway_speeding: 'تجاوز السرعة على الطريق السريع',
+  emergency_braking: 'فرملة طارئة',
+};
+
+const IMPORT_REASON_LABELS: Record<ImportIssueReason, string> = {
+  duplicate: 'مكررة',
+  too_short: 'قصيرة جداً',
+  unsupported: 'صيغة غير مدعومة',
+  unreadable: 'تعذرت قراءة الملف',
+};
+
+const BACKUP_ERRORS: Record<Extract<OpenResult, { ok: false }>['reason'], string> = {
+  not_backup: 'هذا الملف ليس نسخة احتياطية من DriveIQ.',
+  newer_version: 'هذه النسخة من إصدار أحدث من التطبيق. حدّث التطبيق ثم حاول مجدداً.',
+  needs_passphrase: 'هذه النسخة مشفرة.',
+  wrong_passphrase: 'كلمة المرور غير صحيحة.',
+  invalid: 'النسخة الاحتياطية تالفة.',
+};
+
+const ACHIEVEMENT_LABELS: Record<AchievementId, { title: string; description: string; icon: string; color: string }> = {
+  first_trip: { title: 'الرحلة الأولى', description: 'أكمل رحلتك الأولى', icon: 'car-sport', color: '#10B981' },
+  road_warrior: { title: 'محارب الطريق', description: 'أكمل 10 رحلات', icon: 'shield-checkmark', color: '#3B82F6' },
+  perfect_driver: { title: 'سائق مثالي', description: 'احصل على 100 نقطة في رحلة', icon: 'trophy', color: '#F59E0B' },
+  long_distance: { title: 'رحال المسافات', description: 'اقطع 50 كم إجمالي', icon: 'navigate', color: '#8B5CF6' },
+  consistent: { title: 'القيادة المتزنة', description: 'حافظ على متوسط 80+ نقطة', icon: 'star', color: '#EC4899' },
+  century: { title: 'نادي المئة', description: 'أكمل 100 رحلة', icon: 'medal', color: '#FFD700' },
+};
+
+// Replay speeds offered in the developer section
+const REPLAY_RATES = [1, 10, 60];
+
 const DARK_MODE_KEY = 'driveiq_dark_mode';
 const USERNAME_KEY = 'driveiq_username';
 
@@ -166,12 +317,9 @@ const AchievementBadge = ({
                   style={[
                     styles.achievementProgressFill,
                     {
-                      width:
-                        String(
-                          Math.round(
-                            (achievement.progress / achievement.target) * 100
-                          )
-                        ) + '%',
+                      width: `${Math.round(
+                        (achievement.progress / achievement.target) * 100
+                      )}%`,
                       backgroundColor: achievement.color,
                     },
                   ]}
@@ -186,7 +334,7 @@ const AchievementBadge = ({
         {achievement.unlocked && (
           <View style={styles.unlockedBadge}>
             <Ionicons
-              name=\"checkmark-circle\"
+              name="checkmark-circle"
               size={20}
               color={achievement.color}
             />
@@ -219,12 +367,29 @@ function getAvatarColor(name: string): [string, string] {
 
 export default function ProfileScreen() {
   const [stats, setStats] = useState<UserStats | null>(null);
+  const [tips, setTips] = useState<CoachingTip[]>([]);
+  const [replayRate, setReplayRate] = useState(REPLAY_RATES[1]);
+  const [importing, setImporting] = useState(false);
+  const [backingUp, setBackingUp] = useState(false);
+  // Asking for a passphrase to write a backup, or to open the given one
+  const [passphrasePrompt, setPassphrasePrompt] = useState<
+    { mode: 'backup' } | { mode: 'restore'; text: string } | null
+  >(null);
+  const [passphrase, setPassphrase] = useState('');
+  const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [deviceId, setDeviceId] = useState('');
   const [darkMode, setDarkMode] = useState(true);
+  const [autoTrip, setAutoTrip] = useState<AutoTripSettings>(DEFAULT_AUTO_TRIP_SETTINGS);
+  const [autoPause, setAutoPause] = useState<AutoPauseSettings>(DEFAULT_AUTO_PAUSE_SETTINGS);
+  const [speedLimits, setSpeedLimits] = useState<SpeedLimitSettings>(DEFAULT_SPEED_LIMIT_SETTINGS);
+  const [limitDataset, setLimitDataset] = useState<SpeedLimitDatasetInfo | null>(null);
+  const [downloadingLimits, setDownloadingLimits] = useState(false);
+  const [rescore, setRescore] = useState<RescoreProgress>(getRescoreProgress());
   const [username, setUsername] = useState('سائق');
   const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
 
   const avatarScale = useSharedValue(0);
   const statsOpacity = useSharedValue(0);
@@ -241,6 +406,22 @@ export default function ProfileScreen() {
     }, 200);
   }, []);
 
+  useEffect(() => {
+    return subscribeSyncStatus(setSyncStatus);
+  }, []);
+
+  // Averages and achievements follow the new scores once a run ends
+  useEffect(() => {
+    var wasRunning = getRescoreProgress().running;
+    return subscribeRescoreProgress((next) => {
+      setRescore(next);
+      if (wasRunning && !next.running) {
+        fetchStats();
+      }
+      wasRunning = next.running;
+    });
+  }, []);
+
   const avatarAnimatedStyle = useAnimatedStyle(() => ({
     transform: [{ scale: avatarScale.value }],
   }));
@@ -251,24 +432,25 @@ export default function ProfileScreen() {
 
   const initializeAndFetch = async () => {
     try {
-      var id = await AsyncStorage.getItem('deviceId');
-      if (!id) {
-        id = 'device_' + Math.random().toString(36).substring(2, 15);
-        await AsyncStorage.setItem('deviceId', id);
-      }
-      setDeviceId(id);
+      setDeviceId(await getDeviceId());
 
       var darkModeValue = await AsyncStorage.getItem(DARK_MODE_KEY);
       if (darkModeValue !== null) {
         setDarkMode(darkModeValue === 'true');
       }
 
+      setAutoTrip(await getAutoTripSettings());
+      setAutoPause(await getAutoPauseSettings());
+      setSpeedLimits(await getSpeedLimitSettings());
+      setLimitDataset(await getSpeedLimitDatasetInfo());
+
       var savedUsername = await AsyncStorage.getItem(USERNAME_KEY);
       if (savedUsername) {
         setUsername(savedUsername);
       }
 
       await fetchStats();
+      setSyncStatus(await getSyncStatus());
     } catch (error) {
       console.error('Error initializing:', error);
     } finally {
@@ -278,121 +460,43 @@ export default function ProfileScreen() {
 
   const fetchStats = async () => {
     try {
-      var tripsData = await AsyncStorage.getItem(TRIPS_STORAGE_KEY);
-      if (tripsData) {
-        var trips = JSON.parse(tripsData);
-
-        if (trips.length > 0) {
-          var totalDistance = trips.reduce(
-            (sum: number, t: any) => sum + (t.distance_km || 0),
-            0
-          );
-          var totalDuration = trips.reduce(
-            (sum: number, t: any) => sum + (t.duration_minutes || 0),
-            0
-          );
-          var avgScore =
-            trips.reduce((sum: number, t: any) => sum + (t.score || 0), 0) /
-            trips.length;
-          var bestScore = Math.max(
-            ...trips.map((t: any) => t.score || 0)
-          );
-
-          setStats({
-            total_trips: trips.length,
-            total_distance: totalDistance,
-            average_score: avgScore,
-            best_score: bestScore,
-            total_duration: totalDuration,
-          });
-
-          updateAchievements(trips.length, totalDistance, bestScore, avgScore);
-        } else {
-          setStats({
-            total_trips: 0,
-            total_distance: 0,
-            average_score: 0,
-            best_score: 0,
-            total_duration: 0,
-          });
-          updateAchievements(0, 0, 0, 0);
-        }
+      // Kept up to date on every save, so no trips need loading here
+      var tripStats = await getTripStats();
+      if (tripStats.count > 0) {
+        var avgScore = tripStats.scoreSum / tripStats.count;
+        var bestScore = getBestScore(tripStats);
+
+        setStats({
+          total_trips: tripStats.count,
+          total_distance: tripStats.distanceKm,
+          average_score: avgScore,
+          best_score: bestScore,
+          total_duration: tripStats.durationMinutes,
+        });
       } else {
-        updateAchievements(0, 0, 0, 0);
+        setStats({
+          total_trips: 0,
+          total_distance: 0,
+          average_score: 0,
+          best_score: 0,
+          total_duration: 0,
+        });
       }
+      updateAchievements(await loadAchievements(tripStats));
+      setTips(await getRecentCoaching());
     } catch (error) {
       console.error('Error fetching stats:', error);
     }
   };
 
-  const updateAchievements = (
-    trips: number,
-    distance: number,
-    bestScore: number,
-    avgScore: number
-  ) => {
-    var achievementsList: Achievement[] = [
-      {
-        id: 'first_trip',
-        title: 'الرحلة الأولى',
-        description: 'أكمل رحلتك الأولى',
-        icon: 'car-sport',
-        color: '#10B981',
-        unlocked: trips >= 1,
-        progress: Math.min(trips, 1),
-        target: 1,
-      },
-      {
-        id: 'road_warrior',
-        title: 'محارب الطريق',
-        description: 'أكمل 10 رحلات',
-        icon: 'shield-checkmark',
-        color: '#3B82F6',
-        unlocked: trips >= 10,
-        progress: Math.min(trips, 10),
-        target: 10,
-      },
-      {
-        id: 'perfect_driver',
-        title: 'سائق مثالي',
-        description: 'احصل على 100 نقطة في رحلة',
-        icon: 'trophy',
-        color: '#F59E0B',
-        unlocked: bestScore >= 100,
-        progress: bestScore,
-        target: 100,
-      },
-      {
-        id: 'long_distance',
-        title: 'رحال المسافات',
-        description: 'اقطع 50 كم إجمالي',
-        icon: 'navigate',
-        color: '#8B5CF6',
-        unlocked: distance >= 50,
-        progress: Math.min(Math.round(distance), 50),
-        target: 50,
-      },
-      {
-        id: 'consistent',
-        title: 'القيادة المتزنة',
-        description: 'حافظ على متوسط 80+ نقطة',
-        icon: 'star',
-        color: '#EC4899',
-        unlocked: avgScore >= 80 && trips >= 5,
-        progress: Math.round(avgScore),
-        target: 80,
-      },
-      {
-        id: 'century',
-        title: 'نادي المئة',
-        description: 'أكمل 100 رحلة',
-        icon: 'medal',
-        color: '#FFD700',
-        unlocked: trips >= 100,
-        progress: Math.min(trips, 100),
-        target: 100,
-      },
-    ];
+  const updateAchievements = (progress: AchievementProgress[]) => {
+    var achievementsList: Achievement[] = progress.map((a) => ({
+      ...ACHIEVEMENT_LABELS[a.id],
+      id: a.id,
+      unlocked: a.unlocked,
+      progress: a.progress,
+      target: a.target,
+    }));
 
     setAchievements(achievementsList);
   };
@@ -401,15 +505,315 @@ export default function ProfileScreen() {
     setRefreshing(true);
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     await fetchStats();
+    setSyncStatus(await getSyncStatus());
     setRefreshing(false);
   }, []);
 
+  const syncNow = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    var result = await syncTrips();
+    if (result) {
+      await fetchStats();
+    }
+    setSyncStatus(await getSyncStatus());
+  };
+
+  // Offer the trips the server refused once more, e.g. after it was fixed
+  const retryRejected = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    var result = await retrySyncRejections();
+    if (result) {
+      await fetchStats();
+    }
+    setSyncStatus(await getSyncStatus());
+  };
+
+  var formatImportSummary = (summary: ImportSummary) => {
+    var lines = ['تمت إضافة ' + summary.added.length + ' رحلة'];
+    if (summary.skipped.length > 0) {
+      lines.push('تم تخطي ' + summary.skipped.length + ' رحلة موجودة مسبقاً');
+    }
+    if (summary.rejected.length > 0) {
+      lines.push('تعذر استيراد ' + summary.rejected.length + ':');
+      summary.rejected.forEach((issue) => {
+        lines.push('• ' + issue.label + ' (' + IMPORT_REASON_LABELS[issue.reason] + ')');
+      });
+    }
+    return lines.join('\n');
+  };
+
+  const importTrips = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setImporting(true);
+    try {
+      var summary = await pickAndImportTrips();
+      if (!summary) return;
+      if (summary.added.length > 0) {
+        await fetchStats();
+        setSyncStatus(await getSyncStatus());
+      }
+      Alert.alert('استيراد الرحلات', formatImportSummary(summary));
+    } catch (error: any) {
+      console.error('Error importing trips:', error);
+      Alert.alert('خطأ', 'تعذر استيراد الرحلات: ' + error.message);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const createBackup = async (secret: string) => {
+    setBackingUp(true);
+    try {
+      var result = await shareBackup(secret || undefined);
+      if (!result.ok) {
+        Alert.alert(
+          'خطأ',
+          result.reason === 'unavailable'
+            ? 'المشاركة غير متاحة على هذا الجهاز.'
+            : 'تعذر إنشاء النسخة الاحتياطية.'
+        );
+      }
+    } finally {
+      setBackingUp(false);
+    }
+  };
+
+  const runRestore = async (contents: BackupContents, mode: RestoreMode) => {
+    setBackingUp(true);
+    try {
+      var result = await restoreBackup(contents, mode);
+      if (!result.ok) {
+        Alert.alert(
+          'خطأ',
+          result.reason === 'busy'
+            ? 'أنهِ الرحلة الحالية قبل الاستعادة.'
+            : 'تعذرت استعادة النسخة الاحتياطية.'
+        );
+        return;
+      }
+      await initializeAndFetch();
+      Alert.alert(
+        'تمت الاستعادة',
+        'تمت إضافة ' + result.added + ' رحلة' +
+          (result.kept > 0 ? '\nرحلات موجودة مسبقاً: ' + result.kept : '')
+      );
+    } finally {
+      setBackingUp(false);
+    }
+  };
+
+  var openBackup = (text: string, secret?: string) => {
+    var result = openArchive(text, secret);
+    if (!result.ok) {
+      if (result.reason === 'needs_passphrase') {
+        setPassphrase('');
+        setPassphrasePrompt({ mode: 'restore', text });
+      } else {
+        Alert.alert('خطأ', BACKUP_ERRORS[result.reason]);
+      }
+      return;
+    }
+
+    var contents = result.contents;
+    var details =
+      contents.trips.length + ' رحلة' +
+      (result.createdAt ? '\nأُنشئت: ' + formatSyncTime(result.createdAt) : '') +
+      (result.rejectedTrips > 0 ? '\nرحلات تالفة لن تُستعاد: ' + result.rejectedTrips : '');
+    Alert.alert('استعادة نسخة احتياطية', details + '\n\nالدمج يضيف الرحلات الناقصة فقط، والاستبدال يحذف الرحلات الحالية من هذا الجهاز ومن الخادم.', [
+      { text: 'إلغاء', style: 'cancel' },
+      { text: 'دمج', onPress: () => runRestore(contents, 'merge') },
+      { text: 'استبدال', style: 'destructive', onPress: () => runRestore(contents, 'replace') },
+    ]);
+  };
+
+  const startBackup = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setPassphrase('');
+    setPassphrasePrompt({ mode: 'backup' });
+  };
+
+  const startRestore = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      var text = await pickBackupFile();
+      if (text !== null) {
+        openBackup(text);
+      }
+    } catch (error: any) {
+      console.error('Error reading backup:', error);
+      Alert.alert('خطأ', 'تعذرت قراءة الملف: ' + error.message);
+    }
+  };
+
+  const confirmPassphrase = () => {
+    var prompt = passphrasePrompt;
+    var secret = passphrase;
+    setPassphrasePrompt(null);
+    setPassphrase('');
+    if (!prompt) return;
+    if (prompt.mode === 'backup') {
+      createBackup(secret);
+    } else if (secret) {
+      openBackup(prompt.text, secret);
+    }
+  };
+
+  var formatSyncTime = (iso: string | null) => {
+    if (!iso) return 'لم تتم بعد';
+    return new Date(iso).toLocaleString('ar-SA', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
   const toggleDarkMode = async (value: boolean) => {
     setDarkMode(value);
     await AsyncStorage.setItem(DARK_MODE_KEY, value.toString());
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
   };
 
+  // Auto trips start from the background, so they need "always" access
+  const toggleAutoTrip = async (value: boolean) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (value) {
+      var permissions = await refreshPermissions(true);
+      if (!permissions.background) {
+        Alert.alert(
+          'صلاحية الموقع في الخلفية مطلوبة',
+          'يحتاج التسجيل التلقائي إلى السماح بالوصول إلى الموقع "طوال الوقت".',
+          [
+            { text: 'إلغاء', style: 'cancel' },
+            { text: 'فتح الإعدادات', onPress: () => Linking.openSettings() },
+          ]
+        );
+        return;
+      }
+    }
+    setAutoTrip(await setAutoTripSettings({ enabled: value }));
+  };
+
+  const cycleStationaryTimeout = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    var current = STATIONARY_TIMEOUT_OPTIONS.indexOf(autoTrip.stationaryTimeoutMinutes);
+    var next = STATIONARY_TIMEOUT_OPTIONS[(current + 1) % STATIONARY_TIMEOUT_OPTIONS.length];
+    setAutoTrip(await setAutoTripSettings({ stationaryTimeoutMinutes: next }));
+  };
+
+  const toggleAutoPause = async (value: boolean) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setAutoPause(await setAutoPauseSettings({ enabled: value }));
+  };
+
+  const cycleAutoPauseDelay = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    var current = AUTO_PAUSE_OPTIONS.indexOf(autoPause.stationaryMinutes);
+    var next = AUTO_PAUSE_OPTIONS[(current + 1) % AUTO_PAUSE_OPTIONS.length];
+    setAutoPause(await setAutoPauseSettings({ stationaryMinutes: next }));
+  };
+
+  const cycleFallbackLimit = async (roadClass: RoadClass) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    var current = FALLBACK_LIMIT_OPTIONS.indexOf(speedLimits.fallbackKmh[roadClass]);
+    var next = FALLBACK_LIMIT_OPTIONS[(current + 1) % FALLBACK_LIMIT_OPTIONS.length];
+    setSpeedLimits(await setFallbackLimit(roadClass, next));
+  };
+
+  const downloadLimits = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setDownloadingLimits(true);
+    try {
+      var info = await downloadSpeedLimitDataset();
+      setLimitDataset(info);
+      Alert.alert('تم التحديث', 'تم تنزيل ' + info.segmentCount + ' مقطع طريق.');
+    } catch (error: any) {
+      console.error('Error downloading speed limits:', error);
+      Alert.alert('خطأ', 'تعذر تنزيل حدود السرعة: ' + error.message);
+    } finally {
+      setDownloadingLimits(false);
+    }
+  };
+
+  const cycleReplayRate = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    var current = REPLAY_RATES.indexOf(replayRate);
+    setReplayRate(REPLAY_RATES[(current + 1) % REPLAY_RATES.length]);
+  };
+
+  const replayScenario = async (id: ScenarioId) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      var result = await startReplay(getScenario(id).build(), SCENARIO_LABELS[id], replayRate);
+      if (result === 'busy') {
+        Alert.alert('رحلة جارية', 'أنهِ الرحلة الحالية قبل تشغيل المحاكاة.');
+        return;
+      }
+      router.navigate('/');
+    } catch (error: any) {
+      console.error('Error starting replay:', error);
+      Alert.alert('خطأ', 'تعذر تشغيل المحاكاة: ' + error.message);
+    }
+  };
+
+  // Replays the first drive in a picked GPX or CSV file
+  const replayTrackFile = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      var files = await pickTrackFiles();
+      if (!files || files.length === 0) return;
+      var file = files[0];
+      var tracks = file.text === null ? null : parseTrackFile(file.name, file.text);
+      if (!tracks || tracks.length === 0 || tracks[0].fixes.length < 2) {
+        Alert.alert('خطأ', 'لا يحتوي الملف على مسار يمكن تشغيله.');
+        return;
+      }
+      var result = await startReplay(tracks[0].fixes, tracks[0].label, replayRate);
+      if (result === 'busy') {
+        Alert.alert('رحلة جارية', 'أنهِ الرحلة الحالية قبل تشغيل المحاكاة.');
+        return;
+      }
+      router.navigate('/');
+    } catch (error: any) {
+      console.error('Error replaying file:', error);
+      Alert.alert('خطأ', 'تعذر تشغيل المحاكاة: ' + error.message);
+    }
+  };
+
+  const runScenarioChecks = () => {
+    var failures = SCENARIOS.flatMap((scenario) => checkScenario(scenario).failures);
+    failures.forEach((failure) => console.warn('[Scenarios] ' + failure));
+    Alert.alert(
+      failures.length === 0 ? 'نجحت جميع الفحوصات' : 'فشل ' + failures.length + ' فحص',
+      failures.length === 0 ? SCENARIOS.length + ' سيناريوهات' : failures.join('\n')
+    );
+  };
+
+  const confirmRescore = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Alert.alert(
+      'إعادة حساب النقاط',
+      'سيتم حساب نقاط جميع الرحلات من جديد بالإعدادات الحالية. يتم الاحتفاظ بالنقاط السابقة.',
+      [
+        { text: 'إلغاء', style: 'cancel' },
+        { text: 'إعادة الحساب', onPress: () => rescoreTrips({ force: true }) },
+      ]
+    );
+  };
+
+  var formatRescoreStatus = () => {
+    if (rescore.running) {
+      return 'جاري الحساب: ' + rescore.done + '/' + rescore.total;
+    }
+    if (rescore.error) {
+      return 'فشل: ' + rescore.error;
+    }
+    if (rescore.finishedAt) {
+      return 'تم تحديث ' + rescore.changed + ' رحلة';
+    }
+    return 'بعد تغيير حدود السرعة أو الإيقاف المؤقت';
+  };
+
   var getScoreColor = (score: number) => {
     if (score >= 80) return '#10B981';
     if (score >= 60) return '#F59E0B';
@@ -432,20 +836,12 @@ export default function ProfileScreen() {
     'rgba(255,255,255,0.1)',
     'rgba(255,255,255,0.05)',
   ];
-  var tipGreenColors: [string, string] = [
-    'rgba(16, 185, 129, 0.1)',
-    'rgba(16, 185, 129, 0.05)',
-  ];
-  var tipYellowColors: [string, string] = [
-    'rgba(245, 158, 11, 0.1)',
-    'rgba(245, 158, 11, 0.05)',
-  ];
 
   if (loading) {
     return (
       <LinearGradient colors={bgColors} style={styles.container}>
         <View style={styles.loadingContainer}>
-          <ActivityIndicator size=\"large\" color=\"#00AAFF\" />
+          <ActivityIndicator size="large" color="#00AAFF" />
         </View>
       </LinearGradient>
     );
@@ -461,7 +857,7 @@ export default function ProfileScreen() {
             <RefreshControl
               refreshing={refreshing}
               onRefresh={onRefresh}
-              tintColor=\"#00AAFF\"
+              tintColor="#00AAFF"
               colors={['#00AAFF']}
             />
           }
@@ -480,7 +876,7 @@ export default function ProfileScreen() {
               start={{ x: 0, y: 0 }}
               end={{ x: 1, y: 1 }}
             >
-              <Ionicons name=\"person\" size={50} color=\"#FFFFFF\" />
+              <Ionicons name="person" size={50} color="#FFFFFF" />
             </LinearGradient>
             <Text style={styles.driverLabel}>
               {stats && stats.average_score > 0
@@ -488,7 +884,7 @@ export default function ProfileScreen() {
                 : 'سائق جديد'}
             </Text>
             <View style={styles.levelBadge}>
-              <Ionicons name=\"star\" size={14} color=\"#FFD700\" />
+              <Ionicons name="star" size={14} color="#FFD700" />
               <Text style={styles.levelText}>
                 {'المستوى ' +
                   String(
@@ -523,7 +919,7 @@ export default function ProfileScreen() {
                     style={[
                       styles.scoreBarFill,
                       {
-                        width: String(Math.round(stats.average_score)) + '%',
+                        width: `${Math.round(stats.average_score)}%`,
                         backgroundColor: getScoreColor(stats.average_score),
                       },
                     ]}
@@ -538,21 +934,21 @@ export default function ProfileScreen() {
           >
             <SimpleCircle
               progress={(stats?.total_trips || 0) / 100}
-              color=\"#00AAFF\"
-              label=\"الرحلات\"
+              color="#00AAFF"
+              label="الرحلات"
               value={stats?.total_trips || 0}
             />
             <SimpleCircle
               progress={Math.min((stats?.total_distance || 0) / 500, 1)}
-              color=\"#10B981\"
-              label=\"المسافة\"
+              color="#10B981"
+              label="المسافة"
               value={(stats?.total_distance || 0).toFixed(1)}
-              unit=\"كم\"
+              unit="كم"
             />
             <SimpleCircle
               progress={(stats?.best_score || 0) / 100}
-              color=\"#F59E0B\"
-              label=\"أفضل نتيجة\"
+              color="#F59E0B"
+              label="أفضل نتيجة"
               value={stats?.best_score || '--'}
             />
           </Animated.View>
@@ -584,7 +980,7 @@ export default function ProfileScreen() {
                     { backgroundColor: 'rgba(139, 92, 246, 0.1)' },
                   ]}
                 >
-                  <Ionicons name=\"moon\" size={20} color=\"#8B5CF6\" />
+                  <Ionicons name="moon" size={20} color="#8B5CF6" />
                 </View>
                 <Text style={styles.settingText}>الوضع الليلي</Text>
               </View>
@@ -595,34 +991,377 @@ export default function ProfileScreen() {
                 thumbColor={darkMode ? '#00AAFF' : '#6B7280'}
               />
             </View>
-          </View>
 
-          <View style={styles.tipsSection}>
-            <Text style={styles.sectionTitle}>نصائح القيادة</Text>
+            <View style={styles.settingItem}>
+              <View style={styles.settingLeft}>
+                <View
+                  style={[
+                    styles.settingIcon,
+                    { backgroundColor: 'rgba(16, 185, 129, 0.1)' },
+                  ]}
+                >
+                  <Ionicons name="car-sport" size={20} color="#10B981" />
+                </View>
+                <Text style={styles.settingText}>التسجيل التلقائي للرحلات</Text>
+              </View>
+              <Switch
+                value={autoTrip.enabled}
+                onValueChange={toggleAutoTrip}
+                trackColor={{ false: '#1E3A5F', true: '#0066CC' }}
+                thumbColor={autoTrip.enabled ? '#00AAFF' : '#6B7280'}
+              />
+            </View>
 
-            <LinearGradient colors={tipGreenColors} style={styles.tipCard}>
-              <View style={styles.tipIconContainer}>
-                <Ionicons name=\"speedometer\" size={24} color=\"#10B981\" />
+            {autoTrip.enabled && (
+              <TouchableOpacity style={styles.settingItem} onPress={cycleStationaryTimeout}>
+                <View style={styles.settingLeft}>
+                  <View
+                    style={[
+                      styles.settingIcon,
+                      { backgroundColor: 'rgba(245, 158, 11, 0.1)' },
+                    ]}
+                  >
+                    <Ionicons name="timer" size={20} color="#F59E0B" />
+                  </View>
+                  <Text style={styles.settingText}>إنهاء الرحلة بعد التوقف</Text>
+                </View>
+                <Text style={styles.settingValue}>
+                  {autoTrip.stationaryTimeoutMinutes + ' دقائق'}
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            <View style={styles.settingItem}>
+              <View style={styles.settingLeft}>
+                <View
+                  style={[
+                    styles.settingIcon,
+                    { backgroundColor: 'rgba(245, 158, 11, 0.1)' },
+                  ]}
+                >
+                  <Ionicons name="pause-circle" size={20} color="#F59E0B" />
+                </View>
+                <Text style={styles.settingText}>الإيقاف المؤقت التلقائي</Text>
               </View>
-              <View style={styles.tipContent}>
-                <Text style={styles.tipTitle}>حافظ على سرعة ثابتة</Text>
-                <Text style={styles.tipText}>
-                  تجنب التسارع والفرملة المفاجئة لتحسين نقاطك
+              <Switch
+                value={autoPause.enabled}
+                onValueChange={toggleAutoPause}
+                trackColor={{ false: '#1E3A5F', true: '#0066CC' }}
+                thumbColor={autoPause.enabled ? '#00AAFF' : '#6B7280'}
+              />
+            </View>
+
+            {autoPause.enabled && (
+              <TouchableOpacity style={styles.settingItem} onPress={cycleAutoPauseDelay}>
+                <View style={styles.settingLeft}>
+                  <View
+                    style={[
+                      styles.settingIcon,
+                      { backgroundColor: 'rgba(245, 158, 11, 0.1)' },
+                    ]}
+                  >
+                    <Ionicons name="timer" size={20} color="#F59E0B" />
+                  </View>
+                  <Text style={styles.settingText}>الإيقاف المؤقت بعد التوقف</Text>
+                </View>
+                <Text style={styles.settingValue}>
+                  {autoPause.stationaryMinutes + ' دقائق'}
                 </Text>
+              </TouchableOpacity>
+            )}
+
+            <View style={styles.syncCard}>
+              <View style={styles.settingLeft}>
+                <View
+                  style={[
+                    styles.settingIcon,
+                    { backgroundColor: 'rgba(0, 170, 255, 0.1)' },
+                  ]}
+                >
+                  <Ionicons name="cloud-upload" size={20} color="#00AAFF" />
+                </View>
+                <View style={styles.syncInfo}>
+                  <Text style={styles.settingText}>المزامنة</Text>
+                  <Text style={styles.syncDetail}>
+                    {'بانتظار المزامنة: ' + String(syncStatus?.pendingCount || 0)}
+                  </Text>
+                  <Text style={styles.syncDetail}>
+                    {'آخر مزامنة ناجحة: ' +
+                      formatSyncTime(syncStatus?.lastSuccessAt || null)}
+                  </Text>
+                  {syncStatus?.rejectedCount ? (
+                    <TouchableOpacity onPress={retryRejected} disabled={syncStatus.inProgress}>
+                      <Text style={styles.syncError}>
+                        {'رفضها الخادم: ' + String(syncStatus.rejectedCount)}
+                        <Text style={styles.syncRetry}>{'  إعادة المحاولة'}</Text>
+                      </Text>
+                    </TouchableOpacity>
+                  ) : null}
+                  {syncStatus?.lastError ? (
+                    <Text style={styles.syncError} numberOfLines={2}>
+                      {'آخر خطأ: ' + syncStatus.lastError}
+                    </Text>
+                  ) : null}
+                </View>
               </View>
-            </LinearGradient>
+              <TouchableOpacity
+                style={styles.syncButton}
+                onPress={syncNow}
+                disabled={syncStatus?.inProgress}
+              >
+                {syncStatus?.inProgress ? (
+                  <ActivityIndicator size="small" color="#00AAFF" />
+                ) : (
+                  <Ionicons name="sync" size={20} color="#00AAFF" />
+                )}
+              </TouchableOpacity>
+            </View>
 
-            <LinearGradient colors={tipYellowColors} style={styles.tipCard}>
-              <View style={styles.tipIconContainer}>
-                <Ionicons name=\"warning\" size={24} color=\"#F59E0B\" />
+            <View style={styles.syncCard}>
+              <View style={styles.settingLeft}>
+                <View
+                  style={[
+                    styles.settingIcon,
+                    { backgroundColor: 'rgba(16, 185, 129, 0.1)' },
+                  ]}
+                >
+                  <Ionicons name="document-attach" size={20} color="#10B981" />
+                </View>
+                <View style={styles.syncInfo}>
+                  <Text style={styles.settingText}>استيراد رحلات</Text>
+                  <Text style={styles.syncDetail}>
+                    ملفات GPX أو ملف CSV مُصدَّر من DriveIQ
+                  </Text>
+                </View>
               </View>
-              <View style={styles.tipContent}>
-                <Text style={styles.tipTitle}>التزم بحدود السرعة</Text>
-                <Text style={styles.tipText}>
-                  تجاوز 130 كم/س يؤثر بشكل كبير على نقاطك
-                </Text>
+              <TouchableOpacity
+                style={styles.syncButton}
+                onPress={importTrips}
+                disabled={importing}
+              >
+                {importing ? (
+                  <ActivityIndicator size="small" color="#00AAFF" />
+                ) : (
+                  <Ionicons name="download" size={20} color="#00AAFF" />
+                )}
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.syncCard}>
+              <View style={styles.settingLeft}>
+                <View
+                  style={[
+                    styles.settingIcon,
+                    { backgroundColor: 'rgba(245, 158, 11, 0.1)' },
+                  ]}
+                >
+                  <Ionicons name="archive" size={20} color="#F59E0B" />
+                </View>
+                <View style={styles.syncInfo}>
+                  <Text style={styles.settingText}>النسخ الاحتياطي</Text>
+                  <Text style={styles.syncDetail}>
+                    الرحلات والمسارات والإعدادات في ملف واحد
+                  </Text>
+                </View>
               </View>
-            </LinearGradient>
+              {backingUp ? (
+                <ActivityIndicator size="small" color="#00AAFF" />
+              ) : (
+                <View style={styles.backupButtons}>
+                  <TouchableOpacity style={styles.syncButton} onPress={startBackup}>
+                    <Ionicons name="share-outline" size={20} color="#00AAFF" />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.syncButton} onPress={startRestore}>
+                    <Ionicons name="refresh-circle-outline" size={20} color="#00AAFF" />
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          </View>
+
+          <View style={styles.settingsSection}>
+            <Text style={styles.sectionTitle}>حدود السرعة</Text>
+
+            <View style={styles.syncCard}>
+              <View style={styles.settingLeft}>
+                <View
+                  style={[
+                    styles.settingIcon,
+                    { backgroundColor: 'rgba(239, 68, 68, 0.1)' },
+                  ]}
+                >
+                  <Ionicons name="map" size={20} color="#EF4444" />
+                </View>
+                <View style={styles.syncInfo}>
+                  <Text style={styles.settingText}>خريطة حدود السرعة</Text>
+                  <Text style={styles.syncDetail}>
+                    {limitDataset
+                      ? limitDataset.name + ' - ' + limitDataset.segmentCount + ' مقطع'
+                      : 'غير مثبتة، تُستخدم الحدود الافتراضية'}
+                  </Text>
+                </View>
+              </View>
+              {SPEED_LIMITS_URL ? (
+                <TouchableOpacity
+                  style={styles.syncButton}
+                  onPress={downloadLimits}
+                  disabled={downloadingLimits}
+                >
+                  {downloadingLimits ? (
+                    <ActivityIndicator size="small" color="#00AAFF" />
+                  ) : (
+                    <Ionicons name="download" size={20} color="#00AAFF" />
+                  )}
+                </TouchableOpacity>
+              ) : null}
+            </View>
+
+            <View style={styles.syncCard}>
+              <View style={styles.settingLeft}>
+                <View
+                  style={[
+                    styles.settingIcon,
+                    { backgroundColor: 'rgba(139, 92, 246, 0.1)' },
+                  ]}
+                >
+                  <Ionicons name="calculator" size={20} color="#8B5CF6" />
+                </View>
+                <View style={styles.syncInfo}>
+                  <Text style={styles.settingText}>إعادة حساب النقاط</Text>
+                  <Text style={styles.syncDetail}>{formatRescoreStatus()}</Text>
+                </View>
+              </View>
+              <TouchableOpacity
+                style={styles.syncButton}
+                onPress={confirmRescore}
+                disabled={rescore.running}
+              >
+                {rescore.running ? (
+                  <ActivityIndicator size="small" color="#00AAFF" />
+                ) : (
+                  <Ionicons name="refresh" size={20} color="#00AAFF" />
+                )}
+              </TouchableOpacity>
+            </View>
+
+            {ROAD_CLASSES.map((roadClass) => (
+              <TouchableOpacity
+                key={roadClass}
+                style={styles.settingItem}
+                onPress={() => cycleFallbackLimit(roadClass)}
+              >
+                <View style={styles.settingLeft}>
+                  <View
+                    style={[
+                      styles.settingIcon,
+                      { backgroundColor: 'rgba(239, 68, 68, 0.1)' },
+                    ]}
+                  >
+                    <Ionicons name="speedometer" size={20} color="#EF4444" />
+                  </View>
+                  <Text style={styles.settingText}>{ROAD_CLASS_LABELS[roadClass]}</Text>
+                </View>
+                <Text style={styles.settingValue}>
+                  {speedLimits.fallbackKmh[roadClass] + ' كم/س'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {__DEV__ && (
+            <View style={styles.settingsSection}>
+              <Text style={styles.sectionTitle}>أدوات المطور</Text>
+
+              <TouchableOpacity style={styles.settingItem} onPress={cycleReplayRate}>
+                <View style={styles.settingLeft}>
+                  <View
+                    style={[
+                      styles.settingIcon,
+                      { backgroundColor: 'rgba(0, 170, 255, 0.1)' },
+                    ]}
+                  >
+                    <Ionicons name="play-forward" size={20} color="#00AAFF" />
+                  </View>
+                  <Text style={styles.settingText}>سرعة المحاكاة</Text>
+                </View>
+                <Text style={styles.settingValue}>{'×' + replayRate}</Text>
+              </TouchableOpacity>
+
+              {SCENARIOS.map((scenario) => (
+                <TouchableOpacity
+                  key={scenario.id}
+                  style={styles.settingItem}
+                  onPress={() => replayScenario(scenario.id)}
+                >
+                  <View style={styles.settingLeft}>
+                    <View
+                      style={[
+                        styles.settingIcon,
+                        { backgroundColor: 'rgba(16, 185, 129, 0.1)' },
+                      ]}
+                    >
+                      <Ionicons name="car-sport" size={20} color="#10B981" />
+                    </View>
+                    <Text style={styles.settingText}>{SCENARIO_LABELS[scenario.id]}</Text>
+                  </View>
+                  <Ionicons name="play" size={20} color="#00AAFF" />
+                </TouchableOpacity>
+              ))}
+
+              <TouchableOpacity style={styles.settingItem} onPress={replayTrackFile}>
+                <View style={styles.settingLeft}>
+                  <View
+                    style={[
+                      styles.settingIcon,
+                      { backgroundColor: 'rgba(16, 185, 129, 0.1)' },
+                    ]}
+                  >
+                    <Ionicons name="document" size={20} color="#10B981" />
+                  </View>
+                  <Text style={styles.settingText}>تشغيل ملف GPX</Text>
+                </View>
+                <Ionicons name="play" size={20} color="#00AAFF" />
+              </TouchableOpacity>
+
+              <TouchableOpacity style={styles.settingItem} onPress={runScenarioChecks}>
+                <View style={styles.settingLeft}>
+                  <View
+                    style={[
+                      styles.settingIcon,
+                      { backgroundColor: 'rgba(139, 92, 246, 0.1)' },
+                    ]}
+                  >
+                    <Ionicons name="checkmark-done" size={20} color="#8B5CF6" />
+                  </View>
+                  <Text style={styles.settingText}>فحص السيناريوهات</Text>
+                </View>
+                <Ionicons name="chevron-back" size={20} color="#6B7280" />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <View style={styles.tipsSection}>
+            <Text style={styles.sectionTitle}>نصائح القيادة</Text>
+
+            {tips.length === 0 ? (
+              <Text style={styles.syncDetail}>سجّل رحلة لتحصل على نصائح تناسب قيادتك</Text>
+            ) : (
+              tips.map((tip) => (
+                <LinearGradient
+                  key={tip.id}
+                  colors={[TIP_TEXT[tip.id].color + '1A', TIP_TEXT[tip.id].color + '0D']}
+                  style={styles.tipCard}
+                >
+                  <View style={styles.tipIconContainer}>
+                    <Ionicons name={TIP_TEXT[tip.id].icon as any} size={24} color={TIP_TEXT[tip.id].color} />
+                  </View>
+                  <View style={styles.tipContent}>
+                    <Text style={styles.tipTitle}>{TIP_TEXT[tip.id].title}</Text>
+                    <Text style={styles.tipText}>{TIP_TEXT[tip.id].text(tip)}</Text>
+                  </View>
+                </LinearGradient>
+              ))
+            )}
           </View>
 
           <View style={styles.appInfo}>
@@ -633,6 +1372,43 @@ export default function ProfileScreen() {
             </Text>
           </View>
         </ScrollView>
+
+        <Modal
+          visible={passphrasePrompt !== null}
+          transparent
+          animationType="fade"
+          onRequestClose={() => setPassphrasePrompt(null)}
+        >
+          <View style={styles.promptBackdrop}>
+            <View style={styles.promptCard}>
+              <Text style={styles.settingText}>
+                {passphrasePrompt?.mode === 'backup' ? 'تشفير النسخة الاحتياطية' : 'النسخة مشفرة'}
+              </Text>
+              <Text style={styles.syncDetail}>
+                {passphrasePrompt?.mode === 'backup'
+                  ? 'اتركها فارغة لنسخة غير مشفرة. لا يمكن استعادة نسخة مشفرة بدون كلمة المرور.'
+                  : 'أدخل كلمة المرور التي استُخدمت عند إنشاء النسخة.'}
+              </Text>
+              <TextInput
+                style={styles.promptInput}
+                value={passphrase}
+                onChangeText={setPassphrase}
+                placeholder="كلمة المرور"
+                placeholderTextColor="#6B7280"
+                secureTextEntry
+                autoFocus
+              />
+              <View style={styles.promptActions}>
+                <TouchableOpacity onPress={() => setPassphrasePrompt(null)}>
+                  <Text style={styles.promptCancel}>إلغاء</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={confirmPassphrase}>
+                  <Text style={styles.promptConfirm}>متابعة</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
       </SafeAreaView>
     </LinearGradient>
   );
@@ -816,6 +1592,58 @@ const styles = StyleSheet.create({
     marginRight: 12,
   },
   settingText: { fontSize: 16, color: '#FFFFFF' },
+  settingValue: { fontSize: 14, color: '#00AAFF', fontWeight: '600' },
+  syncCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: 'rgba(15, 31, 56, 0.8)',
+    padding: 16,
+    borderRadius: 16,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#1E3A5F',
+  },
+  syncInfo: { flex: 1 },
+  syncDetail: { fontSize: 12, color: '#9CA3AF', marginTop: 2 },
+  syncError: { fontSize: 12, color: '#EF4444', marginTop: 2 },
+  syncRetry: { color: '#00AAFF', fontWeight: '600' },
+  syncButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 170, 255, 0.1)',
+  },
+  backupButtons: { flexDirection: 'row', gap: 8 },
+  promptBackdrop: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  promptCard: {
+    width: '100%',
+    backgroundColor: '#0F2847',
+    borderRadius: 20,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: '#1E3A5F',
+  },
+  promptInput: {
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 12,
+    color: '#FFFFFF',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderWidth: 1,
+    borderColor: '#1E3A5F',
+  },
+  promptActions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 24, marginTop: 20 },
+  promptCancel: { fontSize: 16, color: '#9CA3AF' },
+  promptConfirm: { fontSize: 16, fontWeight: '600', color: '#00AAFF' },
   tipsSection: { paddingHorizontal: 24, marginBottom: 32 },
   tipCard: {
     flexDirection: 'row',
@@ -847,4 +1675,3 @@ const styles = StyleSheet.create({
   appVersion: { fontSize: 14, color: '#6B7280', marginTop: 4 },
   deviceId: { fontSize: 10, color: '#4B5563', marginTop: 8 },
 });
-"
@@ -1,9 +1,30 @@
 import React, { useEffect } from 'react';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
-import { View, StyleSheet } from 'react-native';
+import { View, StyleSheet, Alert } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { checkTaskStatus } from './locationTask';
+import { ensureStorageReady } from './storage';
+import { syncTrips } from './syncEngine';
+import { rescoreIfOutdated } from './rescoring';
+import { ensureAutoTripMonitoring } from './autoTrip';
+import { initTracking } from './trackingController';
+import { OrphanedTrip, RecoveryChoice, recoverOrphanedTrip } from './tripRecovery';
+
+// Ask whether to carry on with a trip the app lost when it was killed
+const askAboutOrphanedTrip = (orphan: OrphanedTrip) =>
+  new Promise<RecoveryChoice>((resolve) => {
+    const since = orphan.startTime.toLocaleTimeString('ar-SA', { hour: '2-digit', minute: '2-digit' });
+    Alert.alert(
+      'رحلة غير مكتملة',
+      `تم إغلاق التطبيق أثناء تسجيل رحلة بدأت الساعة ${since}. هل تريد متابعة التسجيل أم إنهاء الرحلة وحفظها؟`,
+      [
+        { text: 'إنهاء وحفظ', onPress: () => resolve('finalise') },
+        { text: 'متابعة', onPress: () => resolve('resume') },
+      ],
+      { cancelable: false }
+    );
+  });
 
 export default function RootLayout() {
   useEffect(() => {
@@ -20,7 +41,36 @@ export default function RootLayout() {
       }
     };
     
+    // Deal with a trip left behind by a crash, hand whatever is still
+    // recording to the tracking controller, then resume waiting for the
+    // next drive if auto trips are on
+    const restoreTracking = async () => {
+      const outcome = await recoverOrphanedTrip(askAboutOrphanedTrip);
+      if (outcome.action === 'finalised' && outcome.finished) {
+        Alert.alert('تم حفظ الرحلة', `النقاط: ${outcome.finished.summary.score}/100`, [{ text: 'حسناً' }]);
+      }
+      await initTracking();
+      await ensureAutoTripMonitoring();
+    };
+    
     verifyTask();
+    // Bring stored data up to the current schema first: recovering a trip
+    // saves it, and nothing may be written in an older schema. Then the
+    // scoring model, and push trips recorded while offline.
+    ensureStorageReady().then((storage) => {
+      if (!storage.ok) {
+        // Nothing is lost: the old data and any unfinished trip are kept
+        // until a later launch migrates them
+        Alert.alert(
+          'تعذر تحديث البيانات',
+          'حدث خطأ أثناء تحديث الرحلات المحفوظة. أعد تشغيل التطبيق للمحاولة مرة أخرى.',
+          [{ text: 'حسناً' }]
+        );
+        return;
+      }
+      restoreTracking();
+      rescoreIfOutdated().then(() => syncTrips());
+    });
   }, []);
   
   return (
@@ -33,7 +83,28 @@ export default function RootLayout() {
             contentStyle: { backgroundColor: '#0A1628' },
             animation: 'slide_from_right',
           }}
-        />
+        >
+          <Stack.Screen
+            name="trip/[id]"
+            options={{
+              headerShown: true,
+              title: 'Trip Details',
+              headerStyle: { backgroundColor: '#0A1628' },
+              headerTintColor: '#FFFFFF',
+              headerShadowVisible: false,
+            }}
+          />
+          <Stack.Screen
+            name="summary/[start]"
+            options={{
+              headerShown: true,
+              title: 'Summary',
+              headerStyle: { backgroundColor: '#0A1628' },
+              headerTintColor: '#FFFFFF',
+              headerShadowVisible: false,
+            }}
+          />
+        </Stack>
       </View>
     </GestureHandlerRootView>
   );
@@ -0,0 +1,114 @@
+// ============================================
+// Achievements
+// Milestones earned from the running trip stats. Once earned an
+// achievement is kept with the time it was unlocked, so deleting trips
+// doesn't take it away and a backup can carry it to another phone.
+// ============================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TripStats, getBestScore } from './storage';
+
+const UNLOCKED_KEY = 'driveiq_achievements';
+
+export type AchievementId =
+  | 'first_trip'
+  | 'road_warrior'
+  | 'perfect_driver'
+  | 'long_distance'
+  | 'consistent'
+  | 'century';
+
+// Achievement id -> ISO time it was first unlocked
+export type UnlockedAchievements = Partial<Record<AchievementId, string>>;
+
+export interface AchievementProgress {
+  id: AchievementId;
+  unlocked: boolean;
+  unlockedAt: string | null;
+  progress: number;
+  target: number;
+}
+
+interface AchievementRule {
+  target: number;
+  progress: (stats: TripStats) => number;
+  // Defaults to progress reaching the target
+  earned?: (stats: TripStats) => boolean;
+}
+
+const averageScore = (stats: TripStats) => (stats.count > 0 ? stats.scoreSum / stats.count : 0);
+
+// In the order the Profile shows them
+export const ACHIEVEMENT_RULES: Record<AchievementId, AchievementRule> = {
+  first_trip: { target: 1, progress: (s) => Math.min(s.count, 1) },
+  road_warrior: { target: 10, progress: (s) => Math.min(s.count, 10) },
+  perfect_driver: { target: 100, progress: (s) => getBestScore(s) },
+  long_distance: { target: 50, progress: (s) => Math.min(Math.round(s.distanceKm), 50) },
+  consistent: {
+    target: 80,
+    progress: (s) => Math.round(averageScore(s)),
+    earned: (s) => averageScore(s) >= 80 && s.count >= 5,
+  },
+  century: { target: 100, progress: (s) => Math.min(s.count, 100) },
+};
+
+export const ACHIEVEMENT_IDS = Object.keys(ACHIEVEMENT_RULES) as AchievementId[];
+
+export const isAchievementId = (value: string): value is AchievementId => value in ACHIEVEMENT_RULES;
+
+export function evaluateAchievements(stats: TripStats, unlocked: UnlockedAchievements): AchievementProgress[] {
+  return ACHIEVEMENT_IDS.map((id) => {
+    const rule = ACHIEVEMENT_RULES[id];
+    const progress = rule.progress(stats);
+    const earned = rule.earned ? rule.earned(stats) : progress >= rule.target;
+    return {
+      id,
+      unlocked: earned || !!unlocked[id],
+      unlockedAt: unlocked[id] || null,
+      progress,
+      target: rule.target,
+    };
+  });
+}
+
+export async function getUnlockedAchievements(): Promise<UnlockedAchievements> {
+  try {
+    const raw = await AsyncStorage.getItem(UNLOCKED_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.error('[Achievements] Error reading unlocked achievements:', error);
+    return {};
+  }
+}
+
+// Evaluate against the current stats, recording anything newly earned
+export async function loadAchievements(stats: TripStats): Promise<AchievementProgress[]> {
+  const unlocked = await getUnlockedAchievements();
+  const achievements = evaluateAchievements(stats, unlocked);
+  const now = new Date().toISOString();
+  const newlyEarned = achievements.filter((a) => a.unlocked && !a.unlockedAt);
+  if (newlyEarned.length === 0) {
+    return achievements;
+  }
+
+  newlyEarned.forEach((a) => {
+    unlocked[a.id] = now;
+    a.unlockedAt = now;
+  });
+  await AsyncStorage.setItem(UNLOCKED_KEY, JSON.stringify(unlocked));
+  return achievements;
+}
+
+// Restore unlocks from a backup. Merging keeps the earlier time of an
+// achievement unlocked on both phones.
+export async function restoreUnlockedAchievements(restored: UnlockedAchievements, replace: boolean): Promise<void> {
+  const current = replace ? {} : await getUnlockedAchievements();
+  for (const id of ACHIEVEMENT_IDS) {
+    const at = restored[id];
+    const existing = current[id];
+    if (at && (!existing || at < existing)) {
+      current[id] = at;
+    }
+  }
+  await AsyncStorage.setItem(UNLOCKED_KEY, JSON.stringify(current));
+}
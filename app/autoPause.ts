@@ -0,0 +1,48 @@
+// ============================================
+// Auto Pause
+// Standing still for the configured time pauses the trip until the
+// car moves again, so fuel stops and parking searches don't drag
+// down the average speed. The analyzer does the detection; this
+// module only stores the setting and turns it into analyzer config.
+// ============================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AnalysisConfig } from './tripAnalysis';
+
+const SETTINGS_KEY = 'driveiq_auto_pause_settings';
+
+export const AUTO_PAUSE_OPTIONS = [1, 2, 3, 5];
+
+export interface AutoPauseSettings {
+  enabled: boolean;
+  stationaryMinutes: number;
+}
+
+export const DEFAULT_AUTO_PAUSE_SETTINGS: AutoPauseSettings = {
+  enabled: true,
+  stationaryMinutes: 2,
+};
+
+export async function getAutoPauseSettings(): Promise<AutoPauseSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_AUTO_PAUSE_SETTINGS, ...JSON.parse(raw) } : DEFAULT_AUTO_PAUSE_SETTINGS;
+  } catch (error) {
+    console.error('[AutoPause] Error reading settings:', error);
+    return DEFAULT_AUTO_PAUSE_SETTINGS;
+  }
+}
+
+// Takes effect the next time the trip is scored, including the one
+// being recorded when it is saved
+export async function setAutoPauseSettings(patch: Partial<AutoPauseSettings>): Promise<AutoPauseSettings> {
+  const settings = { ...(await getAutoPauseSettings()), ...patch };
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  return settings;
+}
+
+// Analyzer config for recording and scoring trips
+export async function getRecordingConfig(): Promise<Partial<AnalysisConfig>> {
+  const settings = await getAutoPauseSettings();
+  return { autoPauseMs: settings.enabled ? settings.stationaryMinutes * 60000 : 0 };
+}
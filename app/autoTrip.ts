@@ -0,0 +1,246 @@
+// ============================================
+// Auto Trip Detection
+// While enabled, the background task runs in low-power monitoring
+// mode. Sustained vehicle speed starts a trip; staying put for the
+// configured timeout ends it, with the idle tail trimmed off.
+// All state is persisted because the background task may run in a
+// fresh JS context for every batch of fixes.
+// ============================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { LocationObject } from 'expo-location';
+import { checkTaskStatus, startBackgroundTask, stopBackgroundTask } from './locationTask';
+import {
+  BufferedLocation,
+  appendLocations,
+  beginTripBuffer,
+  getActiveTrip,
+  isManuallyPaused,
+  toBufferedLocation,
+} from './tripBuffer';
+import { calculateDistance, fromLocation } from './tripAnalysis';
+import { createTripId, finishBufferedTrip } from './tripRecorder';
+
+const SETTINGS_KEY = 'driveiq_auto_trip_settings';
+const STATE_KEY = 'driveiq_auto_trip_state';
+
+// Speed that counts as driving, and for how long, before a trip starts
+export const AUTO_START_SPEED_KMH = 20;
+export const AUTO_START_SUSTAIN_MS = 45000;
+// Below this an auto trip counts as stationary
+export const AUTO_STOP_SPEED_KMH = 8;
+// A gap this long between fixes resets a pending start
+const MAX_CANDIDATE_GAP_MS = 3 * 60 * 1000;
+
+export const STATIONARY_TIMEOUT_OPTIONS = [3, 5, 10, 15];
+
+export interface AutoTripSettings {
+  enabled: boolean;
+  stationaryTimeoutMinutes: number;
+}
+
+export const DEFAULT_AUTO_TRIP_SETTINGS: AutoTripSettings = {
+  enabled: false,
+  stationaryTimeoutMinutes: 5,
+};
+
+interface DetectorFix {
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  speedKmh: number | null;
+}
+
+export interface DetectorState {
+  candidateSince: number | null; // first fix of the current fast streak
+  lastFix: DetectorFix | null;
+  lastMovingAt: number | null; // last moving fix of an auto trip
+  // The fast streak's fixes, which can span several background batches;
+  // they become the start of the trip
+  candidateLocations: BufferedLocation[];
+}
+
+const EMPTY_STATE: DetectorState = { candidateSince: null, lastFix: null, lastMovingAt: null, candidateLocations: [] };
+
+export async function getAutoTripSettings(): Promise<AutoTripSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_AUTO_TRIP_SETTINGS, ...JSON.parse(raw) } : DEFAULT_AUTO_TRIP_SETTINGS;
+  } catch (error) {
+    console.error('[AutoTrip] Error reading settings:', error);
+    return DEFAULT_AUTO_TRIP_SETTINGS;
+  }
+}
+
+async function readState(): Promise<DetectorState> {
+  const raw = await AsyncStorage.getItem(STATE_KEY);
+  return raw ? { ...EMPTY_STATE, ...JSON.parse(raw) } : EMPTY_STATE;
+}
+
+const writeState = (state: DetectorState) => AsyncStorage.setItem(STATE_KEY, JSON.stringify(state));
+
+// GPS speed when the fix has one, otherwise derived from the previous fix
+function speedOf(fix: DetectorFix, previous: DetectorFix | null): number | null {
+  if (fix.speedKmh !== null) return fix.speedKmh;
+  if (!previous || fix.timestamp <= previous.timestamp) return null;
+  const km = calculateDistance(previous.latitude, previous.longitude, fix.latitude, fix.longitude);
+  return km / ((fix.timestamp - previous.timestamp) / 3600000);
+}
+
+function toDetectorFix(location: LocationObject): DetectorFix {
+  const fix = fromLocation(location);
+  return {
+    timestamp: fix.timestamp,
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    speedKmh: fix.speed !== null && fix.speed >= 0 ? fix.speed * 3.6 : null,
+  };
+}
+
+// Feed monitoring fixes through the start rule. Returns the updated
+// state and, once speed has been sustained, when the trip started.
+export function detectTripStart(
+  state: DetectorState,
+  fixes: DetectorFix[]
+): { state: DetectorState; startedAt: number | null } {
+  let { candidateSince, lastFix } = state;
+
+  for (const fix of fixes) {
+    if (lastFix && fix.timestamp - lastFix.timestamp > MAX_CANDIDATE_GAP_MS) {
+      candidateSince = null;
+    }
+    const speed = speedOf(fix, lastFix);
+    lastFix = fix;
+
+    if (speed === null || speed < AUTO_START_SPEED_KMH) {
+      candidateSince = null;
+      continue;
+    }
+    candidateSince = candidateSince ?? fix.timestamp;
+    if (fix.timestamp - candidateSince >= AUTO_START_SUSTAIN_MS) {
+      return { state: { ...EMPTY_STATE, lastFix, lastMovingAt: fix.timestamp }, startedAt: candidateSince };
+    }
+  }
+  return { state: { ...state, candidateSince, lastFix }, startedAt: null };
+}
+
+// Feed recording fixes through the stop rule. Returns the updated state
+// and, once the car has been still for `timeoutMs`, when it stopped.
+export function detectTripStop(
+  state: DetectorState,
+  fixes: DetectorFix[],
+  timeoutMs: number
+): { state: DetectorState; stoppedAt: number | null } {
+  let { lastFix, lastMovingAt } = state;
+
+  for (const fix of fixes) {
+    const speed = speedOf(fix, lastFix);
+    lastFix = fix;
+    lastMovingAt = lastMovingAt ?? fix.timestamp;
+
+    if (speed !== null && speed >= AUTO_STOP_SPEED_KMH) {
+      lastMovingAt = fix.timestamp;
+    } else if (fix.timestamp - lastMovingAt >= timeoutMs) {
+      return { state: EMPTY_STATE, stoppedAt: lastMovingAt };
+    }
+  }
+  return { state: { ...state, lastFix, lastMovingAt }, stoppedAt: null };
+}
+
+// Put the background task in monitoring mode when auto trips are on and
+// nothing is recording. Safe to call on every launch.
+export async function ensureAutoTripMonitoring(): Promise<void> {
+  const settings = await getAutoTripSettings();
+  if (!settings.enabled || (await getActiveTrip())) {
+    return;
+  }
+  const { isRegistered } = await checkTaskStatus();
+  if (!isRegistered) {
+    await writeState(EMPTY_STATE);
+    await startBackgroundTask('monitoring');
+  }
+}
+
+export async function setAutoTripSettings(patch: Partial<AutoTripSettings>): Promise<AutoTripSettings> {
+  const settings = { ...(await getAutoTripSettings()), ...patch };
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+  if ('enabled' in patch && !(await getActiveTrip())) {
+    if (settings.enabled) {
+      await writeState(EMPTY_STATE);
+      await startBackgroundTask('monitoring');
+    } else {
+      await stopBackgroundTask();
+    }
+  }
+  return settings;
+}
+
+// Entry point for every batch of background fixes (see index.js).
+// Records into the active trip, and runs auto start/stop detection.
+export async function handleBackgroundLocations(locations: LocationObject[]): Promise<void> {
+  const active = await getActiveTrip();
+  const fixes = locations.map(toDetectorFix).sort((a, b) => a.timestamp - b.timestamp);
+
+  // Real fixes must not mix into a replayed trip
+  if (active?.origin === 'replay') {
+    return;
+  }
+
+  if (active) {
+    const stored = await appendLocations(locations);
+    console.log('[AutoTrip] Buffered ' + stored + ' locations');
+    if (active.origin !== 'auto') {
+      return;
+    }
+    // The driver paused on purpose, so standing still doesn't end the
+    // trip; the stationary clock restarts once they resume
+    if (isManuallyPaused(active)) {
+      await writeState({ ...(await readState()), lastMovingAt: null });
+      return;
+    }
+
+    const settings = await getAutoTripSettings();
+    const { state, stoppedAt } = detectTripStop(
+      await readState(),
+      fixes,
+      settings.stationaryTimeoutMinutes * 60000
+    );
+    await writeState(state);
+
+    if (stoppedAt !== null) {
+      console.log(`[AutoTrip] Stationary since ${new Date(stoppedAt).toISOString()}, ending trip`);
+      await finishBufferedTrip({ endAt: stoppedAt, expectedId: active.id });
+      if (settings.enabled) {
+        await startBackgroundTask('monitoring');
+      } else {
+        await stopBackgroundTask();
+      }
+    }
+    return;
+  }
+
+  const settings = await getAutoTripSettings();
+  if (!settings.enabled) {
+    return;
+  }
+
+  const previous = await readState();
+  const { state, startedAt } = detectTripStart(previous, fixes);
+  const streak = [...previous.candidateLocations, ...locations.map(toBufferedLocation)];
+
+  if (startedAt === null) {
+    const since = state.candidateSince;
+    await writeState({
+      ...state,
+      candidateLocations: since === null ? [] : streak.filter((l) => l.timestamp >= since),
+    });
+    return;
+  }
+
+  await writeState(state);
+  console.log(`[AutoTrip] Sustained driving since ${new Date(startedAt).toISOString()}, starting trip`);
+  await beginTripBuffer(createTripId(), new Date(startedAt), 'auto');
+  await appendLocations(streak.filter((l) => l.timestamp >= startedAt));
+  await startBackgroundTask('recording');
+}
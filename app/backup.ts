@@ -0,0 +1,177 @@
+// ============================================
+// Backup
+// Writes a full backup of this phone's DriveIQ data to a file shared
+// through the system share sheet, and restores one by merging into or
+// replacing the current data. The archive format is in backupArchive.ts.
+// ============================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import {
+  getDeviceId,
+  listLocalTripIds,
+  loadLocalTrips,
+  restoreLocalTrips,
+  setDeviceId,
+} from './tripRepository';
+import { readStoredRoutes } from './routeStore';
+import { getActiveTrip } from './tripBuffer';
+import { getAutoTripSettings, setAutoTripSettings } from './autoTrip';
+import { getAutoPauseSettings, setAutoPauseSettings } from './autoPause';
+import { RoadClass, getSpeedLimitSettings, setFallbackLimit } from './speedLimits';
+import { SCORE_VERSION } from './scoring';
+import { rescoreTrips } from './rescoring';
+import { syncTrips } from './syncEngine';
+import { getUnlockedAchievements, restoreUnlockedAchievements } from './achievements';
+import { BackupContents, BackupSettings, sealArchive } from './backupArchive';
+
+// Preferences the screens keep under their own keys
+const USERNAME_KEY = 'driveiq_username';
+const DARK_MODE_KEY = 'driveiq_dark_mode';
+const WELCOME_SHOWN_KEY = 'driveiq_welcome_shown';
+
+const LOAD_BATCH_SIZE = 50;
+
+export type RestoreMode = 'merge' | 'replace';
+
+export type BackupResult = { ok: true; trips: number } | { ok: false; reason: 'unavailable' | 'failed' };
+
+export type RestoreResult =
+  | { ok: true; added: number; kept: number }
+  | { ok: false; reason: 'busy' | 'failed' };
+
+async function readSettings(): Promise<BackupSettings> {
+  const [username, darkMode, welcomeShown] = await Promise.all([
+    AsyncStorage.getItem(USERNAME_KEY),
+    AsyncStorage.getItem(DARK_MODE_KEY),
+    AsyncStorage.getItem(WELCOME_SHOWN_KEY),
+  ]);
+  return {
+    autoTrip: await getAutoTripSettings(),
+    autoPause: await getAutoPauseSettings(),
+    speedLimits: await getSpeedLimitSettings(),
+    ...(username ? { username } : {}),
+    ...(darkMode !== null ? { darkMode: darkMode === 'true' } : {}),
+    ...(welcomeShown !== null ? { welcomeShown: welcomeShown === 'true' } : {}),
+  };
+}
+
+// Everything a backup holds, read a batch of trips at a time
+async function readContents(): Promise<BackupContents> {
+  const ids = await listLocalTripIds();
+  const contents: BackupContents = {
+    deviceId: await getDeviceId(),
+    trips: [],
+    routes: {},
+    settings: await readSettings(),
+    achievements: await getUnlockedAchievements(),
+  };
+  for (let i = 0; i < ids.length; i += LOAD_BATCH_SIZE) {
+    const trips = await loadLocalTrips(ids.slice(i, i + LOAD_BATCH_SIZE));
+    contents.trips.push(...trips);
+    Object.assign(contents.routes, await readStoredRoutes(trips.map((t) => t.route_key || '').filter(Boolean)));
+  }
+  return contents;
+}
+
+// Write a backup, encrypted when a passphrase is given, and open the
+// share sheet so it can be saved off the phone
+export async function shareBackup(passphrase?: string): Promise<BackupResult> {
+  if (!(await Sharing.isAvailableAsync()) || !FileSystem.cacheDirectory) {
+    return { ok: false, reason: 'unavailable' };
+  }
+
+  try {
+    const contents = await readContents();
+    const createdAt = new Date().toISOString();
+    const text = sealArchive(
+      contents,
+      createdAt,
+      passphrase
+        ? { passphrase, salt: Crypto.getRandomBytes(16), iv: Crypto.getRandomBytes(16) }
+        : undefined
+    );
+    const uri = `${FileSystem.cacheDirectory}driveiq_backup_${createdAt.slice(0, 10)}.json`;
+    await FileSystem.writeAsStringAsync(uri, text);
+    await Sharing.shareAsync(uri, { mimeType: 'application/json', dialogTitle: 'DriveIQ' });
+    console.log(`[Backup] Shared backup of ${contents.trips.length} trips`);
+    return { ok: true, trips: contents.trips.length };
+  } catch (error) {
+    console.error('[Backup] Backup failed:', error);
+    return { ok: false, reason: 'failed' };
+  }
+}
+
+// Let the user pick a backup file. Resolves to its text, or null when
+// the picker is cancelled.
+export async function pickBackupFile(): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/json', 'application/octet-stream', 'text/plain'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return null;
+  return FileSystem.readAsStringAsync(result.assets[0].uri);
+}
+
+async function restoreSettings(settings: BackupSettings): Promise<void> {
+  if (settings.autoPause) {
+    await setAutoPauseSettings(settings.autoPause);
+  }
+  for (const [roadClass, limit] of Object.entries(settings.speedLimits?.fallbackKmh || {})) {
+    await setFallbackLimit(roadClass as RoadClass, limit);
+  }
+  if (settings.username !== undefined) {
+    await AsyncStorage.setItem(USERNAME_KEY, settings.username);
+  }
+  if (settings.darkMode !== undefined) {
+    await AsyncStorage.setItem(DARK_MODE_KEY, String(settings.darkMode));
+  }
+  if (settings.welcomeShown !== undefined) {
+    await AsyncStorage.setItem(WELCOME_SHOWN_KEY, String(settings.welcomeShown));
+  }
+  if (settings.autoTrip) {
+    // Turning auto trips on starts the background task, which needs the
+    // location permission this phone may not have granted yet
+    try {
+      await setAutoTripSettings(settings.autoTrip);
+    } catch (error) {
+      console.error('[Backup] Could not restore auto trip settings:', error);
+    }
+  }
+}
+
+// Restore an opened archive. Merging adds the trips and achievements
+// this phone doesn't have and leaves settings alone; replacing swaps in
+// the archive's trips, achievements, settings and device id, and
+// deletes the replaced trips from the server on the next sync. Refused
+// while a trip is being recorded.
+export async function restoreBackup(contents: BackupContents, mode: RestoreMode): Promise<RestoreResult> {
+  if (await getActiveTrip()) {
+    return { ok: false, reason: 'busy' };
+  }
+
+  try {
+    const written = await restoreLocalTrips(contents.trips, contents.routes, mode === 'replace');
+    await restoreUnlockedAchievements(contents.achievements, mode === 'replace');
+    if (mode === 'replace') {
+      await restoreSettings(contents.settings);
+      if (contents.deviceId) {
+        await setDeviceId(contents.deviceId);
+      }
+    }
+    console.log(`[Backup] Restored ${written.length} of ${contents.trips.length} trips (${mode})`);
+
+    // Trips from an older app are brought up to the current model
+    if (written.some((t) => (t.score_version ?? 1) < SCORE_VERSION)) {
+      rescoreTrips();
+    }
+    syncTrips();
+    return { ok: true, added: written.length, kept: contents.trips.length - written.length };
+  } catch (error) {
+    console.error('[Backup] Restore failed:', error);
+    return { ok: false, reason: 'failed' };
+  }
+}
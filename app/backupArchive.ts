@@ -0,0 +1,306 @@
+// ============================================
+// Backup Archive
+// The format of a full backup: trips, their stored routes, the device
+// id, settings and unlocked achievements in one versioned JSON file,
+// optionally encrypted with a passphrase. Pure functions only; reading
+// and writing the app's data is in backup.ts.
+// ============================================
+
+import CryptoJS from 'crypto-js';
+import { SCHEMA_VERSION, Trip, validateTrip } from './storage';
+import type { AutoTripSettings } from './autoTrip';
+import type { AutoPauseSettings } from './autoPause';
+import type { RoadClass, SpeedLimitSettings } from './speedLimits';
+import { ACHIEVEMENT_IDS, UnlockedAchievements } from './achievements';
+
+export const BACKUP_FORMAT = 'driveiq-backup';
+
+// Bump together with a new entry in MIGRATIONS
+export const BACKUP_VERSION = 2;
+
+// Stored in the archive, so it can be raised without breaking old ones
+const PBKDF2_ITERATIONS = 10000;
+
+export interface BackupSettings {
+  autoTrip?: AutoTripSettings;
+  autoPause?: AutoPauseSettings;
+  speedLimits?: SpeedLimitSettings;
+  username?: string;
+  darkMode?: boolean;
+  welcomeShown?: boolean;
+}
+
+export interface BackupContents {
+  deviceId: string | null;
+  trips: Trip[];
+  routes: Record<string, string>; // route key -> stored route
+  settings: BackupSettings;
+  achievements: UnlockedAchievements;
+}
+
+interface EncryptionHeader {
+  kdf: 'pbkdf2-sha256';
+  iterations: number;
+  salt: string; // hex
+  iv: string; // hex
+  mac: string; // hex HMAC-SHA256 of `iv.ciphertext`
+}
+
+interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  schemaVersion: number; // storage schema of the app that wrote it
+  contents?: BackupContents;
+  encryption?: EncryptionHeader;
+  ciphertext?: string; // base64 of the encrypted contents JSON
+}
+
+export type OpenResult =
+  | { ok: true; contents: BackupContents; createdAt: string | null; version: number; rejectedTrips: number }
+  | { ok: false; reason: 'not_backup' | 'newer_version' | 'needs_passphrase' | 'wrong_passphrase' | 'invalid' };
+
+// ============================================
+// Migrations
+// Each one turns contents of `version - 1` into `version`. Version 0 is
+// the bare trip list the app kept under driveiq_offline_trips before
+// storage schema v3, which is how trips were copied off a phone before
+// backups existed.
+// ============================================
+
+// Steps only reshape what they are given; validateContents checks the
+// result once every step has run
+interface ArchiveMigration {
+  version: number;
+  description: string;
+  migrate: (contents: unknown) => unknown;
+}
+
+const MIGRATIONS: ArchiveMigration[] = [
+  {
+    version: 1,
+    description: 'Wrap a bare trip list',
+    migrate: (trips) => ({ deviceId: null, trips, routes: {}, settings: {} }),
+  },
+  {
+    version: 2,
+    description: 'Add unlocked achievements',
+    migrate: (contents) => (isObject(contents) ? { ...contents, achievements: {} } : contents),
+  },
+];
+
+function migrateContents(contents: unknown, from: number): unknown {
+  return MIGRATIONS.filter((m) => m.version > from).reduce((current, m) => m.migrate(current), contents);
+}
+
+// ============================================
+// Encryption
+// PBKDF2 stretches the passphrase into an AES-256-CBC key and a separate
+// HMAC key, so a wrong passphrase is told apart from a damaged file.
+// ============================================
+
+const bytesToHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+function deriveKeys(passphrase: string, saltHex: string, iterations: number) {
+  const key = CryptoJS.PBKDF2(passphrase, CryptoJS.enc.Hex.parse(saltHex), {
+    keySize: 512 / 32,
+    iterations,
+    hasher: CryptoJS.algo.SHA256,
+  });
+  return {
+    encryption: CryptoJS.lib.WordArray.create(key.words.slice(0, 8)),
+    mac: CryptoJS.lib.WordArray.create(key.words.slice(8, 16)),
+  };
+}
+
+const macOf = (ivHex: string, ciphertext: string, key: CryptoJS.lib.WordArray) =>
+  CryptoJS.HmacSHA256(`${ivHex}.${ciphertext}`, key).toString(CryptoJS.enc.Hex);
+
+function encrypt(plaintext: string, passphrase: string, salt: Uint8Array, iv: Uint8Array) {
+  const header = { kdf: 'pbkdf2-sha256' as const, iterations: PBKDF2_ITERATIONS, salt: bytesToHex(salt), iv: bytesToHex(iv) };
+  const keys = deriveKeys(passphrase, header.salt, header.iterations);
+  const ciphertext = CryptoJS.AES.encrypt(plaintext, keys.encryption, {
+    iv: CryptoJS.enc.Hex.parse(header.iv),
+    mode: CryptoJS.mode.CBC,
+    padding: CryptoJS.pad.Pkcs7,
+  }).ciphertext.toString(CryptoJS.enc.Base64);
+  return { encryption: { ...header, mac: macOf(header.iv, ciphertext, keys.mac) }, ciphertext };
+}
+
+// Looks at every character, so the time taken doesn't tell how much of
+// a forged MAC was right
+function equalInConstantTime(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+// Null when the passphrase is wrong or the data was altered
+function decrypt(header: EncryptionHeader, ciphertext: string, passphrase: string): string | null {
+  const keys = deriveKeys(passphrase, header.salt, header.iterations);
+  if (typeof header.mac !== 'string' || !equalInConstantTime(macOf(header.iv, ciphertext, keys.mac), header.mac)) {
+    return null;
+  }
+  const params = CryptoJS.lib.CipherParams.create({ ciphertext: CryptoJS.enc.Base64.parse(ciphertext) });
+  return CryptoJS.AES.decrypt(params, keys.encryption, {
+    iv: CryptoJS.enc.Hex.parse(header.iv),
+    mode: CryptoJS.mode.CBC,
+    padding: CryptoJS.pad.Pkcs7,
+  }).toString(CryptoJS.enc.Utf8);
+}
+
+// ============================================
+// Validation
+// Trips go through the same checks as stored records; bad ones are
+// counted and dropped. Malformed settings are dropped one by one.
+// ============================================
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+function validateSettings(value: unknown): BackupSettings {
+  const settings: BackupSettings = {};
+  if (!isObject(value)) return settings;
+
+  const { autoTrip, autoPause, speedLimits } = value;
+  if (isObject(autoTrip) && typeof autoTrip.enabled === 'boolean' && isPositive(autoTrip.stationaryTimeoutMinutes)) {
+    settings.autoTrip = { enabled: autoTrip.enabled, stationaryTimeoutMinutes: autoTrip.stationaryTimeoutMinutes };
+  }
+  if (isObject(autoPause) && typeof autoPause.enabled === 'boolean' && isPositive(autoPause.stationaryMinutes)) {
+    settings.autoPause = { enabled: autoPause.enabled, stationaryMinutes: autoPause.stationaryMinutes };
+  }
+  if (isObject(speedLimits) && isObject(speedLimits.fallbackKmh)) {
+    const fallbackKmh = Object.fromEntries(
+      Object.entries(speedLimits.fallbackKmh).filter(([, limit]) => isPositive(limit))
+    ) as Record<RoadClass, number>;
+    settings.speedLimits = { fallbackKmh };
+  }
+  if (typeof value.username === 'string' && value.username.trim().length > 0) {
+    settings.username = value.username;
+  }
+  if (typeof value.darkMode === 'boolean') {
+    settings.darkMode = value.darkMode;
+  }
+  if (typeof value.welcomeShown === 'boolean') {
+    settings.welcomeShown = value.welcomeShown;
+  }
+  return settings;
+}
+
+const isDateString = (value: unknown): value is string => typeof value === 'string' && !isNaN(Date.parse(value));
+
+function validateAchievements(value: unknown): UnlockedAchievements {
+  const achievements: UnlockedAchievements = {};
+  if (!isObject(value)) return achievements;
+  for (const id of ACHIEVEMENT_IDS) {
+    if (isDateString(value[id])) achievements[id] = value[id];
+  }
+  return achievements;
+}
+
+function validateContents(value: unknown): { contents: BackupContents; rejectedTrips: number } | null {
+  if (!isObject(value) || !Array.isArray(value.trips)) return null;
+
+  const trips: Trip[] = [];
+  let rejectedTrips = 0;
+  for (const record of value.trips) {
+    const result = validateTrip(record);
+    if ('trip' in result) {
+      trips.push(result.trip);
+    } else {
+      rejectedTrips++;
+    }
+  }
+
+  const routeKeys = new Set(trips.map((t) => t.route_key).filter(Boolean));
+  const routes: Record<string, string> = {};
+  if (isObject(value.routes)) {
+    for (const [key, route] of Object.entries(value.routes)) {
+      if (routeKeys.has(key) && typeof route === 'string') routes[key] = route;
+    }
+  }
+
+  return {
+    contents: {
+      deviceId: typeof value.deviceId === 'string' && value.deviceId.length > 0 ? value.deviceId : null,
+      trips,
+      routes,
+      settings: validateSettings(value.settings),
+      achievements: validateAchievements(value.achievements),
+    },
+    rejectedTrips,
+  };
+}
+
+// ============================================
+// Reading and writing
+// ============================================
+
+// The archive text for `contents`. With a passphrase, `salt` (16 bytes)
+// and `iv` (16 bytes) must come from a secure random source.
+export function sealArchive(
+  contents: BackupContents,
+  createdAt: string,
+  encryption?: { passphrase: string; salt: Uint8Array; iv: Uint8Array }
+): string {
+  const archive: BackupArchive = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt,
+    schemaVersion: SCHEMA_VERSION,
+  };
+  if (encryption) {
+    Object.assign(archive, encrypt(JSON.stringify(contents), encryption.passphrase, encryption.salt, encryption.iv));
+  } else {
+    archive.contents = contents;
+  }
+  return JSON.stringify(archive);
+}
+
+// Parse, decrypt, migrate and validate an archive
+export function openArchive(text: string, passphrase?: string): OpenResult {
+  let archive: unknown;
+  try {
+    archive = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, reason: 'not_backup' };
+  }
+
+  let version: number;
+  let createdAt: string | null = null;
+  let contents: unknown;
+  if (Array.isArray(archive)) {
+    version = 0;
+    contents = archive;
+  } else if (isObject(archive) && archive.format === BACKUP_FORMAT && Number.isInteger(archive.version)) {
+    version = archive.version;
+    createdAt = typeof archive.createdAt === 'string' ? archive.createdAt : null;
+    if (version > BACKUP_VERSION) {
+      return { ok: false, reason: 'newer_version' };
+    }
+    if (isObject(archive.encryption)) {
+      if (!passphrase) return { ok: false, reason: 'needs_passphrase' };
+      if (typeof archive.ciphertext !== 'string') return { ok: false, reason: 'invalid' };
+      const plaintext = decrypt(archive.encryption as EncryptionHeader, archive.ciphertext, passphrase);
+      if (plaintext === null) return { ok: false, reason: 'wrong_passphrase' };
+      try {
+        contents = JSON.parse(plaintext);
+      } catch (error) {
+        return { ok: false, reason: 'invalid' };
+      }
+    } else {
+      contents = archive.contents;
+    }
+  } else {
+    return { ok: false, reason: 'not_backup' };
+  }
+
+  const validated = validateContents(migrateContents(contents, version));
+  if (!validated) return { ok: false, reason: 'invalid' };
+  return { ok: true, version, createdAt, ...validated };
+}
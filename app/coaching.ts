@@ -0,0 +1,195 @@
+// ============================================
+// Coaching
+// Explains a score: which event cost the most, how the trip compares
+// with the driver's own recent ones, and what to work on next. Tips
+// are picked from the event pattern behind the categories that lost
+// the most points; the screens turn them into text.
+// ============================================
+
+import type { TripEvent } from './tripAnalysis';
+import {
+  SCORE_CATEGORIES,
+  ScoreBreakdown,
+  ScoreCategory,
+  ScoringInput,
+  scoreTrip,
+  speedingWeight,
+  tripScoringInput,
+} from './scoring';
+import { Trip, queryTrips } from './tripRepository';
+
+export const COMPARISON_DAYS = 30;
+
+// Categories that lost less than this aren't worth a tip
+const MIN_TIP_POINTS = 1;
+const MAX_TIPS = 2;
+// A hard brake this soon after speeding counts as braking for it
+const BRAKE_AFTER_SPEEDING_MS = 20000;
+const SUSTAINED_SPEEDING_MS = 60000;
+
+export type CoachingTipId =
+  | 'brake_after_speeding'
+  | 'hard_brakes'
+  | 'hard_accelerations'
+  | 'harsh_cornering'
+  | 'phone_handling'
+  | 'speeding_sustained'
+  | 'speeding_zone'
+  | 'night'
+  | 'smooth_driving';
+
+export interface CoachingTip {
+  id: CoachingTipId;
+  category: ScoreCategory | null; // null for praise
+  lost: number; // points lost in the category
+  count: number; // events the tip is about
+  limitKmh?: number; // speeding_zone only
+}
+
+export interface WorstMoment {
+  event: TripEvent;
+  lost: number; // points the score would gain without it
+}
+
+export interface RecentComparison {
+  trips: number;
+  averageScore: number;
+  averageBreakdown: ScoreBreakdown | null; // null until a trip has one
+}
+
+const pointsLost = (input: ScoringInput) => {
+  const { breakdown } = scoreTrip(input);
+  return SCORE_CATEGORIES.reduce((sum, category) => sum + breakdown[category], 0);
+};
+
+// The event that cost the most points. Categories saturate, so this is
+// measured by scoring the trip without each event in turn.
+export function findWorstMoment(trip: Trip): WorstMoment | null {
+  const input = tripScoringInput(trip);
+  const total = pointsLost(input);
+  let worst: WorstMoment | null = null;
+
+  for (let i = 0; i < input.events.length; i++) {
+    const lost = total - pointsLost({ ...input, events: input.events.filter((_, j) => j !== i) });
+    if (!worst || lost > worst.lost) {
+      worst = { event: input.events[i], lost };
+    }
+  }
+  return worst && { ...worst, lost: Math.round(worst.lost * 10) / 10 };
+}
+
+function tipFor(category: ScoreCategory, lost: number, events: TripEvent[]): CoachingTip {
+  const brakes = events.filter((e) => e.type === 'hard_brake');
+  const accelerations = events.filter((e) => e.type === 'hard_acceleration');
+  const speeding = events.filter((e) => e.type === 'speeding');
+  const corners = events.filter((e) => e.type === 'harsh_cornering');
+
+  if (category === 'smoothness') {
+    const afterSpeeding = brakes.filter((brake) =>
+      speeding.some((s) => {
+        const end = s.timestamp + s.durationMs;
+        return brake.timestamp >= end && brake.timestamp - end <= BRAKE_AFTER_SPEEDING_MS;
+      })
+    );
+    if (afterSpeeding.length > 0 && afterSpeeding.length * 2 >= brakes.length) {
+      return { id: 'brake_after_speeding', category, lost, count: afterSpeeding.length };
+    }
+    if (corners.length > brakes.length && corners.length > accelerations.length) {
+      return { id: 'harsh_cornering', category, lost, count: corners.length };
+    }
+    return brakes.length >= accelerations.length
+      ? { id: 'hard_brakes', category, lost, count: brakes.length }
+      : { id: 'hard_accelerations', category, lost, count: accelerations.length };
+  }
+
+  if (category === 'distraction') {
+    return {
+      id: 'phone_handling',
+      category,
+      lost,
+      count: events.filter((e) => e.type === 'phone_handling').length,
+    };
+  }
+
+  if (category === 'speeding') {
+    const sustained = speeding.filter((e) => e.durationMs >= SUSTAINED_SPEEDING_MS);
+    if (sustained.length * 2 >= speeding.length) {
+      return { id: 'speeding_sustained', category, lost, count: sustained.length };
+    }
+    // The limit the driver spent the most weighted time over
+    const byLimit = new Map<number, number>();
+    speeding.forEach((e) => {
+      if (e.limitKmh !== undefined) {
+        byLimit.set(e.limitKmh, (byLimit.get(e.limitKmh) || 0) + speedingWeight(e));
+      }
+    });
+    const [limitKmh] = [...byLimit.entries()].sort((a, b) => b[1] - a[1])[0] || [];
+    return {
+      id: 'speeding_zone',
+      category,
+      lost,
+      count: limitKmh !== undefined ? speeding.filter((e) => e.limitKmh === limitKmh).length : speeding.length,
+      limitKmh,
+    };
+  }
+
+  return { id: 'night', category, lost, count: 0 };
+}
+
+// Up to two tips for the categories that lost the most, or praise when
+// none lost enough to matter
+export function getCoachingTips(breakdown: ScoreBreakdown, events: TripEvent[]): CoachingTip[] {
+  const tips = [...SCORE_CATEGORIES]
+    .sort((a, b) => breakdown[b] - breakdown[a])
+    .filter((category) => breakdown[category] >= MIN_TIP_POINTS)
+    .slice(0, MAX_TIPS)
+    .map((category) => tipFor(category, breakdown[category], events));
+
+  return tips.length > 0 ? tips : [{ id: 'smooth_driving', category: null, lost: 0, count: 0 }];
+}
+
+// Replayed trips say nothing about how the driver drives
+async function loadRecentTrips(): Promise<Trip[]> {
+  const trips = await queryTrips({ from: Date.now() - COMPARISON_DAYS * 86400000 });
+  return trips.filter((t) => !t.simulated);
+}
+
+function compare(trips: Trip[]): RecentComparison | null {
+  if (trips.length === 0) {
+    return null;
+  }
+  const scored = trips.filter((t) => t.score_breakdown);
+  const averageBreakdown = scored.length > 0
+    ? SCORE_CATEGORIES.reduce((avg, category) => {
+        avg[category] = scored.reduce((sum, t) => sum + t.score_breakdown![category], 0) / scored.length;
+        return avg;
+      }, {} as ScoreBreakdown)
+    : null;
+
+  return {
+    trips: trips.length,
+    averageScore: trips.reduce((sum, t) => sum + t.score, 0) / trips.length,
+    averageBreakdown,
+  };
+}
+
+// The driver's average over the last COMPARISON_DAYS, leaving out the
+// trip being compared
+export async function getRecentComparison(excludeId?: string): Promise<RecentComparison | null> {
+  const trips = await loadRecentTrips();
+  return compare(trips.filter((t) => t.id !== excludeId));
+}
+
+// Tips for the driver's recent trips as a whole, ranked by the average
+// points lost per trip
+export async function getRecentCoaching(): Promise<CoachingTip[]> {
+  const trips = await loadRecentTrips();
+  const comparison = compare(trips);
+  if (!comparison || !comparison.averageBreakdown) {
+    return [];
+  }
+  return getCoachingTips(
+    comparison.averageBreakdown,
+    trips.flatMap((t) => t.events || [])
+  );
+}
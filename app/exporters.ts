@@ -0,0 +1,237 @@
+// ============================================
+// Exporters
+// Pure functions turning trips and their routes into GPX, KML and CSV
+// text. No storage or sharing here (see tripExport.ts), so the output
+// depends only on the input and can be compared with known files.
+// ============================================
+
+import type { Trip } from './storage';
+import type { RoutePoint } from './routeStore';
+import type { TripEvent } from './tripAnalysis';
+
+export type ExportFormat = 'gpx' | 'kml' | 'csv_trips' | 'csv_fixes';
+
+export interface ExportTrip {
+  trip: Trip;
+  route: RoutePoint[]; // empty for trips whose route isn't on this device
+}
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  csv_trips: 'text/csv',
+  csv_fixes: 'text/csv',
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  gpx: 'gpx',
+  kml: 'kml',
+  csv_trips: 'csv',
+  csv_fixes: 'csv',
+};
+
+const EVENT_NAMES: Record<TripEvent['type'], string> = {
+  hard_brake: 'Hard brake',
+  hard_acceleration: 'Hard acceleration',
+  speeding: 'Speeding',
+  harsh_cornering: 'Harsh cornering',
+  phone_handling: 'Phone handling',
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Quoted only when it has to be, per RFC 4180
+const csvField = (value: string | number | boolean | null | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (values: (string | number | boolean | null | undefined)[]) => values.map(csvField).join(',');
+
+const iso = (timestamp: number) => new Date(timestamp).toISOString();
+
+const tripName = (trip: Trip) => `DriveIQ trip ${trip.start_time.slice(0, 16).replace('T', ' ')}`;
+
+// `driveiq_<first day>[_<last day>].<ext>`, by the trips' start dates in UTC
+export function exportFileName(format: ExportFormat, trips: Trip[]): string {
+  const days = trips.map((t) => t.start_time.slice(0, 10)).sort();
+  const range = days.length === 0
+    ? 'empty'
+    : days[0] === days[days.length - 1] ? days[0] : `${days[0]}_${days[days.length - 1]}`;
+  return `driveiq_${range}.${EXTENSIONS[format]}`;
+}
+
+// GPX 1.1, one track per trip. Speed (m/s) and course go in the Garmin
+// TrackPointExtension that most tools read.
+export function toGpx(trips: ExportTrip[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="DriveIQ" xmlns="http://www.topografix.com/GPX/1/1"' +
+      ' xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2">',
+  ];
+  for (const { trip, route } of trips) {
+    if (route.length === 0) continue;
+    lines.push('  <trk>');
+    lines.push(`    <name>${escapeXml(tripName(trip))}</name>`);
+    lines.push(`    <desc>Score ${trip.score}, ${trip.distance_km.toFixed(2)} km</desc>`);
+    lines.push('    <trkseg>');
+    for (const point of route) {
+      lines.push(`      <trkpt lat="${point.latitude}" lon="${point.longitude}">`);
+      lines.push(`        <time>${iso(point.timestamp)}</time>`);
+      if (point.speed !== null || point.heading !== null) {
+        lines.push('        <extensions><gpxtpx:TrackPointExtension>');
+        if (point.speed !== null) {
+          lines.push(`          <gpxtpx:speed>${point.speed}</gpxtpx:speed>`);
+        }
+        if (point.heading !== null) {
+          lines.push(`          <gpxtpx:course>${point.heading}</gpxtpx:course>`);
+        }
+        lines.push('        </gpxtpx:TrackPointExtension></extensions>');
+      }
+      lines.push('      </trkpt>');
+    }
+    lines.push('    </trkseg>');
+    lines.push('  </trk>');
+  }
+  lines.push('</gpx>');
+  return lines.join('\n') + '\n';
+}
+
+const describeEvent = (event: TripEvent) =>
+  [
+    `${iso(event.timestamp)}`,
+    `${event.speed} km/h`,
+    `${(event.durationMs / 1000).toFixed(1)} s`,
+    event.peakG !== undefined ? `${event.peakG.toFixed(2)} g` : null,
+    event.limitKmh !== undefined ? `limit ${event.limitKmh} km/h` : null,
+    event.overshootKmh !== undefined ? `+${Math.round(event.overshootKmh)} km/h` : null,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+// KML 2.2, a folder per trip holding the route line and a placemark per
+// driving event
+export function toKml(trips: ExportTrip[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    '  <name>DriveIQ</name>',
+    '  <Style id="route"><LineStyle><color>ffcc6600</color><width>4</width></LineStyle></Style>',
+    '  <Style id="event"><IconStyle><color>ff4444ef</color></IconStyle></Style>',
+  ];
+  for (const { trip, route } of trips) {
+    if (route.length === 0) continue;
+    lines.push('  <Folder>');
+    lines.push(`    <name>${escapeXml(tripName(trip))}</name>`);
+    lines.push('    <Placemark>');
+    lines.push('      <name>Route</name>');
+    lines.push(`      <description>Score ${trip.score}, ${trip.distance_km.toFixed(2)} km</description>`);
+    lines.push(`      <TimeSpan><begin>${trip.start_time}</begin><end>${trip.end_time}</end></TimeSpan>`);
+    lines.push('      <styleUrl>#route</styleUrl>');
+    lines.push('      <LineString><tessellate>1</tessellate><coordinates>');
+    lines.push(route.map((p) => `${p.longitude},${p.latitude},0`).join(' '));
+    lines.push('      </coordinates></LineString>');
+    lines.push('    </Placemark>');
+    for (const event of trip.events || []) {
+      lines.push('    <Placemark>');
+      lines.push(`      <name>${EVENT_NAMES[event.type]}</name>`);
+      lines.push(`      <description>${escapeXml(describeEvent(event))}</description>`);
+      lines.push(`      <TimeStamp><when>${iso(event.timestamp)}</when></TimeStamp>`);
+      lines.push('      <styleUrl>#event</styleUrl>');
+      lines.push(`      <Point><coordinates>${event.longitude},${event.latitude},0</coordinates></Point>`);
+      lines.push('    </Placemark>');
+    }
+    lines.push('  </Folder>');
+  }
+  lines.push('</Document>');
+  lines.push('</kml>');
+  return lines.join('\n') + '\n';
+}
+
+const TRIP_COLUMNS = [
+  'id',
+  'start_time',
+  'end_time',
+  'distance_km',
+  'duration_minutes',
+  'moving_minutes',
+  'max_speed_kmh',
+  'avg_speed_kmh',
+  'score',
+  'score_version',
+  'hard_brakes',
+  'hard_accelerations',
+  'speeding_count',
+  'harsh_cornering_count',
+  'phone_handling_count',
+  'night_minutes',
+  'auto_started',
+];
+
+// One row per trip
+export function toTripsCsv(trips: Trip[]): string {
+  const rows = [TRIP_COLUMNS.join(',')];
+  for (const trip of trips) {
+    rows.push(csvRow([
+      trip.id,
+      trip.start_time,
+      trip.end_time,
+      trip.distance_km,
+      trip.duration_minutes,
+      trip.moving_minutes,
+      trip.max_speed,
+      trip.avg_speed,
+      trip.score,
+      trip.score_version ?? 1,
+      trip.hard_brakes,
+      trip.hard_accelerations,
+      trip.speeding_count,
+      trip.harsh_cornering_count,
+      trip.phone_handling_count,
+      trip.night_minutes,
+      trip.auto_started === true,
+    ]));
+  }
+  return rows.join('\r\n') + '\r\n';
+}
+
+const FIX_COLUMNS = ['trip_id', 'timestamp', 'latitude', 'longitude', 'speed_kmh', 'accuracy_m', 'heading'];
+
+// One row per recorded fix, across all trips
+export function toFixesCsv(trips: ExportTrip[]): string {
+  const rows = [FIX_COLUMNS.join(',')];
+  for (const { trip, route } of trips) {
+    for (const point of route) {
+      rows.push(csvRow([
+        trip.id,
+        iso(point.timestamp),
+        point.latitude,
+        point.longitude,
+        point.speed === null ? null : Math.round(point.speed * 36) / 10,
+        point.accuracy,
+        point.heading,
+      ]));
+    }
+  }
+  return rows.join('\r\n') + '\r\n';
+}
+
+export function exportTrips(format: ExportFormat, trips: ExportTrip[]): string {
+  switch (format) {
+    case 'gpx':
+      return toGpx(trips);
+    case 'kml':
+      return toKml(trips);
+    case 'csv_trips':
+      return toTripsCsv(trips.map((t) => t.trip));
+    case 'csv_fixes':
+      return toFixesCsv(trips);
+  }
+}
@@ -0,0 +1,61 @@
+// ============================================
+// GPX
+// Reads track points out of a GPX file as fixes. Only the parts of the
+// format a phone or a GPS logger writes are understood: <trkpt> and
+// <rtept> with a <time>, plus speed and course where the logger adds
+// them. Points without a time can't be replayed and are skipped.
+// ============================================
+
+import type { Fix } from './tripAnalysis';
+
+const TRACK_PATTERN = /<trk\b[^>]*>([\s\S]*?)<\/trk>/g;
+const POINT_PATTERN = /<(trkpt|rtept)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+
+const attribute = (attributes: string, name: string) => {
+  const match = new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`).exec(attributes);
+  return match ? parseFloat(match[1]) : NaN;
+};
+
+// The first element with this local name, namespaced or not
+const element = (body: string, name: string) => {
+  const match = new RegExp(`<(?:\\w+:)?${name}>\\s*([^<]*?)\\s*</(?:\\w+:)?${name}>`).exec(body);
+  return match ? match[1] : null;
+};
+
+const optionalNumber = (value: string | null) => {
+  const parsed = value === null ? NaN : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Fixes in time order
+export function parseGpx(xml: string): Fix[] {
+  const fixes: Fix[] = [];
+  for (const match of xml.matchAll(POINT_PATTERN)) {
+    const [, , attributes, body = ''] = match;
+    const latitude = attribute(attributes, 'lat');
+    const longitude = attribute(attributes, 'lon');
+    const time = element(body, 'time');
+    const timestamp = time ? new Date(time).getTime() : NaN;
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || !Number.isFinite(timestamp)) {
+      continue;
+    }
+    const hdop = optionalNumber(element(body, 'hdop'));
+    fixes.push({
+      timestamp,
+      latitude,
+      longitude,
+      speed: optionalNumber(element(body, 'speed')), // m/s in GPX 1.0 and the Garmin extensions
+      accuracy: hdop === null ? null : hdop * 5, // a rough metres figure
+      heading: optionalNumber(element(body, 'course')),
+    });
+  }
+  return fixes.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// One fix list per <trk>, for files holding several trips (DriveIQ's
+// own GPX export writes a track per trip). A file without tracks gives
+// its route points as a single list.
+export function parseGpxTracks(xml: string): Fix[][] {
+  const tracks = [...xml.matchAll(TRACK_PATTERN)].map((match) => parseGpx(match[1]));
+  return tracks.length > 0 ? tracks : [parseGpx(xml)];
+}
@@ -0,0 +1,115 @@
+// ============================================
+// Importers
+// Pure functions turning imported files into fix sequences, one per
+// drive: GPX from any logger, and DriveIQ's own per-fix CSV export.
+// Loggers that record all day write one long track, so tracks are
+// also split wherever the fixes stop for a while.
+// ============================================
+
+import type { Fix } from './tripAnalysis';
+import { parseGpxTracks } from './gpx';
+
+export interface ImportedTrack {
+  label: string; // file name, plus the track's position when it has several
+  fixes: Fix[];
+}
+
+// A gap this long between fixes ends one drive and starts the next
+export const MAX_TRACK_GAP_MS = 10 * 60 * 1000;
+
+const REQUIRED_CSV_COLUMNS = ['trip_id', 'timestamp', 'latitude', 'longitude'];
+
+// Fields of one CSV line, with RFC 4180 quoting
+function csvFields(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+const optionalNumber = (value: string | undefined) => {
+  const parsed = value === undefined || value === '' ? NaN : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// DriveIQ's per-fix CSV, one sequence per trip_id in order of first
+// appearance. Null when the header isn't ours.
+export function parseFixesCsv(text: string): Fix[][] | null {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  if (lines.length === 0) return null;
+  const header = csvFields(lines[0]).map((name) => name.trim());
+  if (!REQUIRED_CSV_COLUMNS.every((name) => header.includes(name))) return null;
+
+  const column = (name: string) => header.indexOf(name);
+  const trips = new Map<string, Fix[]>();
+  for (const line of lines.slice(1)) {
+    const fields = csvFields(line);
+    const timestamp = new Date(fields[column('timestamp')]).getTime();
+    const latitude = optionalNumber(fields[column('latitude')]);
+    const longitude = optionalNumber(fields[column('longitude')]);
+    if (!Number.isFinite(timestamp) || latitude === null || longitude === null) continue;
+
+    const speedKmh = optionalNumber(fields[column('speed_kmh')]);
+    const tripId = fields[column('trip_id')];
+    const fixes = trips.get(tripId) || [];
+    fixes.push({
+      timestamp,
+      latitude,
+      longitude,
+      speed: speedKmh === null ? null : speedKmh / 3.6,
+      accuracy: optionalNumber(fields[column('accuracy_m')]),
+      heading: optionalNumber(fields[column('heading')]),
+    });
+    trips.set(tripId, fixes);
+  }
+  return [...trips.values()].map((fixes) => fixes.sort((a, b) => a.timestamp - b.timestamp));
+}
+
+// Cut a sequence wherever consecutive fixes are more than `maxGapMs` apart
+export function splitAtGaps(fixes: Fix[], maxGapMs = MAX_TRACK_GAP_MS): Fix[][] {
+  const parts: Fix[][] = [];
+  let current: Fix[] = [];
+  for (const fix of fixes) {
+    if (current.length > 0 && fix.timestamp - current[current.length - 1].timestamp > maxGapMs) {
+      parts.push(current);
+      current = [];
+    }
+    current.push(fix);
+  }
+  if (current.length > 0) parts.push(current);
+  return parts;
+}
+
+// The drives in a file, told apart by content rather than extension
+// since pickers often lose it. Null when the format isn't recognised.
+export function parseTrackFile(fileName: string, text: string): ImportedTrack[] | null {
+  const sequences = /<gpx\b/.test(text) ? parseGpxTracks(text) : parseFixesCsv(text);
+  if (!sequences) return null;
+
+  const drives = sequences.flatMap((fixes) => splitAtGaps(fixes));
+  return drives.map((fixes, i) => ({
+    label: drives.length > 1 ? `${fileName} #${i + 1}` : fileName,
+    fixes,
+  }));
+}
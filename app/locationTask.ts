@@ -9,6 +9,41 @@ import * as Location from 'expo-location';
 
 export const LOCATION_TASK_NAME = 'driveiq-location-tracking';
 
+// 'recording' follows a trip closely; 'monitoring' is the low-power mode
+// auto-trip detection uses while waiting for the car to start moving
+export type BackgroundTaskMode = 'recording' | 'monitoring';
+
+const TASK_OPTIONS: Record<BackgroundTaskMode, Location.LocationTaskOptions> = {
+  recording: {
+    accuracy: Location.Accuracy.BestForNavigation,
+    timeInterval: 2000,
+    // No distance filter, so fixes keep arriving while parked and an
+    // auto-started trip can notice it has stopped
+    distanceInterval: 0,
+    showsBackgroundLocationIndicator: true,
+    foregroundService: {
+      notificationTitle: 'DriveIQ - تتبع القيادة',
+      notificationBody: 'جاري تسجيل رحلتك...',
+      notificationColor: '#0066CC',
+    },
+    pausesUpdatesAutomatically: false,
+    activityType: Location.ActivityType.AutomotiveNavigation,
+  },
+  monitoring: {
+    accuracy: Location.Accuracy.Balanced,
+    timeInterval: 15000,
+    distanceInterval: 50,
+    showsBackgroundLocationIndicator: false,
+    foregroundService: {
+      notificationTitle: 'DriveIQ - التسجيل التلقائي',
+      notificationBody: 'بانتظار بدء رحلة...',
+      notificationColor: '#0066CC',
+    },
+    pausesUpdatesAutomatically: false,
+    activityType: Location.ActivityType.AutomotiveNavigation,
+  },
+};
+
 // Check if the background task is properly set up
 export async function checkTaskStatus(): Promise<{
   isDefined: boolean;
@@ -53,7 +88,7 @@ export async function stopBackgroundTask(): Promise<void> {
 }
 
 // Start the background location task
-export async function startBackgroundTask(): Promise<boolean> {
+export async function startBackgroundTask(mode: BackgroundTaskMode = 'recording'): Promise<boolean> {
   try {
     const { isDefined } = await checkTaskStatus();
     
@@ -66,21 +101,9 @@ export async function startBackgroundTask(): Promise<boolean> {
     await stopBackgroundTask();
     
     // Start the background location updates
-    await Location.startLocationUpdatesAsync(LOCATION_TASK_NAME, {
-      accuracy: Location.Accuracy.BestForNavigation,
-      timeInterval: 2000,
-      distanceInterval: 5,
-      showsBackgroundLocationIndicator: true,
-      foregroundService: {
-        notificationTitle: 'DriveIQ - تتبع القيادة',
-        notificationBody: 'جاري تسجيل رحلتك...',
-        notificationColor: '#0066CC',
-      },
-      pausesUpdatesAutomatically: false,
-      activityType: Location.ActivityType.AutomotiveNavigation,
-    });
+    await Location.startLocationUpdatesAsync(LOCATION_TASK_NAME, TASK_OPTIONS[mode]);
     
-    console.log('[TaskHelper] Background task started successfully');
+    console.log(`[TaskHelper] Background task started successfully (${mode})`);
     return true;
   } catch (error) {
     console.error('[TaskHelper] Error starting task:', error);
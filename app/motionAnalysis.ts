@@ -0,0 +1,203 @@
+// ============================================
+// Motion Analysis
+// Pure detection of what GPS can't see, from accelerometer and
+// gyroscope samples: harsh cornering and handling the phone while
+// driving. Works whatever way round the phone is mounted by tracking
+// gravity and splitting rotation into yaw (the car turning) and the
+// rest (the phone turning). Recorded traces can be replayed through
+// detectMotionEvents.
+// ============================================
+
+import { Fix, GRAVITY, TripEvent, toKmh } from './tripAnalysis';
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface MotionSample {
+  timestamp: number; // ms since epoch
+  acceleration: Vector3; // g, including gravity, as expo-sensors reports it
+  rotationRate: Vector3; // rad/s
+}
+
+// Where the car is and how fast it's going, from the latest fix
+export interface MotionContext {
+  latitude: number;
+  longitude: number;
+  speedKmh: number;
+}
+
+export interface MotionConfig {
+  harshCorneringG: number; // sideways g-force that counts as harsh
+  minCorneringSpeedKmh: number;
+  minCorneringMs: number; // shorter spikes are bumps, not turns
+  handlingRotationRate: number; // rad/s of rotation other than yaw
+  handlingSpeedKmh: number; // handling below this isn't counted
+  handlingGapMs: number; // rotations closer than this are one event
+  minHandlingMs: number;
+  gravityTimeConstantMs: number; // how quickly the gravity estimate follows the phone
+}
+
+export const DEFAULT_MOTION_CONFIG: MotionConfig = {
+  harshCorneringG: 0.4,
+  minCorneringSpeedKmh: 20,
+  minCorneringMs: 500,
+  handlingRotationRate: 1.5,
+  handlingSpeedKmh: 10,
+  handlingGapMs: 2000,
+  minHandlingMs: 3000,
+  gravityTimeConstantMs: 2000,
+};
+
+export interface MotionDetector {
+  // Feed the next sample; returns the events it completed
+  addSample: (sample: MotionSample, context: MotionContext) => TripEvent[];
+  // The driver brought the app to the screen, which always counts as
+  // handling when the car is moving
+  addInteraction: (timestamp: number, context: MotionContext) => TripEvent[];
+  // Close anything still in progress, e.g. when the trip ends
+  flush: () => TripEvent[];
+}
+
+const dot = (a: Vector3, b: Vector3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const length = (v: Vector3) => Math.sqrt(dot(v, v));
+
+export function createMotionDetector(config: Partial<MotionConfig> = {}): MotionDetector {
+  const settings: MotionConfig = { ...DEFAULT_MOTION_CONFIG, ...config };
+  let gravity: Vector3 | null = null;
+  let lastTimestamp: number | null = null;
+
+  // Manoeuvres in progress, reported once they are known to qualify
+  let corner: TripEvent | null = null;
+  let handling: TripEvent | null = null;
+  let lastHandlingAt = 0;
+  let unlocked = false; // the open handling event includes a screen unlock
+
+  const open = (type: TripEvent['type'], timestamp: number, context: MotionContext): TripEvent => ({
+    type,
+    timestamp,
+    latitude: context.latitude,
+    longitude: context.longitude,
+    speed: Math.round(context.speedKmh),
+    durationMs: 0,
+  });
+
+  const closeCorner = (): TripEvent[] => {
+    const done = corner;
+    corner = null;
+    return done && done.durationMs >= settings.minCorneringMs ? [done] : [];
+  };
+
+  const closeHandling = (): TripEvent[] => {
+    const done = handling;
+    handling = null;
+    const qualifies = done && (unlocked || done.durationMs >= settings.minHandlingMs);
+    unlocked = false;
+    return done && qualifies ? [done] : [];
+  };
+
+  // Start or extend handling at `timestamp`
+  const handle = (timestamp: number, context: MotionContext) => {
+    if (!handling) {
+      handling = open('phone_handling', timestamp, context);
+    }
+    handling.durationMs = timestamp - handling.timestamp;
+    lastHandlingAt = timestamp;
+  };
+
+  const addSample = (sample: MotionSample, context: MotionContext): TripEvent[] => {
+    const completed: TripEvent[] = [];
+    const dt = lastTimestamp === null ? 0 : sample.timestamp - lastTimestamp;
+    if (dt < 0) {
+      return completed;
+    }
+    lastTimestamp = sample.timestamp;
+
+    // Low-pass the accelerometer to find which way is down
+    if (!gravity) {
+      gravity = { ...sample.acceleration };
+    } else {
+      const alpha = dt / (settings.gravityTimeConstantMs + dt);
+      gravity = {
+        x: gravity.x + alpha * (sample.acceleration.x - gravity.x),
+        y: gravity.y + alpha * (sample.acceleration.y - gravity.y),
+        z: gravity.z + alpha * (sample.acceleration.z - gravity.z),
+      };
+    }
+    const g = length(gravity);
+    if (g === 0) {
+      return completed;
+    }
+    const down = { x: gravity.x / g, y: gravity.y / g, z: gravity.z / g };
+
+    // Rotation about the vertical is the car turning; anything else is
+    // the phone moving in its mount or in a hand
+    const yawRate = dot(sample.rotationRate, down);
+    const tiltRate = Math.sqrt(Math.max(0, dot(sample.rotationRate, sample.rotationRate) - yawRate * yawRate));
+
+    if (handling && sample.timestamp - lastHandlingAt > settings.handlingGapMs) {
+      completed.push(...closeHandling());
+    }
+    if (tiltRate >= settings.handlingRotationRate && context.speedKmh >= settings.handlingSpeedKmh) {
+      handle(sample.timestamp, context);
+    }
+
+    // Centripetal acceleration from speed and yaw rate. A phone being
+    // handled turns too, so nothing counts as cornering meanwhile.
+    const lateralG = (context.speedKmh / 3.6) * Math.abs(yawRate) / GRAVITY;
+    if (!handling && lateralG >= settings.harshCorneringG && context.speedKmh >= settings.minCorneringSpeedKmh) {
+      if (!corner) {
+        corner = open('harsh_cornering', sample.timestamp, context);
+      }
+      corner.durationMs = sample.timestamp - corner.timestamp;
+      corner.peakG = Math.max(corner.peakG ?? 0, lateralG);
+    } else if (corner) {
+      completed.push(...closeCorner());
+    }
+
+    return completed;
+  };
+
+  const addInteraction = (timestamp: number, context: MotionContext): TripEvent[] => {
+    if (context.speedKmh < settings.handlingSpeedKmh) {
+      return [];
+    }
+    handle(timestamp, context);
+    unlocked = true;
+    return [];
+  };
+
+  const flush = () => [...closeCorner(), ...closeHandling()];
+
+  return { addSample, addInteraction, flush };
+}
+
+// Replay a recorded trace. Each sample is matched with the latest fix
+// at or before it; samples before the first fix are skipped.
+export function detectMotionEvents(
+  samples: MotionSample[],
+  fixes: Fix[],
+  config: Partial<MotionConfig> = {}
+): TripEvent[] {
+  const detector = createMotionDetector(config);
+  const events: TripEvent[] = [];
+  let next = 0;
+  let fix: Fix | null = null;
+
+  for (const sample of samples) {
+    while (next < fixes.length && fixes[next].timestamp <= sample.timestamp) {
+      fix = fixes[next++];
+    }
+    if (fix) {
+      events.push(...detector.addSample(sample, {
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        speedKmh: toKmh(fix),
+      }));
+    }
+  }
+  events.push(...detector.flush());
+  return events.sort((a, b) => a.timestamp - b.timestamp);
+}
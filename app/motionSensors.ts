@@ -0,0 +1,77 @@
+// ============================================
+// Motion Sensors
+// Runs the accelerometer and gyroscope through a motion detector while
+// a trip records with the app open. The sensors don't run in the
+// background, so stretches driven with the screen off have no motion
+// events; the detection itself lives in motionAnalysis.ts.
+// ============================================
+
+import { Accelerometer, Gyroscope } from 'expo-sensors';
+import type { TripEvent } from './tripAnalysis';
+import { MotionContext, MotionDetector, Vector3, createMotionDetector } from './motionAnalysis';
+
+const SAMPLE_INTERVAL_MS = 50; // 20 Hz
+
+let detector: MotionDetector | null = null;
+let subscriptions: { remove: () => void }[] = [];
+let rotationRate: Vector3 = { x: 0, y: 0, z: 0 };
+
+// Start sampling. `getContext` gives the latest position and speed, or
+// null before the first fix; `onEvents` receives completed events.
+// Resolves to false when the device lacks either sensor.
+export async function startMotionSensors(
+  getContext: () => MotionContext | null,
+  onEvents: (events: TripEvent[]) => void
+): Promise<boolean> {
+  if (detector) return true;
+
+  const [hasAccelerometer, hasGyroscope] = await Promise.all([
+    Accelerometer.isAvailableAsync(),
+    Gyroscope.isAvailableAsync(),
+  ]);
+  if (!hasAccelerometer || !hasGyroscope) {
+    console.warn('[MotionSensors] Accelerometer or gyroscope unavailable');
+    return false;
+  }
+  if (detector) return true;
+
+  detector = createMotionDetector();
+  Accelerometer.setUpdateInterval(SAMPLE_INTERVAL_MS);
+  Gyroscope.setUpdateInterval(SAMPLE_INTERVAL_MS);
+
+  // Each accelerometer reading is paired with the latest gyroscope one
+  subscriptions = [
+    Gyroscope.addListener(({ x, y, z }) => {
+      rotationRate = { x, y, z };
+    }),
+    Accelerometer.addListener(({ x, y, z }) => {
+      const context = getContext();
+      if (!detector || !context) return;
+      const events = detector.addSample(
+        { timestamp: Date.now(), acceleration: { x, y, z }, rotationRate },
+        context
+      );
+      if (events.length > 0) {
+        onEvents(events);
+      }
+    }),
+  ];
+  console.log('[MotionSensors] Started');
+  return true;
+}
+
+// Stop sampling; returns the events that were still in progress
+export function stopMotionSensors(): TripEvent[] {
+  if (!detector) return [];
+  subscriptions.forEach((subscription) => subscription.remove());
+  subscriptions = [];
+  const pending = detector.flush();
+  detector = null;
+  console.log('[MotionSensors] Stopped');
+  return pending;
+}
+
+// The driver opened the app mid-trip
+export function reportInteraction(context: MotionContext): void {
+  detector?.addInteraction(Date.now(), context);
+}
@@ -0,0 +1,207 @@
+// ============================================
+// Re-scoring
+// Brings stored trips up to the current scoring model, or re-scores
+// them all after the speed limits or auto pause change. Trips are
+// re-analysed from their stored route where there is one, otherwise
+// re-scored from their stored events. Each changed trip keeps the
+// score it replaced and is uploaded again. Runs in batches so a long
+// history never sits in memory at once.
+// ============================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PauseSpan, analyzeTrip, isMotionEvent } from './tripAnalysis';
+import { SCORE_VERSION, scoreTrip, tripScoringInput } from './scoring';
+import { loadRoute } from './routeStore';
+import {
+  Trip,
+  listLocalTripIds,
+  loadLocalTrips,
+  tripFromSummary,
+  updateTripBatch,
+} from './tripRepository';
+import { RecordingOptions, loadRecordingOptions } from './tripRecorder';
+import { syncTrips } from './syncEngine';
+
+const RESCORE_STATE_KEY = 'driveiq_rescore_state';
+const DEFAULT_BATCH_SIZE = 20;
+
+export interface RescoreProgress {
+  running: boolean;
+  total: number;
+  done: number;
+  changed: number;
+  skipped: number; // no route and no stored events to score from
+  finishedAt: string | null;
+  error: string | null;
+}
+
+export interface RescoreOptions {
+  force?: boolean; // re-score trips already on the current version
+  batchSize?: number;
+}
+
+let progress: RescoreProgress = {
+  running: false,
+  total: 0,
+  done: 0,
+  changed: 0,
+  skipped: 0,
+  finishedAt: null,
+  error: null,
+};
+const listeners = new Set<(progress: RescoreProgress) => void>();
+let running: Promise<RescoreProgress> | null = null;
+
+function setProgress(patch: Partial<RescoreProgress>) {
+  progress = { ...progress, ...patch };
+  listeners.forEach((listener) => listener(progress));
+}
+
+export const getRescoreProgress = () => progress;
+
+export function subscribeRescoreProgress(listener: (progress: RescoreProgress) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Manual pauses aren't stored as such, but their segments are
+const manualPausesOf = (trip: Trip): PauseSpan[] =>
+  (trip.segments || [])
+    .filter((s) => s.type === 'paused' && s.reason === 'manual')
+    .map((s) => ({ start: s.start, end: s.end }));
+
+// The analysis fields of `trip` recomputed with the current model, or
+// null when there is nothing to compute them from
+async function rescore(trip: Trip, options: RecordingOptions): Promise<Partial<Trip> | null> {
+  const route = trip.route_key ? await loadRoute(trip.route_key) : [];
+
+  if (route.length > 0) {
+    const summary = analyzeTrip(route, {
+      ...options,
+      startTime: new Date(trip.start_time).getTime(),
+      endTime: new Date(trip.end_time).getTime(),
+      pauses: manualPausesOf(trip),
+      // The route can't tell us these, so the stored ones are kept
+      motionEvents: (trip.events || []).filter(isMotionEvent),
+    });
+    const { id, synced, route_key, ...analysis } = tripFromSummary(trip.id, summary, trip.route_key ?? null);
+    return analysis;
+  }
+
+  if (!trip.events) {
+    return null;
+  }
+  // No route: keep the measured numbers and re-weigh the stored events
+  const { score, version, breakdown } = scoreTrip(tripScoringInput(trip));
+  return {
+    score,
+    score_version: version,
+    score_breakdown: breakdown,
+    hard_brakes: trip.events.filter((e) => e.type === 'hard_brake').length,
+    hard_accelerations: trip.events.filter((e) => e.type === 'hard_acceleration').length,
+    speeding_count: trip.events.filter((e) => e.type === 'speeding').length,
+    harsh_cornering_count: trip.events.filter((e) => e.type === 'harsh_cornering').length,
+    phone_handling_count: trip.events.filter((e) => e.type === 'phone_handling').length,
+  };
+}
+
+async function runRescore(options: RescoreOptions): Promise<RescoreProgress> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const ids = await listLocalTripIds();
+  const recording = await loadRecordingOptions();
+  const rescoredAt = new Date().toISOString();
+  setProgress({ total: ids.length });
+
+  for (let i = 0; i < ids.length; i += batchSize) {
+    const batch = await loadLocalTrips(ids.slice(i, i + batchSize));
+    const updates = new Map<string, Partial<Trip>>();
+    let skipped = 0;
+
+    for (const trip of batch) {
+      if (!options.force && trip.score_version === SCORE_VERSION) {
+        continue;
+      }
+      const analysis = await rescore(trip, recording);
+      if (analysis) {
+        updates.set(trip.id, analysis);
+      } else {
+        skipped++;
+      }
+    }
+
+    // Applied to the records as they are now, so a sync or delete that
+    // happened while this batch was computed isn't undone
+    const written = await updateTripBatch([...updates.keys()], (stored) =>
+      stored
+        .filter((trip) => {
+          const analysis = updates.get(trip.id)!;
+          return analysis.score !== trip.score || analysis.score_version !== trip.score_version ||
+            JSON.stringify(analysis.score_breakdown) !== JSON.stringify(trip.score_breakdown);
+        })
+        .map((trip) => ({
+          ...trip,
+          ...updates.get(trip.id),
+          previous_score: {
+            score: trip.score,
+            version: trip.score_version ?? 1,
+            rescored_at: rescoredAt,
+          },
+          synced: false,
+        }))
+    );
+
+    setProgress({
+      done: Math.min(i + batchSize, ids.length),
+      changed: progress.changed + written.length,
+      skipped: progress.skipped + skipped,
+    });
+  }
+
+  await AsyncStorage.setItem(RESCORE_STATE_KEY, JSON.stringify({ version: SCORE_VERSION, finishedAt: rescoredAt }));
+  return progress;
+}
+
+// Re-score stored trips. Only one run at a time; a second call joins
+// the one in progress.
+export function rescoreTrips(options: RescoreOptions = {}): Promise<RescoreProgress> {
+  if (running) {
+    return running;
+  }
+  setProgress({ running: true, total: 0, done: 0, changed: 0, skipped: 0, error: null });
+
+  running = runRescore(options)
+    .then((result) => {
+      setProgress({ running: false, finishedAt: new Date().toISOString() });
+      console.log(`[Rescore] Done: ${result.changed} of ${result.total} changed, ${result.skipped} skipped`);
+      if (result.changed > 0) {
+        // Upload the new scores
+        syncTrips();
+      }
+      return progress;
+    })
+    .catch((error) => {
+      console.error('[Rescore] Failed:', error);
+      setProgress({ running: false, error: error?.message || String(error) });
+      return progress;
+    })
+    .finally(() => {
+      running = null;
+    });
+  return running;
+}
+
+// Run once after an update that changed SCORE_VERSION. Safe to call on
+// every launch.
+export async function rescoreIfOutdated(): Promise<void> {
+  try {
+    const raw = await AsyncStorage.getItem(RESCORE_STATE_KEY);
+    const state = raw ? JSON.parse(raw) : null;
+    if (!state || state.version < SCORE_VERSION) {
+      await rescoreTrips();
+    }
+  } catch (error) {
+    console.error('[Rescore] Error checking score version:', error);
+  }
+}
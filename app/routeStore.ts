@@ -0,0 +1,211 @@
+// ============================================
+// Route Store
+// Keeps the full GPS route of every trip, compressed, in its own
+// AsyncStorage entry so the trip index stays small and fast to load.
+// The trip record only holds the route key.
+// ============================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Fix } from './tripAnalysis';
+
+const ROUTE_KEY_PREFIX = 'driveiq_route_';
+const ROUTE_FORMAT_VERSION = 1;
+// Routes read or written per AsyncStorage call when backing up
+const ROUTE_BATCH_SIZE = 50;
+
+export interface RoutePoint {
+  timestamp: number; // ms since epoch
+  latitude: number;
+  longitude: number;
+  speed: number | null; // m/s, null when the GPS had none
+  accuracy: number | null; // metres
+  heading: number | null; // degrees
+}
+
+interface StoredRoute {
+  v: number;
+  start: number; // timestamps are encoded relative to this
+  count: number;
+  data: string;
+}
+
+// Fixed-point scale per field, in column order. Each column is stored as
+// the delta from the previous point using the encoded-polyline varint
+// alphabet, so a 1 Hz drive costs roughly 10 bytes per point.
+const COLUMNS: { field: keyof RoutePoint; scale: number; nullable: boolean }[] = [
+  { field: 'timestamp', scale: 1, nullable: false },
+  { field: 'latitude', scale: 1e5, nullable: false },
+  { field: 'longitude', scale: 1e5, nullable: false },
+  { field: 'speed', scale: 10, nullable: true },
+  { field: 'accuracy', scale: 1, nullable: true },
+  { field: 'heading', scale: 1, nullable: true },
+];
+
+// Nullable columns store -1 for "unknown", matching the GPS convention
+const NULL_VALUE = -1;
+
+export const routeKeyFor = (tripId: string) => ROUTE_KEY_PREFIX + tripId;
+
+function encodeSigned(value: number): string {
+  let v = value < 0 ? ~(value << 1) : value << 1;
+  let out = '';
+  while (v >= 0x20) {
+    out += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+    v >>>= 5;
+  }
+  return out + String.fromCharCode(v + 63);
+}
+
+// Timestamps are encoded relative to `start` so every value fits the
+// 32-bit bitwise maths of the polyline format
+export function encodeRoute(points: RoutePoint[], start: number): string {
+  const previous = COLUMNS.map(() => 0);
+  let out = '';
+
+  for (const point of points) {
+    COLUMNS.forEach((column, i) => {
+      const raw = column.field === 'timestamp' ? point.timestamp - start : point[column.field];
+      const value = raw === null || raw === undefined || (column.nullable && raw < 0)
+        ? NULL_VALUE
+        : Math.round(raw * column.scale);
+      out += encodeSigned(value - previous[i]);
+      previous[i] = value;
+    });
+  }
+  return out;
+}
+
+export function decodeRoute(data: string, count: number, start: number): RoutePoint[] {
+  const previous = COLUMNS.map(() => 0);
+  const points: RoutePoint[] = [];
+  let index = 0;
+
+  const readSigned = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = data.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >>> 1) : result >>> 1;
+  };
+
+  for (let n = 0; n < count && index < data.length; n++) {
+    const point = {} as Record<keyof RoutePoint, number | null>;
+    COLUMNS.forEach((column, i) => {
+      previous[i] += readSigned();
+      point[column.field] = column.nullable && previous[i] === NULL_VALUE
+        ? null
+        : previous[i] / column.scale;
+    });
+    point.timestamp = (point.timestamp as number) + start;
+    points.push(point as RoutePoint);
+  }
+  return points;
+}
+
+export function toRoutePoint(fix: Fix): RoutePoint {
+  return {
+    timestamp: fix.timestamp,
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    speed: fix.speed !== null && fix.speed >= 0 ? fix.speed : null,
+    accuracy: fix.accuracy ?? null,
+    heading: fix.heading !== undefined && fix.heading !== null && fix.heading >= 0 ? fix.heading : null,
+  };
+}
+
+export function toFix(point: RoutePoint): Fix {
+  return { ...point };
+}
+
+// Store a trip's route and return the key the trip record should keep
+export async function saveRoute(tripId: string, fixes: Fix[]): Promise<string | null> {
+  if (fixes.length === 0) {
+    return null;
+  }
+
+  try {
+    const key = routeKeyFor(tripId);
+    const start = fixes[0].timestamp;
+    const stored: StoredRoute = {
+      v: ROUTE_FORMAT_VERSION,
+      start,
+      count: fixes.length,
+      data: encodeRoute(fixes.map(toRoutePoint), start),
+    };
+    await AsyncStorage.setItem(key, JSON.stringify(stored));
+    console.log(`[RouteStore] Saved ${fixes.length} points (${stored.data.length} chars) for ${tripId}`);
+    return key;
+  } catch (error) {
+    console.error('[RouteStore] Error saving route:', error);
+    return null;
+  }
+}
+
+export async function loadRoute(routeKey: string): Promise<RoutePoint[]> {
+  try {
+    const raw = await AsyncStorage.getItem(routeKey);
+    if (!raw) {
+      return [];
+    }
+    const stored = JSON.parse(raw) as StoredRoute;
+    if (stored.v !== ROUTE_FORMAT_VERSION) {
+      console.error(`[RouteStore] Unsupported route format v${stored.v}`);
+      return [];
+    }
+    return decodeRoute(stored.data, stored.count, stored.start);
+  } catch (error) {
+    console.error('[RouteStore] Error loading route:', error);
+    return [];
+  }
+}
+
+export async function deleteRoutes(routeKeys: string[]): Promise<void> {
+  const keys = routeKeys.filter((key) => key.startsWith(ROUTE_KEY_PREFIX));
+  if (keys.length === 0) {
+    return;
+  }
+  try {
+    await AsyncStorage.multiRemove(keys);
+  } catch (error) {
+    console.error('[RouteStore] Error deleting routes:', error);
+  }
+}
+
+export const deleteRoute = (routeKey: string) => deleteRoutes([routeKey]);
+
+// Routes in their stored form, keyed by route key, for backups. Missing
+// routes are left out.
+export async function readStoredRoutes(routeKeys: string[]): Promise<Record<string, string>> {
+  const routes: Record<string, string> = {};
+  const keys = routeKeys.filter((key) => key.startsWith(ROUTE_KEY_PREFIX));
+  for (let i = 0; i < keys.length; i += ROUTE_BATCH_SIZE) {
+    const entries = await AsyncStorage.multiGet(keys.slice(i, i + ROUTE_BATCH_SIZE));
+    entries.forEach(([key, value]) => {
+      if (value) routes[key] = value;
+    });
+  }
+  return routes;
+}
+
+// Write routes read by readStoredRoutes, skipping any that aren't a
+// route in the current format. Resolves to the number written.
+export async function writeStoredRoutes(routes: Record<string, string>): Promise<number> {
+  const valid = Object.entries(routes).filter(([key, value]) => {
+    if (!key.startsWith(ROUTE_KEY_PREFIX)) return false;
+    try {
+      const stored = JSON.parse(value) as StoredRoute;
+      return stored.v === ROUTE_FORMAT_VERSION && typeof stored.data === 'string' &&
+        Number.isFinite(stored.start) && Number.isFinite(stored.count);
+    } catch (error) {
+      return false;
+    }
+  });
+  for (let i = 0; i < valid.length; i += ROUTE_BATCH_SIZE) {
+    await AsyncStorage.multiSet(valid.slice(i, i + ROUTE_BATCH_SIZE));
+  }
+  return valid.length;
+}
@@ -0,0 +1,157 @@
+// ============================================
+// Drive Scenarios
+// Generated fix sequences for developing without driving: the replay
+// mode feeds them through the live pipeline, and checkScenario runs
+// them through the analyzer against what each one should produce.
+// Fully deterministic, so they double as fixtures.
+// ============================================
+
+import { Fix, TripSummary, analyzeTrip } from './tripAnalysis';
+
+export type ScenarioId = 'city_commute' | 'highway_speeding' | 'emergency_braking';
+
+// Inclusive bounds on a summary number
+export interface ExpectedRange {
+  min?: number;
+  max?: number;
+}
+
+export type ScenarioExpectation = Partial<
+  Record<'hardBrakes' | 'hardAccelerations' | 'speedingCount' | 'score', ExpectedRange>
+>;
+
+export interface Scenario {
+  id: ScenarioId;
+  build: (startTime?: number) => Fix[];
+  expected: ScenarioExpectation;
+}
+
+// One stretch of driving: speed changes evenly to `toKmh` and the
+// heading turns by `turnDeg` over `seconds`
+interface Leg {
+  seconds: number;
+  toKmh: number;
+  turnDeg?: number;
+}
+
+// A weekday morning in local time, so fixtures never pick up night driving
+const FIXTURE_START = new Date(2024, 0, 15, 10, 0, 0).getTime();
+const ORIGIN = { latitude: 24.7136, longitude: 46.6753 };
+const METRES_PER_DEGREE = 111320;
+const FIX_ACCURACY_M = 5;
+
+// Dead-reckon 1 Hz fixes along the legs
+function drive(legs: Leg[], startTime: number): Fix[] {
+  let latitude = ORIGIN.latitude;
+  let longitude = ORIGIN.longitude;
+  let heading = 0;
+  let speed = 0; // m/s
+  let timestamp = startTime;
+  const fixes: Fix[] = [{ timestamp, latitude, longitude, speed, accuracy: FIX_ACCURACY_M, heading }];
+
+  for (const leg of legs) {
+    const from = speed;
+    const to = leg.toKmh / 3.6;
+    for (let s = 1; s <= leg.seconds; s++) {
+      const next = from + ((to - from) * s) / leg.seconds;
+      const metres = (speed + next) / 2;
+      heading = (heading + (leg.turnDeg ?? 0) / leg.seconds + 360) % 360;
+      const rad = (heading * Math.PI) / 180;
+      latitude += (metres * Math.cos(rad)) / METRES_PER_DEGREE;
+      longitude += (metres * Math.sin(rad)) / (METRES_PER_DEGREE * Math.cos((latitude * Math.PI) / 180));
+      speed = next;
+      timestamp += 1000;
+      fixes.push({ timestamp, latitude, longitude, speed, accuracy: FIX_ACCURACY_M, heading });
+    }
+  }
+  return fixes;
+}
+
+// Between traffic lights: pull away gently, cruise, ease to a stop
+const cityBlock = (turnDeg: number, waitSeconds: number): Leg[] => [
+  { seconds: 12, toKmh: 50, turnDeg },
+  { seconds: 60, toKmh: 50 },
+  { seconds: 10, toKmh: 0 },
+  { seconds: waitSeconds, toKmh: 0 },
+];
+
+export const SCENARIOS: Scenario[] = [
+  {
+    id: 'city_commute',
+    build: (startTime = FIXTURE_START) =>
+      drive(
+        [...cityBlock(0, 30), ...cityBlock(90, 45), ...cityBlock(-90, 20), ...cityBlock(90, 30), ...cityBlock(0, 0)],
+        startTime
+      ),
+    expected: {
+      hardBrakes: { max: 0 },
+      hardAccelerations: { max: 0 },
+      speedingCount: { max: 0 },
+      score: { min: 95 },
+    },
+  },
+  {
+    id: 'highway_speeding',
+    build: (startTime = FIXTURE_START) =>
+      drive(
+        [
+          { seconds: 20, toKmh: 100 },
+          { seconds: 20, toKmh: 120 },
+          { seconds: 120, toKmh: 120, turnDeg: 20 },
+          { seconds: 20, toKmh: 150 },
+          { seconds: 90, toKmh: 150 },
+          { seconds: 20, toKmh: 120 },
+          { seconds: 60, toKmh: 120, turnDeg: -20 },
+          { seconds: 40, toKmh: 0 },
+        ],
+        startTime
+      ),
+    expected: {
+      hardBrakes: { max: 0 },
+      speedingCount: { min: 1 },
+      score: { max: 85 },
+    },
+  },
+  {
+    id: 'emergency_braking',
+    build: (startTime = FIXTURE_START) =>
+      drive(
+        [
+          { seconds: 20, toKmh: 80 },
+          { seconds: 60, toKmh: 80 },
+          { seconds: 3, toKmh: 0 },
+          { seconds: 20, toKmh: 0 },
+          { seconds: 15, toKmh: 50 },
+          { seconds: 30, toKmh: 50 },
+          { seconds: 10, toKmh: 0 },
+        ],
+        startTime
+      ),
+    expected: {
+      hardBrakes: { min: 1 },
+      speedingCount: { max: 0 },
+      score: { max: 95 },
+    },
+  },
+];
+
+export const getScenario = (id: ScenarioId) => SCENARIOS.find((s) => s.id === id)!;
+
+// Analyze the scenario with the default settings (no speed limit data,
+// no auto pause) and list every expectation it misses
+export function checkScenario(scenario: Scenario): { summary: TripSummary; failures: string[] } {
+  const fixes = scenario.build();
+  const summary = analyzeTrip(fixes, {
+    startTime: fixes[0].timestamp,
+    endTime: fixes[fixes.length - 1].timestamp,
+  });
+
+  const failures: string[] = [];
+  for (const [field, range] of Object.entries(scenario.expected) as [keyof ScenarioExpectation, ExpectedRange][]) {
+    const actual = summary[field];
+    if ((range.min !== undefined && actual < range.min) || (range.max !== undefined && actual > range.max)) {
+      failures.push(`${scenario.id}: ${field} was ${actual}, expected ${range.min ?? '-∞'}..${range.max ?? '∞'}`);
+    }
+  }
+  return { summary, failures };
+}
@@ -0,0 +1,179 @@
+// ============================================
+// Scoring Model
+// A trip starts at 100 and loses points in four categories. Each one
+// is normalised by how much driving there was, so the same events cost
+// less over a long drive than a short one, and each saturates at its
+// cap instead of driving the score to zero:
+//
+//   smoothness   hard brakes, accelerations and cornering weighted by
+//                severity (low 1, medium 2, high 3) per 100 km
+//                lost = 40 × (1 − e^(−rate / 40))
+//   speeding     seconds over the limit weighted by overshoot
+//                (1 + km/h over / 10), as a share of moving time
+//                lost = 35 × (1 − e^(−share / 0.1))
+//   distraction  seconds handling the phone, at least 5 per event, as
+//                a share of moving time
+//                lost = 15 × (1 − e^(−share / 0.02))
+//   night        share of moving time between 22:00 and 05:00
+//                lost = 10 × share
+//
+// Trips are normalised as if they covered at least 10 km and 10 min,
+// so a single brake in a car park doesn't wipe out a short trip.
+// Bump SCORE_VERSION with any change here. Trips store the version and
+// breakdown they were scored with, so older ones can be re-scored.
+// ============================================
+
+import type { TripEvent } from './tripAnalysis';
+import type { Trip } from './storage';
+
+// Version 1 was a flat 4/4/8 points per brake/acceleration/speeding event,
+// version 2 had no distraction category and capped smoothness at 50 and
+// speeding at 40
+export const SCORE_VERSION = 3;
+
+export type ScoreCategory = 'smoothness' | 'speeding' | 'distraction' | 'night';
+
+export const SCORE_CATEGORIES: ScoreCategory[] = ['smoothness', 'speeding', 'distraction', 'night'];
+
+// Points lost per category
+export type ScoreBreakdown = Record<ScoreCategory, number>;
+
+export const CATEGORY_CAPS: ScoreBreakdown = { smoothness: 40, speeding: 35, distraction: 15, night: 10 };
+
+export type EventSeverity = 'low' | 'medium' | 'high';
+
+export const SEVERITY_WEIGHTS: Record<EventSeverity, number> = { low: 1, medium: 2, high: 3 };
+
+export interface ScoringInput {
+  distanceKm: number;
+  movingMinutes: number;
+  nightMinutes: number; // moving time at night
+  events: TripEvent[];
+}
+
+export interface TripScore {
+  score: number;
+  version: number;
+  breakdown: ScoreBreakdown;
+}
+
+const MIN_DISTANCE_KM = 10;
+const MIN_MOVING_MINUTES = 10;
+const SMOOTHNESS_SCALE = 40; // weighted events per 100 km
+const SPEEDING_SCALE = 0.1; // weighted share of moving time
+const DISTRACTION_SCALE = 0.02; // share of moving time
+const MIN_HANDLING_SECONDS = 5; // a glance at an unlocked screen still counts
+const OVERSHOOT_STEP_KMH = 10;
+
+// Local hours counted as night: from NIGHT_START_HOUR to NIGHT_END_HOUR
+export const NIGHT_START_HOUR = 22;
+export const NIGHT_END_HOUR = 5;
+
+const isNightHour = (hour: number) => hour >= NIGHT_START_HOUR || hour < NIGHT_END_HOUR;
+
+// How much of the interval falls in night hours, in local time
+export function nightOverlapMs(from: number, to: number): number {
+  let total = 0;
+  let t = from;
+  while (t < to) {
+    const date = new Date(t);
+    const nextHour = new Date(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      date.getHours() + 1
+    ).getTime();
+    const end = Math.min(to, nextHour);
+    if (isNightHour(date.getHours())) {
+      total += end - t;
+    }
+    t = end;
+  }
+  return total;
+}
+
+// Brakes, accelerations and cornering are graded by peak g, speeding by
+// how long it lasted or how far over the limit it went, phone handling
+// by how long it lasted
+export function getEventSeverity(event: TripEvent): EventSeverity {
+  if (event.type === 'phone_handling') {
+    if (event.durationMs >= 30000) return 'high';
+    if (event.durationMs >= 10000) return 'medium';
+    return 'low';
+  }
+  if (event.type === 'speeding') {
+    const overshoot = event.overshootKmh ?? 0;
+    if (event.durationMs >= 120000 || overshoot >= 30) return 'high';
+    if (event.durationMs >= 30000 || overshoot >= 15) return 'medium';
+    return 'low';
+  }
+  const g = event.peakG ?? 0;
+  if (g >= 0.6) return 'high';
+  if (g >= 0.45) return 'medium';
+  return 'low';
+}
+
+// Weighted seconds over the limit for one speeding event
+export const speedingWeight = (event: TripEvent) =>
+  (event.durationMs / 1000) * (1 + (event.overshootKmh ?? 0) / OVERSHOOT_STEP_KMH);
+
+// Scoring input for a stored trip. Trips recorded before pause support
+// have no moving or night time, so both are estimated from the clock.
+export function tripScoringInput(trip: Trip): ScoringInput {
+  const movingMinutes = trip.moving_minutes ?? trip.duration_minutes;
+  const nightMinutes = trip.night_minutes ?? (trip.duration_minutes > 0
+    ? nightOverlapMs(new Date(trip.start_time).getTime(), new Date(trip.end_time).getTime()) / 60000 *
+      (movingMinutes / trip.duration_minutes)
+    : 0);
+  return {
+    distanceKm: trip.distance_km,
+    movingMinutes,
+    nightMinutes,
+    events: trip.events || [],
+  };
+}
+
+const saturate = (cap: number, rate: number, scale: number) => cap * (1 - Math.exp(-rate / scale));
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export function scoreTrip(input: ScoringInput): TripScore {
+  const distanceKm = Math.max(input.distanceKm, MIN_DISTANCE_KM);
+  const movingSeconds = Math.max(input.movingMinutes, MIN_MOVING_MINUTES) * 60;
+
+  let smoothWeight = 0;
+  let speedingSeconds = 0;
+  let handlingSeconds = 0;
+  for (const event of input.events) {
+    if (event.type === 'speeding') {
+      speedingSeconds += speedingWeight(event);
+    } else if (event.type === 'phone_handling') {
+      handlingSeconds += Math.max(event.durationMs / 1000, MIN_HANDLING_SECONDS);
+    } else {
+      smoothWeight += SEVERITY_WEIGHTS[getEventSeverity(event)];
+    }
+  }
+
+  const nightShare = input.movingMinutes > 0
+    ? Math.min(1, input.nightMinutes / input.movingMinutes)
+    : 0;
+
+  const lost: ScoreBreakdown = {
+    smoothness: saturate(CATEGORY_CAPS.smoothness, (smoothWeight / distanceKm) * 100, SMOOTHNESS_SCALE),
+    speeding: saturate(CATEGORY_CAPS.speeding, speedingSeconds / movingSeconds, SPEEDING_SCALE),
+    distraction: saturate(CATEGORY_CAPS.distraction, handlingSeconds / movingSeconds, DISTRACTION_SCALE),
+    night: CATEGORY_CAPS.night * nightShare,
+  };
+
+  const total = SCORE_CATEGORIES.reduce((sum, category) => sum + lost[category], 0);
+  return {
+    score: Math.max(0, Math.round(100 - total)),
+    version: SCORE_VERSION,
+    breakdown: {
+      smoothness: round1(lost.smoothness),
+      speeding: round1(lost.speeding),
+      distraction: round1(lost.distraction),
+      night: round1(lost.night),
+    },
+  };
+}
@@ -0,0 +1,353 @@
+// ============================================
+// Speed Limits
+// Where the analyzer gets the limit for each fix. The offline dataset
+// holds posted limits per road segment, e.g. converted from an OSM
+// extract and downloaded once. Roads the dataset has no limit for, and
+// fixes that match no road, use the driver's fallback for the road class.
+// ============================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SPEEDING_THRESHOLD_KMH } from './tripAnalysis';
+
+const SETTINGS_KEY = 'driveiq_speed_limit_settings';
+const DATASET_META_KEY = 'driveiq_speed_limit_dataset';
+const DATASET_CHUNK_PREFIX = 'driveiq_speed_limit_chunk_';
+const DATASET_FORMAT_VERSION = 1;
+
+// Keeps each AsyncStorage row well under the Android size limit
+const SEGMENTS_PER_CHUNK = 2000;
+
+// A fix further than this from every road is not matched to one
+const MATCH_DISTANCE_M = 25;
+// Lookup grid cell, roughly 1 km
+const CELL_DEG = 0.01;
+
+export const SPEED_LIMITS_URL = process.env.EXPO_PUBLIC_SPEED_LIMITS_URL || '';
+
+export type RoadClass =
+  | 'motorway'
+  | 'trunk'
+  | 'primary'
+  | 'secondary'
+  | 'tertiary'
+  | 'residential'
+  | 'unknown';
+
+export const ROAD_CLASSES: RoadClass[] = [
+  'motorway',
+  'trunk',
+  'primary',
+  'secondary',
+  'tertiary',
+  'residential',
+  'unknown',
+];
+
+export const FALLBACK_LIMIT_OPTIONS = [30, 40, 50, 60, 70, 80, 90, 100, 110, 120, 130, 140];
+
+export interface SpeedLimit {
+  limitKmh: number;
+  roadClass: RoadClass;
+  source: 'dataset' | 'fallback';
+}
+
+export interface SpeedLimitProvider {
+  // Never fails: falls back to the 'unknown' road class limit
+  lookup: (position: { latitude: number; longitude: number }) => SpeedLimit;
+}
+
+// One stretch of road. `limitKmh` is null when the source only knows
+// what kind of road it is.
+export interface RoadSegment {
+  id: string;
+  roadClass: RoadClass;
+  limitKmh: number | null;
+  points: [number, number][]; // [latitude, longitude]
+}
+
+export interface SpeedLimitDataset {
+  version: number;
+  name: string;
+  segments: RoadSegment[];
+}
+
+export interface SpeedLimitDatasetInfo {
+  name: string;
+  segmentCount: number;
+  skippedCount: number; // malformed segments left out on install
+  chunkCount: number;
+  installedAt: string;
+}
+
+export interface SpeedLimitSettings {
+  fallbackKmh: Record<RoadClass, number>;
+}
+
+// Unknown roads keep the old fixed threshold, so a phone without the
+// dataset scores as before
+export const DEFAULT_SPEED_LIMIT_SETTINGS: SpeedLimitSettings = {
+  fallbackKmh: {
+    motorway: 120,
+    trunk: 100,
+    primary: 80,
+    secondary: 70,
+    tertiary: 60,
+    residential: 40,
+    unknown: SPEEDING_THRESHOLD_KMH,
+  },
+};
+
+// ============================================
+// Providers
+// ============================================
+
+export function createFallbackProvider(fallbackKmh: Record<RoadClass, number>): SpeedLimitProvider {
+  return {
+    lookup: () => ({ limitKmh: fallbackKmh.unknown, roadClass: 'unknown', source: 'fallback' }),
+  };
+}
+
+// Distance in metres from a point to the line between two others, on a
+// flat projection around the point (fine at road-matching distances)
+function distanceToLine(
+  latitude: number,
+  longitude: number,
+  a: [number, number],
+  b: [number, number]
+): number {
+  const mPerLat = 110540;
+  const mPerLon = 111320 * Math.cos(latitude * Math.PI / 180);
+  const ax = (a[1] - longitude) * mPerLon;
+  const ay = (a[0] - latitude) * mPerLat;
+  const bx = (b[1] - longitude) * mPerLon;
+  const by = (b[0] - latitude) * mPerLat;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+const cellKey = (latIndex: number, lonIndex: number) => latIndex + ':' + lonIndex;
+
+// Index every piece of every segment by the grid cells its bounding box,
+// widened by the match distance, touches
+export function createDatasetProvider(
+  segments: RoadSegment[],
+  fallbackKmh: Record<RoadClass, number>
+): SpeedLimitProvider {
+  const grid = new Map<string, { segment: RoadSegment; index: number }[]>();
+
+  for (const segment of segments) {
+    for (let i = 0; i < segment.points.length - 1; i++) {
+      const [lat1, lon1] = segment.points[i];
+      const [lat2, lon2] = segment.points[i + 1];
+      const latMargin = MATCH_DISTANCE_M / 110540;
+      const lonMargin = MATCH_DISTANCE_M / (111320 * Math.cos(lat1 * Math.PI / 180));
+      const minLat = Math.floor((Math.min(lat1, lat2) - latMargin) / CELL_DEG);
+      const maxLat = Math.floor((Math.max(lat1, lat2) + latMargin) / CELL_DEG);
+      const minLon = Math.floor((Math.min(lon1, lon2) - lonMargin) / CELL_DEG);
+      const maxLon = Math.floor((Math.max(lon1, lon2) + lonMargin) / CELL_DEG);
+
+      for (let y = minLat; y <= maxLat; y++) {
+        for (let x = minLon; x <= maxLon; x++) {
+          const key = cellKey(y, x);
+          const pieces = grid.get(key);
+          if (pieces) {
+            pieces.push({ segment, index: i });
+          } else {
+            grid.set(key, [{ segment, index: i }]);
+          }
+        }
+      }
+    }
+  }
+
+  const lookup = ({ latitude, longitude }: { latitude: number; longitude: number }): SpeedLimit => {
+    const pieces = grid.get(cellKey(Math.floor(latitude / CELL_DEG), Math.floor(longitude / CELL_DEG))) || [];
+    let best: RoadSegment | null = null;
+    let bestDistance = MATCH_DISTANCE_M;
+
+    for (const { segment, index } of pieces) {
+      const distance = distanceToLine(latitude, longitude, segment.points[index], segment.points[index + 1]);
+      if (distance <= bestDistance) {
+        best = segment;
+        bestDistance = distance;
+      }
+    }
+
+    if (!best) {
+      return { limitKmh: fallbackKmh.unknown, roadClass: 'unknown', source: 'fallback' };
+    }
+    return best.limitKmh !== null
+      ? { limitKmh: best.limitKmh, roadClass: best.roadClass, source: 'dataset' }
+      : { limitKmh: fallbackKmh[best.roadClass], roadClass: best.roadClass, source: 'fallback' };
+  };
+
+  return { lookup };
+}
+
+// ============================================
+// Dataset storage
+// ============================================
+
+const isCoordinate = (value: any): value is [number, number] =>
+  Array.isArray(value) &&
+  value.length === 2 &&
+  Number.isFinite(value[0]) &&
+  Number.isFinite(value[1]) &&
+  Math.abs(value[0]) <= 90 &&
+  Math.abs(value[1]) <= 180;
+
+function toRoadSegment(value: any): RoadSegment | null {
+  if (!value || typeof value.id !== 'string' || !Array.isArray(value.points)) {
+    return null;
+  }
+  if (value.points.length < 2 || !value.points.every(isCoordinate)) {
+    return null;
+  }
+  const limit = value.limitKmh;
+  if (limit !== null && !(Number.isFinite(limit) && limit > 0)) {
+    return null;
+  }
+  return {
+    id: value.id,
+    roadClass: ROAD_CLASSES.includes(value.roadClass) ? value.roadClass : 'unknown',
+    limitKmh: limit,
+    points: value.points,
+  };
+}
+
+const chunkKey = (index: number) => DATASET_CHUNK_PREFIX + index;
+
+let providerPromise: Promise<SpeedLimitProvider> | null = null;
+
+export async function getSpeedLimitDatasetInfo(): Promise<SpeedLimitDatasetInfo | null> {
+  try {
+    const raw = await AsyncStorage.getItem(DATASET_META_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    console.error('[SpeedLimits] Error reading dataset info:', error);
+    return null;
+  }
+}
+
+async function readDatasetSegments(): Promise<RoadSegment[]> {
+  const info = await getSpeedLimitDatasetInfo();
+  if (!info) {
+    return [];
+  }
+  const keys = Array.from({ length: info.chunkCount }, (_, i) => chunkKey(i));
+  const chunks = keys.length > 0 ? await AsyncStorage.multiGet(keys) : [];
+  const segments: RoadSegment[] = [];
+  for (const [, raw] of chunks) {
+    if (raw) {
+      segments.push(...JSON.parse(raw));
+    }
+  }
+  return segments;
+}
+
+export async function removeSpeedLimitDataset(): Promise<void> {
+  const info = await getSpeedLimitDatasetInfo();
+  if (info) {
+    await AsyncStorage.multiRemove(Array.from({ length: info.chunkCount }, (_, i) => chunkKey(i)));
+  }
+  await AsyncStorage.removeItem(DATASET_META_KEY);
+  providerPromise = null;
+}
+
+// Validate and store a dataset, replacing any installed one. Malformed
+// segments are skipped; a file that isn't a dataset at all throws.
+export async function installSpeedLimitDataset(value: unknown): Promise<SpeedLimitDatasetInfo> {
+  const dataset = value as Partial<SpeedLimitDataset> | null;
+  if (!dataset || dataset.version !== DATASET_FORMAT_VERSION || !Array.isArray(dataset.segments)) {
+    throw new Error('Not a speed limit dataset (version ' + DATASET_FORMAT_VERSION + ')');
+  }
+
+  const segments: RoadSegment[] = [];
+  for (const raw of dataset.segments) {
+    const segment = toRoadSegment(raw);
+    if (segment) {
+      segments.push(segment);
+    }
+  }
+
+  await removeSpeedLimitDataset();
+  const writes: [string, string][] = [];
+  for (let i = 0; i < segments.length; i += SEGMENTS_PER_CHUNK) {
+    writes.push([chunkKey(writes.length), JSON.stringify(segments.slice(i, i + SEGMENTS_PER_CHUNK))]);
+  }
+  const info: SpeedLimitDatasetInfo = {
+    name: typeof dataset.name === 'string' ? dataset.name : 'Speed limits',
+    segmentCount: segments.length,
+    skippedCount: dataset.segments.length - segments.length,
+    chunkCount: writes.length,
+    installedAt: new Date().toISOString(),
+  };
+  writes.push([DATASET_META_KEY, JSON.stringify(info)]);
+  await AsyncStorage.multiSet(writes);
+
+  providerPromise = null;
+  console.log(`[SpeedLimits] Installed ${info.name}: ${info.segmentCount} segments, ${info.skippedCount} skipped`);
+  return info;
+}
+
+export async function downloadSpeedLimitDataset(url: string = SPEED_LIMITS_URL): Promise<SpeedLimitDatasetInfo> {
+  if (!url) {
+    throw new Error('No speed limit dataset URL configured');
+  }
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Download failed: HTTP ${response.status}`);
+  }
+  return installSpeedLimitDataset(await response.json());
+}
+
+// ============================================
+// Settings
+// ============================================
+
+export async function getSpeedLimitSettings(): Promise<SpeedLimitSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(SETTINGS_KEY);
+    if (!raw) {
+      return DEFAULT_SPEED_LIMIT_SETTINGS;
+    }
+    const saved = JSON.parse(raw);
+    return {
+      fallbackKmh: { ...DEFAULT_SPEED_LIMIT_SETTINGS.fallbackKmh, ...saved.fallbackKmh },
+    };
+  } catch (error) {
+    console.error('[SpeedLimits] Error reading settings:', error);
+    return DEFAULT_SPEED_LIMIT_SETTINGS;
+  }
+}
+
+export async function setFallbackLimit(roadClass: RoadClass, limitKmh: number): Promise<SpeedLimitSettings> {
+  const current = await getSpeedLimitSettings();
+  const settings = { fallbackKmh: { ...current.fallbackKmh, [roadClass]: limitKmh } };
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  providerPromise = null;
+  return settings;
+}
+
+// The provider for recording and scoring trips, built once per JS
+// context and rebuilt after the dataset or the fallbacks change
+export function getSpeedLimitProvider(): Promise<SpeedLimitProvider> {
+  if (!providerPromise) {
+    providerPromise = (async () => {
+      const { fallbackKmh } = await getSpeedLimitSettings();
+      try {
+        const segments = await readDatasetSegments();
+        if (segments.length > 0) {
+          return createDatasetProvider(segments, fallbackKmh);
+        }
+      } catch (error) {
+        console.error('[SpeedLimits] Error loading dataset, using fallbacks:', error);
+      }
+      return createFallbackProvider(fallbackKmh);
+    })();
+  }
+  return providerPromise;
+}
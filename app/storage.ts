@@ -0,0 +1,564 @@
+// ============================================
+// Storage Schema
+// Owns the shape of everything persisted about trips. Stored data
+// carries a schema version; migrations bring older installs up to
+// date at startup, and records that fail validation are moved to a
+// quarantine key instead of crashing the screens that read them.
+// ============================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { DiscardCounts, TripEvent, TripEventType, TripSegment } from './tripAnalysis';
+import { SCORE_CATEGORIES, ScoreBreakdown } from './scoring';
+
+// Single JSON array holding every trip, used up to schema v2
+const LEGACY_TRIPS_KEY = 'driveiq_offline_trips';
+const TRIP_KEY_PREFIX = 'driveiq_trip_record_';
+const TRIP_INDEX_KEY = 'driveiq_trip_index';
+const TRIP_STATS_KEY = 'driveiq_trip_stats';
+export const DEVICE_ID_KEY = 'driveiq_device_id';
+const SCHEMA_VERSION_KEY = 'driveiq_schema_version';
+const QUARANTINE_KEY = 'driveiq_quarantine';
+
+// Bump together with a new entry in MIGRATIONS
+export const SCHEMA_VERSION = 4;
+
+// Oldest quarantined entries are dropped past this many
+const MAX_QUARANTINED = 50;
+
+// The persisted form of a trip. Times are ISO strings, distances in km,
+// speeds in km/h.
+export interface Trip {
+  id: string;
+  start_time: string;
+  end_time: string;
+  distance_km: number;
+  duration_minutes: number;
+  max_speed: number;
+  avg_speed: number;
+  hard_brakes: number;
+  hard_accelerations: number;
+  speeding_count: number;
+  harsh_cornering_count?: number; // missing on trips recorded before motion sensing
+  phone_handling_count?: number;
+  score: number;
+  score_version?: number; // missing on trips scored with version 1
+  score_breakdown?: ScoreBreakdown; // points lost per category
+  previous_score?: PreviousScore; // what re-scoring replaced
+  synced?: boolean;
+  auto_started?: boolean;
+  recovered?: boolean; // saved after the app was killed mid-trip
+  simulated?: boolean; // recorded by the replay mode, never uploaded
+  imported?: boolean; // brought in from a GPX or CSV file
+  name?: string; // given by the driver
+  tags?: string[];
+  // Missing on trips recorded before pause support
+  moving_minutes?: number;
+  stopped_minutes?: number;
+  paused_minutes?: number;
+  night_minutes?: number;
+  route_key?: string | null;
+  events?: TripEvent[];
+  segments?: TripSegment[];
+  discarded_fixes?: DiscardCounts;
+}
+
+export interface PreviousScore {
+  score: number;
+  version: number;
+  rescored_at: string;
+}
+
+export interface QuarantinedEntry {
+  key: string;
+  reason: string;
+  raw: string;
+  quarantinedAt: string;
+}
+
+// One row of the trip index, newest trip first. Small enough that the
+// whole index loads in one read even with thousands of trips.
+export interface TripIndexEntry {
+  id: string;
+  start: number; // ms since epoch
+  synced: boolean;
+  simulated?: boolean;
+}
+
+// Running totals over every stored trip, updated on each write so the
+// Profile never has to load the trips themselves
+// Totals over the driver's real trips; replayed ones are left out
+export interface TripStats {
+  count: number;
+  distanceKm: number;
+  durationMinutes: number;
+  scoreSum: number;
+  scoreCounts: Record<string, number>; // rounded score -> trips
+}
+
+export type TripValidation = { trip: Trip } | { error: string };
+
+const NUMERIC_FIELDS = [
+  'distance_km',
+  'duration_minutes',
+  'max_speed',
+  'avg_speed',
+  'hard_brakes',
+  'hard_accelerations',
+  'speeding_count',
+  'score',
+] as const;
+
+const OPTIONAL_NUMERIC_FIELDS = [
+  'score_version',
+  'moving_minutes',
+  'stopped_minutes',
+  'paused_minutes',
+  'night_minutes',
+  'harsh_cornering_count',
+  'phone_handling_count',
+] as const;
+
+const EVENT_TYPES: TripEventType[] = [
+  'hard_brake',
+  'hard_acceleration',
+  'speeding',
+  'harsh_cornering',
+  'phone_handling',
+];
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+
+function isTripEvent(value: any): value is TripEvent {
+  return (
+    !!value &&
+    EVENT_TYPES.includes(value.type) &&
+    isFiniteNumber(value.timestamp) &&
+    isFiniteNumber(value.latitude) &&
+    isFiniteNumber(value.longitude) &&
+    isFiniteNumber(value.speed) &&
+    isFiniteNumber(value.durationMs)
+  );
+}
+
+function isTripSegment(value: any): value is TripSegment {
+  return (
+    !!value &&
+    (value.type === 'driving' || value.type === 'paused') &&
+    isFiniteNumber(value.start) &&
+    isFiniteNumber(value.end)
+  );
+}
+
+// Categories added by later scoring models are missing from older
+// breakdowns; nothing was lost to them
+function toScoreBreakdown(value: any): ScoreBreakdown | null {
+  if (!value || typeof value !== 'object' || !isFiniteNumber(value.smoothness)) {
+    return null;
+  }
+  const breakdown = {} as ScoreBreakdown;
+  for (const category of SCORE_CATEGORIES) {
+    if (value[category] !== undefined && !isFiniteNumber(value[category])) {
+      return null;
+    }
+    breakdown[category] = value[category] ?? 0;
+  }
+  return breakdown;
+}
+
+// Check a stored record. Required fields must be present and well typed;
+// optional fields that are malformed are dropped rather than failing the
+// whole trip, since the summary numbers are still worth keeping.
+export function validateTrip(value: unknown): TripValidation {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'not an object' };
+  }
+  const record = value as Record<string, any>;
+
+  if (typeof record.id !== 'string' || record.id.length === 0) {
+    return { error: 'missing id' };
+  }
+  if (!isDateString(record.start_time) || !isDateString(record.end_time)) {
+    return { error: `invalid start_time/end_time on ${record.id}` };
+  }
+  for (const field of NUMERIC_FIELDS) {
+    if (!isFiniteNumber(record[field])) {
+      return { error: `invalid ${field} on ${record.id}` };
+    }
+  }
+
+  const trip: Trip = {
+    id: record.id,
+    start_time: record.start_time,
+    end_time: record.end_time,
+    distance_km: record.distance_km,
+    duration_minutes: record.duration_minutes,
+    max_speed: record.max_speed,
+    avg_speed: record.avg_speed,
+    hard_brakes: record.hard_brakes,
+    hard_accelerations: record.hard_accelerations,
+    speeding_count: record.speeding_count,
+    score: record.score,
+    synced: record.synced === true,
+  };
+
+  if (record.auto_started === true) {
+    trip.auto_started = true;
+  }
+  if (record.recovered === true) {
+    trip.recovered = true;
+  }
+  if (record.simulated === true) {
+    trip.simulated = true;
+  }
+  if (record.imported === true) {
+    trip.imported = true;
+  }
+  for (const field of OPTIONAL_NUMERIC_FIELDS) {
+    if (isFiniteNumber(record[field])) {
+      trip[field] = record[field];
+    }
+  }
+  const breakdown = toScoreBreakdown(record.score_breakdown);
+  if (breakdown) {
+    trip.score_breakdown = breakdown;
+  }
+  const previous = record.previous_score;
+  if (previous && isFiniteNumber(previous.score) && isFiniteNumber(previous.version) &&
+      isDateString(previous.rescored_at)) {
+    trip.previous_score = { score: previous.score, version: previous.version, rescored_at: previous.rescored_at };
+  }
+  if (typeof record.route_key === 'string' || record.route_key === null) {
+    trip.route_key = record.route_key;
+  }
+  if (typeof record.name === 'string' && record.name.length > 0) {
+    trip.name = record.name;
+  }
+  if (Array.isArray(record.tags)) {
+    trip.tags = record.tags.filter((tag: unknown) => typeof tag === 'string' && tag.length > 0);
+  }
+  if (Array.isArray(record.events)) {
+    trip.events = record.events.filter(isTripEvent);
+  }
+  if (Array.isArray(record.segments)) {
+    trip.segments = record.segments.filter(isTripSegment);
+  }
+  if (record.discarded_fixes && typeof record.discarded_fixes === 'object') {
+    trip.discarded_fixes = record.discarded_fixes;
+  }
+  return { trip };
+}
+
+// Read the pre-v3 trip array, splitting valid trips from the records
+// that should be quarantined. Never throws.
+async function readLegacyTrips(): Promise<{ trips: Trip[]; rejected: QuarantinedEntry[] }> {
+  const raw = await AsyncStorage.getItem(LEGACY_TRIPS_KEY);
+  if (!raw) {
+    return { trips: [], rejected: [] };
+  }
+
+  const now = new Date().toISOString();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    return { trips: [], rejected: [{ key: LEGACY_TRIPS_KEY, reason: 'unparseable JSON', raw, quarantinedAt: now }] };
+  }
+  if (!Array.isArray(parsed)) {
+    return { trips: [], rejected: [{ key: LEGACY_TRIPS_KEY, reason: 'not an array', raw, quarantinedAt: now }] };
+  }
+
+  const trips: Trip[] = [];
+  const rejected: QuarantinedEntry[] = [];
+  for (const record of parsed) {
+    const result = validateTrip(record);
+    if ('trip' in result) {
+      trips.push(result.trip);
+    } else {
+      rejected.push({ key: LEGACY_TRIPS_KEY, reason: result.error, raw: JSON.stringify(record), quarantinedAt: now });
+    }
+  }
+  return { trips, rejected };
+}
+
+export async function getQuarantinedEntries(): Promise<QuarantinedEntry[]> {
+  try {
+    const raw = await AsyncStorage.getItem(QUARANTINE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error('[Storage] Error reading quarantine:', error);
+    return [];
+  }
+}
+
+export async function quarantine(entries: QuarantinedEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+  entries.forEach((entry) => console.warn(`[Storage] Quarantined ${entry.key}: ${entry.reason}`));
+  const existing = await getQuarantinedEntries();
+  const kept = [...existing, ...entries].slice(-MAX_QUARANTINED);
+  await AsyncStorage.setItem(QUARANTINE_KEY, JSON.stringify(kept));
+}
+
+// ============================================
+// Trip Records
+// Each trip lives under its own key. The index orders them by start
+// time for paging and date-range queries; the stats hold aggregates.
+// ============================================
+
+export const tripKeyFor = (tripId: string) => TRIP_KEY_PREFIX + tripId;
+
+export const emptyTripStats = (): TripStats => ({
+  count: 0,
+  distanceKm: 0,
+  durationMinutes: 0,
+  scoreSum: 0,
+  scoreCounts: {},
+});
+
+export const indexEntryFor = (trip: Trip): TripIndexEntry => ({
+  id: trip.id,
+  start: new Date(trip.start_time).getTime(),
+  synced: trip.synced === true,
+  ...(trip.simulated ? { simulated: true } : {}),
+});
+
+export const sortTripIndex = (index: TripIndexEntry[]) => index.sort((a, b) => b.start - a.start);
+
+// Add (sign 1) or remove (sign -1) a trip's contribution to the totals
+export function applyTripToStats(stats: TripStats, trip: Trip, sign: 1 | -1): TripStats {
+  if (trip.simulated) {
+    return stats;
+  }
+  const bucket = String(Math.round(trip.score));
+  const scoreCounts = { ...stats.scoreCounts, [bucket]: (stats.scoreCounts[bucket] || 0) + sign };
+  if (scoreCounts[bucket] <= 0) {
+    delete scoreCounts[bucket];
+  }
+  return {
+    count: Math.max(0, stats.count + sign),
+    distanceKm: Math.max(0, stats.distanceKm + sign * trip.distance_km),
+    durationMinutes: Math.max(0, stats.durationMinutes + sign * trip.duration_minutes),
+    scoreSum: stats.count + sign > 0 ? stats.scoreSum + sign * trip.score : 0,
+    scoreCounts,
+  };
+}
+
+export function getBestScore(stats: TripStats): number {
+  const scores = Object.keys(stats.scoreCounts).map(Number);
+  return scores.length > 0 ? Math.max(...scores) : 0;
+}
+
+function buildTripStore(trips: Trip[]): [string, string][] {
+  const index = sortTripIndex(trips.map(indexEntryFor));
+  const stats = trips.reduce((total, trip) => applyTripToStats(total, trip, 1), emptyTripStats());
+  return [
+    ...trips.map((trip): [string, string] => [tripKeyFor(trip.id), JSON.stringify(trip)]),
+    [TRIP_INDEX_KEY, JSON.stringify(index)],
+    [TRIP_STATS_KEY, JSON.stringify(stats)],
+  ];
+}
+
+// Load trip records by id, in the given order. Records that are missing
+// are skipped; ones that fail validation are returned as rejected.
+export async function readTripRecords(ids: string[]): Promise<{ trips: Trip[]; rejected: QuarantinedEntry[] }> {
+  if (ids.length === 0) {
+    return { trips: [], rejected: [] };
+  }
+  const rows = await AsyncStorage.multiGet(ids.map(tripKeyFor));
+  const trips: Trip[] = [];
+  const rejected: QuarantinedEntry[] = [];
+  const now = new Date().toISOString();
+
+  for (const [key, raw] of rows) {
+    if (!raw) continue;
+    let result: TripValidation;
+    try {
+      result = validateTrip(JSON.parse(raw));
+    } catch (error) {
+      result = { error: 'unparseable JSON' };
+    }
+    if ('trip' in result) {
+      trips.push(result.trip);
+    } else {
+      rejected.push({ key, reason: result.error, raw, quarantinedAt: now });
+    }
+  }
+  return { trips, rejected };
+}
+
+// Rebuild the index and stats from the records themselves, for when
+// either has been lost or damaged
+async function rebuildTripStore(): Promise<TripIndexEntry[]> {
+  const keys = (await AsyncStorage.getAllKeys()).filter((key) => key.startsWith(TRIP_KEY_PREFIX));
+  const { trips, rejected } = await readTripRecords(keys.map((key) => key.slice(TRIP_KEY_PREFIX.length)));
+  await quarantine(rejected);
+  if (rejected.length > 0) {
+    await AsyncStorage.multiRemove(rejected.map((entry) => entry.key));
+  }
+  const rows = buildTripStore(trips);
+  await AsyncStorage.multiSet(rows.slice(trips.length));
+  console.log(`[Storage] Rebuilt trip index from ${trips.length} records`);
+  return sortTripIndex(trips.map(indexEntryFor));
+}
+
+export async function readTripIndex(): Promise<TripIndexEntry[]> {
+  const raw = await AsyncStorage.getItem(TRIP_INDEX_KEY);
+  if (!raw) {
+    return [];
+  }
+  try {
+    const index = JSON.parse(raw);
+    if (Array.isArray(index) && index.every((e) => typeof e?.id === 'string' && isFiniteNumber(e?.start))) {
+      return index;
+    }
+  } catch (error) {
+    // Fall through to the rebuild below
+  }
+  await quarantine([{ key: TRIP_INDEX_KEY, reason: 'invalid index', raw, quarantinedAt: new Date().toISOString() }]);
+  return rebuildTripStore();
+}
+
+export async function readTripStats(): Promise<TripStats> {
+  const raw = await AsyncStorage.getItem(TRIP_STATS_KEY);
+  try {
+    const stats = raw ? JSON.parse(raw) : null;
+    if (stats && isFiniteNumber(stats.count) && stats.scoreCounts) {
+      return stats;
+    }
+  } catch (error) {
+    // Fall through to the rebuild below
+  }
+  if (!raw && !(await AsyncStorage.getItem(TRIP_INDEX_KEY))) {
+    return emptyTripStats();
+  }
+  await rebuildTripStore();
+  const rebuilt = await AsyncStorage.getItem(TRIP_STATS_KEY);
+  return rebuilt ? JSON.parse(rebuilt) : emptyTripStats();
+}
+
+// Write the given records, index and stats together, then drop the
+// records of removed trips
+export async function writeTripStore(
+  trips: Trip[],
+  index: TripIndexEntry[],
+  stats: TripStats,
+  removedIds: string[]
+): Promise<void> {
+  await AsyncStorage.multiSet([
+    ...trips.map((trip): [string, string] => [tripKeyFor(trip.id), JSON.stringify(trip)]),
+    [TRIP_INDEX_KEY, JSON.stringify(index)],
+    [TRIP_STATS_KEY, JSON.stringify(stats)],
+  ]);
+  if (removedIds.length > 0) {
+    await AsyncStorage.multiRemove(removedIds.map(tripKeyFor));
+  }
+}
+
+// ============================================
+// Migrations
+// Each one moves the stored data from `version - 1` to `version`. They
+// run in order and the schema version is written after each, so an
+// interrupted upgrade resumes where it stopped.
+// ============================================
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: () => Promise<void>;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Validate the unversioned trip list',
+    migrate: async () => {
+      const { trips, rejected } = await readLegacyTrips();
+      await quarantine(rejected);
+      await AsyncStorage.setItem(LEGACY_TRIPS_KEY, JSON.stringify(trips));
+    },
+  },
+  {
+    version: 2,
+    description: 'Move the device id under the driveiq_ prefix',
+    migrate: async () => {
+      const legacy = await AsyncStorage.getItem('deviceId');
+      if (legacy && !(await AsyncStorage.getItem(DEVICE_ID_KEY))) {
+        await AsyncStorage.setItem(DEVICE_ID_KEY, legacy);
+      }
+      await AsyncStorage.removeItem('deviceId');
+    },
+  },
+  {
+    version: 3,
+    description: 'Split the trip list into per-trip records with an index',
+    migrate: async () => {
+      const { trips, rejected } = await readLegacyTrips();
+      await quarantine(rejected);
+      await AsyncStorage.multiSet(buildTripStore(trips));
+      await AsyncStorage.removeItem(LEGACY_TRIPS_KEY);
+    },
+  },
+  {
+    version: 4,
+    description: 'Leave replayed trips out of the running stats',
+    migrate: async () => {
+      if ((await readTripIndex()).some((e) => e.simulated)) {
+        await rebuildTripStore();
+      }
+    },
+  },
+];
+
+// `version` is the migration that failed, 0 when the stored version
+// couldn't be read
+export type StorageStatus = { ok: true } | { ok: false; version: number; reason: string };
+
+async function runMigrations(): Promise<StorageStatus> {
+  let version = 0;
+  try {
+    const raw = await AsyncStorage.getItem(SCHEMA_VERSION_KEY);
+    const current = raw ? parseInt(raw, 10) || 0 : 0;
+
+    if (current > SCHEMA_VERSION) {
+      // Written by a newer build; leave it alone rather than corrupt it
+      console.warn(`[Storage] Stored schema v${current} is newer than v${SCHEMA_VERSION}`);
+      return { ok: true };
+    }
+
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= current) {
+        continue;
+      }
+      version = migration.version;
+      console.log(`[Storage] Migrating to v${migration.version}: ${migration.description}`);
+      await migration.migrate();
+      await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(migration.version));
+    }
+    return { ok: true };
+  } catch (error) {
+    return { ok: false, version, reason: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+let ready: Promise<StorageStatus> | null = null;
+
+// Run pending migrations once per app launch. Every storage read waits
+// on this, so screens never see data from an older schema. A failure is
+// reported to the caller and retried on the next call.
+export function ensureStorageReady(): Promise<StorageStatus> {
+  if (!ready) {
+    ready = runMigrations().then((status) => {
+      if (!status.ok) {
+        console.error(`[Storage] Migration to v${status.version} failed: ${status.reason}`);
+        ready = null;
+      }
+      return status;
+    });
+  }
+  return ready;
+}
@@ -0,0 +1,370 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  Dimensions,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import Svg, { Circle, Polyline } from 'react-native-svg';
+
+import { RoutePoint, loadRoute } from '../routeStore';
+import { Trip, queryTrips } from '../tripRepository';
+import { GroupBy, periodEnd, summarizeSection } from '../tripSections';
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const MAP_WIDTH = SCREEN_WIDTH - 48;
+const MAP_HEIGHT = 280;
+const MAP_PADDING = 16;
+// Shared between all the routes on the map
+const MAX_MAP_POINTS = 3000;
+
+// One colour per trip, reused in order when there are more trips
+const ROUTE_COLORS = ['#00AAFF', '#10B981', '#F59E0B', '#A855F7', '#EC4899', '#EF4444', '#14B8A6', '#F97316'];
+
+const routeColor = (index: number) => ROUTE_COLORS[index % ROUTE_COLORS.length];
+
+// Every route of the period drawn on one map, in the colour of its trip
+// in the list below
+const CombinedRouteMap = ({ routes }: { routes: { color: string; points: RoutePoint[] }[] }) => {
+  const { lines, starts } = useMemo(() => {
+    const budget = Math.max(2, Math.floor(MAX_MAP_POINTS / routes.length));
+    const sampled = routes.map(({ color, points }) => {
+      const step = Math.ceil(points.length / budget);
+      return { color, points: points.filter((_, i) => i % step === 0 || i === points.length - 1) };
+    });
+
+    const all = sampled.flatMap((route) => route.points);
+    const lats = all.map((p) => p.latitude);
+    const lons = all.map((p) => p.longitude);
+    const minLat = Math.min(...lats);
+    const maxLat = Math.max(...lats);
+    const minLon = Math.min(...lons);
+    const maxLon = Math.max(...lons);
+
+    // Same projection as the trip map
+    const lonScale = Math.cos(((minLat + maxLat) / 2) * Math.PI / 180);
+    const spanX = Math.max((maxLon - minLon) * lonScale, 1e-6);
+    const spanY = Math.max(maxLat - minLat, 1e-6);
+    const scale = Math.min(
+      (MAP_WIDTH - MAP_PADDING * 2) / spanX,
+      (MAP_HEIGHT - MAP_PADDING * 2) / spanY
+    );
+    const offsetX = (MAP_WIDTH - spanX * scale) / 2;
+    const offsetY = (MAP_HEIGHT - spanY * scale) / 2;
+
+    const project = (latitude: number, longitude: number) => ({
+      x: offsetX + (longitude - minLon) * lonScale * scale,
+      y: MAP_HEIGHT - (offsetY + (latitude - minLat) * scale),
+    });
+
+    return {
+      lines: sampled.map(({ color, points }) => ({
+        color,
+        points: points
+          .map((p) => {
+            const { x, y } = project(p.latitude, p.longitude);
+            return `${x.toFixed(1)},${y.toFixed(1)}`;
+          })
+          .join(' '),
+      })),
+      starts: sampled.map(({ color, points }) => ({ color, ...project(points[0].latitude, points[0].longitude) })),
+    };
+  }, [routes]);
+
+  return (
+    <View style={styles.mapCard}>
+      <Svg width={MAP_WIDTH} height={MAP_HEIGHT}>
+        {lines.map((line, i) => (
+          <Polyline
+            key={i}
+            points={line.points}
+            fill="none"
+            stroke={line.color}
+            strokeWidth={4}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        ))}
+        {starts.map((start, i) => (
+          <Circle key={i} cx={start.x} cy={start.y} r={5} fill="#FFFFFF" stroke={start.color} strokeWidth={3} />
+        ))}
+      </Svg>
+    </View>
+  );
+};
+
+export default function PeriodSummaryScreen() {
+  const params = useLocalSearchParams<{ start: string; groupBy?: GroupBy }>();
+  const router = useRouter();
+  const start = Number(params.start);
+  const groupBy: GroupBy = params.groupBy || 'day';
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [routes, setRoutes] = useState<Record<string, RoutePoint[]>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchPeriod();
+  }, [params.start, groupBy]);
+
+  const fetchPeriod = async () => {
+    try {
+      // Oldest first, the order the drives happened in
+      const found = (await queryTrips({ from: start, to: periodEnd(start, groupBy) })).reverse();
+      setTrips(found);
+
+      const loaded: Record<string, RoutePoint[]> = {};
+      for (const trip of found) {
+        if (trip.route_key) {
+          const route = await loadRoute(trip.route_key);
+          if (route.length > 1) loaded[trip.id] = route;
+        }
+      }
+      setRoutes(loaded);
+    } catch (error) {
+      console.error('Error loading period summary:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const summary = useMemo(() => summarizeSection(trips), [trips]);
+  const mapRoutes = useMemo(
+    () =>
+      trips
+        .map((trip, i) => ({ color: routeColor(i), points: routes[trip.id] }))
+        .filter((route): route is { color: string; points: RoutePoint[] } => route.points !== undefined),
+    [trips, routes]
+  );
+
+  const formatPeriod = () => {
+    const date = new Date(start);
+    if (groupBy === 'month') {
+      return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    }
+    if (groupBy === 'week') {
+      return `Week of ${date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`;
+    }
+    return date.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+  };
+
+  const formatTime = (dateString: string) =>
+    new Date(dateString).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+  const formatDuration = (minutes: number) => {
+    if (minutes < 60) {
+      return `${Math.round(minutes)} min`;
+    }
+    const hours = Math.floor(minutes / 60);
+    const mins = Math.round(minutes % 60);
+    return `${hours}h ${mins}m`;
+  };
+
+  const getScoreColor = (score: number) => {
+    if (score >= 80) return '#10B981';
+    if (score >= 60) return '#F59E0B';
+    return '#EF4444';
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#0066CC" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const withoutRoute = trips.length - mapRoutes.length;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        <Text style={styles.periodTitle}>{formatPeriod()}</Text>
+
+        {/* Summary */}
+        <View style={styles.statsGrid}>
+          <View style={styles.statCard}>
+            <Ionicons name="car-sport" size={24} color="#00AAFF" />
+            <Text style={styles.statValue}>{summary.count}</Text>
+            <Text style={styles.statLabel}>{summary.count === 1 ? 'Trip' : 'Trips'}</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Ionicons name="navigate" size={24} color="#10B981" />
+            <Text style={styles.statValue}>{summary.distanceKm.toFixed(1)}</Text>
+            <Text style={styles.statLabel}>Kilometers</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Ionicons name="time" size={24} color="#A855F7" />
+            <Text style={styles.statValue}>{formatDuration(summary.durationMinutes)}</Text>
+            <Text style={styles.statLabel}>Driving Time</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Ionicons name="trophy" size={24} color={getScoreColor(summary.score)} />
+            <Text style={[styles.statValue, { color: getScoreColor(summary.score) }]}>{summary.score}</Text>
+            <Text style={styles.statLabel}>Score, weighted by distance</Text>
+          </View>
+        </View>
+
+        {/* Routes */}
+        {mapRoutes.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Routes</Text>
+            <CombinedRouteMap routes={mapRoutes} />
+            {withoutRoute > 0 && (
+              <Text style={styles.noteText}>
+                {withoutRoute} {withoutRoute === 1 ? 'trip has' : 'trips have'} no route stored on this device
+              </Text>
+            )}
+          </View>
+        )}
+
+        {/* Trips */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Trips</Text>
+          {trips.length === 0 ? (
+            <Text style={styles.noteText}>No trips stored on this device for this period</Text>
+          ) : (
+            <View style={styles.tripsCard}>
+              {trips.map((trip, i) => (
+                <View key={trip.id}>
+                  {i > 0 && <View style={styles.tripDivider} />}
+                  <TouchableOpacity style={styles.tripRow} onPress={() => router.push(`/trip/${trip.id}`)}>
+                    <View style={[styles.tripSwatch, { backgroundColor: routes[trip.id] ? routeColor(i) : '#4B5563' }]} />
+                    <View style={styles.tripInfo}>
+                      <Text style={styles.tripTitle} numberOfLines={1}>
+                        {trip.name || `${formatTime(trip.start_time)} – ${formatTime(trip.end_time)}`}
+                      </Text>
+                      <Text style={styles.tripMeta}>
+                        {trip.name ? `${formatTime(trip.start_time)} · ` : ''}
+                        {trip.distance_km.toFixed(1)} km · {formatDuration(trip.duration_minutes)}
+                      </Text>
+                    </View>
+                    <Text style={[styles.tripScore, { color: getScoreColor(trip.score) }]}>{trip.score}</Text>
+                    <Ionicons name="chevron-forward" size={18} color="#4B5563" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0A1628',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollContent: {
+    padding: 24,
+    paddingBottom: 40,
+  },
+  periodTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginBottom: 16,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 24,
+  },
+  statCard: {
+    backgroundColor: '#0F1F38',
+    borderRadius: 16,
+    padding: 16,
+    width: '47%',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#1E3A5F',
+  },
+  statValue: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginTop: 8,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginBottom: 12,
+  },
+  mapCard: {
+    backgroundColor: '#0F1F38',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#1E3A5F',
+    overflow: 'hidden',
+  },
+  noteText: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 8,
+  },
+  tripsCard: {
+    backgroundColor: '#0F1F38',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#1E3A5F',
+  },
+  tripRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 12,
+  },
+  tripSwatch: {
+    width: 6,
+    height: 36,
+    borderRadius: 3,
+  },
+  tripInfo: {
+    flex: 1,
+  },
+  tripTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  tripMeta: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  tripScore: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  tripDivider: {
+    height: 1,
+    backgroundColor: '#1E3A5F',
+    marginVertical: 4,
+  },
+});
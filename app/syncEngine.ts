@@ -0,0 +1,428 @@
+// ============================================
+// Sync Engine
+// Uploads unsynced trips to the backend in batches, replays deletes
+// made while offline and pulls server-side edits and deletions back.
+// Trip ids (trip_<timestamp>_<rand>) are stable, so re-uploading a
+// batch after a lost response is harmless: the server upserts by id.
+// ============================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  API_URL,
+  Trip,
+  getDeviceId,
+  getPendingDeletes,
+  listUnsyncedTripIds,
+  loadLocalTrips,
+  markTripsSynced,
+  setPendingDeletes,
+  updateLocalTrips,
+} from './tripRepository';
+import { validateTrip } from './storage';
+
+const SYNC_STATUS_KEY = 'driveiq_sync_status';
+const SYNC_REJECTED_KEY = 'driveiq_sync_rejected';
+
+// Statuses refusing one trip rather than the request: the trip is set
+// aside and the rest of the queue carries on. Any other 4xx (expired
+// auth, forbidden, payload too large) fails the whole run instead.
+const ITEM_REJECTION_STATUSES = [400, 409, 422];
+
+// Fields only this phone has; a server copy never overwrites them
+const LOCAL_ONLY_FIELDS = ['route_key', 'events', 'segments', 'discarded_fixes'] as const;
+
+export interface SyncStatus {
+  pendingCount: number;
+  rejectedCount: number; // set aside until the driver retries them
+  lastAttemptAt: string | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  inProgress: boolean;
+}
+
+export interface SyncResult {
+  uploaded: number;
+  deleted: number;
+  pulled: number;
+  removedLocally: number;
+}
+
+// An upload or delete the server refused outright. It is set aside so
+// one bad item can't hold up the rest of the queue; rejected trips stay
+// on the phone but aren't offered to the server again until retried.
+export interface SyncRejection {
+  id: string;
+  action: 'upload' | 'delete';
+  reason: string;
+  rejectedAt: string;
+}
+
+export interface SyncOptions {
+  baseUrl?: string;
+  fetchImpl?: typeof fetch;
+  batchSize?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+// Raised for responses that retrying cannot fix (4xx other than 408/429)
+class PermanentSyncError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const isItemRejection = (error: unknown): error is PermanentSyncError =>
+  error instanceof PermanentSyncError && ITEM_REJECTION_STATUSES.includes(error.status);
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+let status: SyncStatus = {
+  pendingCount: 0,
+  rejectedCount: 0,
+  lastAttemptAt: null,
+  lastSuccessAt: null,
+  lastError: null,
+  inProgress: false,
+};
+let statusLoaded = false;
+const listeners = new Set<(status: SyncStatus) => void>();
+let running: Promise<SyncResult | null> | null = null;
+
+export async function getSyncRejections(): Promise<SyncRejection[]> {
+  try {
+    const raw = await AsyncStorage.getItem(SYNC_REJECTED_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error('[Sync] Error reading rejections:', error);
+    return [];
+  }
+}
+
+async function recordRejections(rejections: SyncRejection[]): Promise<void> {
+  if (rejections.length === 0) return;
+  rejections.forEach((r) => console.warn(`[Sync] Server rejected ${r.action} of ${r.id}: ${r.reason}`));
+  const isNew = (r: SyncRejection) => !rejections.some((n) => n.id === r.id && n.action === r.action);
+  const kept = (await getSyncRejections()).filter(isNew);
+  await AsyncStorage.setItem(SYNC_REJECTED_KEY, JSON.stringify([...kept, ...rejections]));
+}
+
+// Unsynced trips still to offer to the server
+async function listUploadableTripIds(): Promise<string[]> {
+  const rejected = new Set(
+    (await getSyncRejections()).filter((r) => r.action === 'upload').map((r) => r.id)
+  );
+  return (await listUnsyncedTripIds()).filter((id) => !rejected.has(id));
+}
+
+async function countPending(): Promise<number> {
+  const unsynced = await listUploadableTripIds();
+  const deletes = await getPendingDeletes();
+  return unsynced.length + deletes.length;
+}
+
+async function setStatus(patch: Partial<SyncStatus>): Promise<void> {
+  status = { ...status, ...patch };
+  listeners.forEach((listener) => listener(status));
+  const { inProgress, pendingCount, rejectedCount, ...persisted } = status;
+  await AsyncStorage.setItem(SYNC_STATUS_KEY, JSON.stringify(persisted));
+}
+
+export async function getSyncStatus(): Promise<SyncStatus> {
+  if (!statusLoaded) {
+    const raw = await AsyncStorage.getItem(SYNC_STATUS_KEY);
+    if (raw) {
+      status = { ...status, ...JSON.parse(raw) };
+    }
+    statusLoaded = true;
+  }
+  status = { ...status, pendingCount: await countPending(), rejectedCount: (await getSyncRejections()).length };
+  return status;
+}
+
+export function subscribeSyncStatus(listener: (status: SyncStatus) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Run one request, retrying network failures and 5xx/408/429 with
+// exponential backoff and jitter
+async function requestWithRetry(
+  url: string,
+  init: RequestInit,
+  options: Required<SyncOptions>
+): Promise<Response> {
+  let lastError: unknown = null;
+
+  for (let attempt = 0; attempt <= options.maxRetries; attempt++) {
+    if (attempt > 0) {
+      const delay = options.baseDelayMs * Math.pow(2, attempt - 1);
+      await options.sleep(delay + Math.random() * delay * 0.2);
+    }
+
+    try {
+      const response = await options.fetchImpl(url, init);
+      if (response.ok || response.status === 404) {
+        return response;
+      }
+      if (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429) {
+        throw new PermanentSyncError(`${init.method || 'GET'} ${url} failed with ${response.status}`, response.status);
+      }
+      lastError = new Error(`${init.method || 'GET'} ${url} failed with ${response.status}`);
+    } catch (error) {
+      if (error instanceof PermanentSyncError) {
+        throw error;
+      }
+      lastError = error;
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error(String(lastError));
+}
+
+const jsonInit = (method: string, body?: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: body === undefined ? undefined : JSON.stringify(body),
+});
+
+const rejectionOf = (id: string, action: SyncRejection['action'], error: Error): SyncRejection => ({
+  id,
+  action,
+  reason: error.message,
+  rejectedAt: new Date().toISOString(),
+});
+
+function uploadTrips(trips: Trip[], deviceId: string, options: Required<SyncOptions>): Promise<Response> {
+  const payload = trips.map(({ synced, route_key, ...trip }) => trip);
+  return requestWithRetry(
+    `${options.baseUrl}/api/trips`,
+    jsonInit('POST', { device_id: deviceId, trips: payload }),
+    options
+  );
+}
+
+// Upload a batch. When the server refuses a trip in it, the trips are
+// sent one at a time to find the ones it won't take. Resolves to the
+// accepted trips.
+async function uploadBatch(batch: Trip[], deviceId: string, options: Required<SyncOptions>): Promise<Trip[]> {
+  try {
+    await uploadTrips(batch, deviceId, options);
+    return batch;
+  } catch (error) {
+    if (!isItemRejection(error)) {
+      throw error;
+    }
+  }
+
+  const accepted: Trip[] = [];
+  const rejected: SyncRejection[] = [];
+  for (const trip of batch) {
+    try {
+      await uploadTrips([trip], deviceId, options);
+      accepted.push(trip);
+    } catch (error) {
+      if (!isItemRejection(error)) {
+        await recordRejections(rejected);
+        throw error;
+      }
+      rejected.push(rejectionOf(trip.id, 'upload', error));
+    }
+  }
+  await recordRejections(rejected);
+  return accepted;
+}
+
+async function pushTrips(deviceId: string, options: Required<SyncOptions>): Promise<number> {
+  const unsynced = await listUploadableTripIds();
+  let uploaded = 0;
+
+  for (let i = 0; i < unsynced.length; i += options.batchSize) {
+    const loaded = await loadLocalTrips(unsynced.slice(i, i + options.batchSize));
+    if (loaded.length === 0) {
+      continue;
+    }
+    const batch = await uploadBatch(loaded, deviceId, options);
+    if (batch.length === 0) {
+      continue;
+    }
+
+    const missing = await markTripsSynced(batch.map((t) => t.id));
+
+    // Deleted locally while the upload was in flight
+    if (missing.length > 0) {
+      const pending = await getPendingDeletes();
+      await setPendingDeletes([...new Set([...pending, ...missing])]);
+    }
+    uploaded += batch.length;
+  }
+  return uploaded;
+}
+
+async function pushDeletes(options: Required<SyncOptions>): Promise<number> {
+  const pending = await getPendingDeletes();
+  const done: string[] = [];
+  const rejected: SyncRejection[] = [];
+
+  try {
+    for (const id of pending) {
+      try {
+        await requestWithRetry(`${options.baseUrl}/api/trips/${id}`, { method: 'DELETE' }, options);
+      } catch (error) {
+        if (!isItemRejection(error)) {
+          throw error;
+        }
+        // Dropped from the queue; retrying won't change the answer
+        rejected.push(rejectionOf(id, 'delete', error));
+      }
+      done.push(id);
+    }
+  } finally {
+    await recordRejections(rejected);
+    const remaining = (await getPendingDeletes()).filter((id) => !done.includes(id));
+    await setPendingDeletes(remaining);
+  }
+  return done.length - rejected.length;
+}
+
+// The server returns every trip it holds for this device. Synced local
+// trips missing from that list were deleted on the server.
+async function pullTrips(
+  deviceId: string,
+  options: Required<SyncOptions>
+): Promise<{ pulled: number; removedLocally: number }> {
+  const response = await requestWithRetry(
+    `${options.baseUrl}/api/trips?device_id=${encodeURIComponent(deviceId)}`,
+    { method: 'GET' },
+    options
+  );
+  if (response.status === 404) {
+    return { pulled: 0, removedLocally: 0 };
+  }
+
+  const body = await response.json();
+  if (!Array.isArray(body)) {
+    throw new Error('Backend trip list is not an array');
+  }
+  const remoteTrips = body.flatMap((record): Trip[] => {
+    const result = validateTrip(record);
+    if ('error' in result) {
+      console.warn(`[Sync] Skipping invalid remote trip: ${result.error}`);
+      return [];
+    }
+    return [result.trip];
+  });
+  const remoteById = new Map(remoteTrips.map((t) => [t.id, t]));
+  const pendingDeletes = new Set(await getPendingDeletes());
+
+  return updateLocalTrips((trips) => {
+    const put: Trip[] = [];
+    const remove: string[] = [];
+    const localIds = new Set(trips.map((t) => t.id));
+
+    for (const trip of trips) {
+      if (!trip.synced) {
+        continue;
+      }
+      const remote = remoteById.get(trip.id);
+      if (!remote) {
+        remove.push(trip.id);
+        continue;
+      }
+      const updated: Trip = { ...trip, ...remote, synced: true };
+      const keepLocal = <K extends (typeof LOCAL_ONLY_FIELDS)[number]>(field: K) => {
+        updated[field] = trip[field];
+      };
+      LOCAL_ONLY_FIELDS.forEach(keepLocal);
+      if (JSON.stringify(updated) !== JSON.stringify(trip)) {
+        put.push(updated);
+      }
+    }
+
+    for (const remote of remoteTrips) {
+      if (!localIds.has(remote.id) && !pendingDeletes.has(remote.id)) {
+        put.push({ ...remote, synced: true, route_key: null });
+      }
+    }
+
+    return { put, remove, result: { pulled: put.length, removedLocally: remove.length } };
+  });
+}
+
+async function runSync(options: Required<SyncOptions>): Promise<SyncResult> {
+  const deviceId = await getDeviceId();
+  const deleted = await pushDeletes(options);
+  const uploaded = await pushTrips(deviceId, options);
+  const { pulled, removedLocally } = await pullTrips(deviceId, options);
+  return { uploaded, deleted, pulled, removedLocally };
+}
+
+// Sync everything once. Concurrent calls share the same run.
+// Resolves to null when there is no backend or the sync failed;
+// the failure is recorded in the sync status.
+export function syncTrips(overrides: SyncOptions = {}): Promise<SyncResult | null> {
+  if (running) {
+    return running;
+  }
+
+  const options: Required<SyncOptions> = {
+    baseUrl: API_URL,
+    fetchImpl: (...args) => fetch(...args),
+    batchSize: 20,
+    maxRetries: 4,
+    baseDelayMs: 1000,
+    sleep: defaultSleep,
+    ...overrides,
+  };
+
+  running = (async () => {
+    if (!options.baseUrl) {
+      console.log('[Sync] No backend URL configured, skipping');
+      return null;
+    }
+
+    await getSyncStatus();
+    const startedAt = new Date().toISOString();
+    await setStatus({ inProgress: true, lastAttemptAt: startedAt });
+
+    try {
+      const result = await runSync(options);
+      console.log('[Sync] Done', JSON.stringify(result));
+      await setStatus({
+        inProgress: false,
+        lastSuccessAt: new Date().toISOString(),
+        lastError: null,
+        pendingCount: await countPending(),
+        rejectedCount: (await getSyncRejections()).length,
+      });
+      return result;
+    } catch (error: any) {
+      console.error('[Sync] Failed:', error);
+      await setStatus({
+        inProgress: false,
+        lastError: error?.message || String(error),
+        pendingCount: await countPending(),
+        rejectedCount: (await getSyncRejections()).length,
+      });
+      return null;
+    }
+  })().finally(() => {
+    running = null;
+  });
+
+  return running;
+}
+
+// Offer everything set aside to the server again: rejected uploads go
+// back into the upload queue and refused deletes are queued once more
+export async function retrySyncRejections(overrides: SyncOptions = {}): Promise<SyncResult | null> {
+  const deletes = (await getSyncRejections()).filter((r) => r.action === 'delete').map((r) => r.id);
+  if (deletes.length > 0) {
+    await setPendingDeletes([...new Set([...(await getPendingDeletes()), ...deletes])]);
+  }
+  await AsyncStorage.removeItem(SYNC_REJECTED_KEY);
+  return syncTrips(overrides);
+}
@@ -0,0 +1,447 @@
+// ============================================
+// Tracking Controller
+// Owns everything about recording a trip: location permissions, the
+// background task, the foreground watcher and the trip lifecycle, on
+// both platforms. Screens subscribe to its state instead of keeping
+// their own copy, so a trip started or ended anywhere (a button, auto
+// detection, crash recovery) shows up everywhere. The replay mode for
+// development feeds fixes through the same path as the live watcher.
+// ============================================
+
+import { useEffect, useState } from 'react';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import * as Location from 'expo-location';
+import { checkTaskStatus, startBackgroundTask, stopBackgroundTask } from './locationTask';
+import {
+  BufferedLocation,
+  TripOrigin,
+  appendLocations,
+  appendMotionEvents,
+  beginTripBuffer,
+  clearTripBuffer,
+  loadTripBuffer,
+  setTripPaused,
+  subscribeActiveTripChanges,
+} from './tripBuffer';
+import {
+  Fix,
+  PauseReason,
+  TripAnalyzer,
+  TripEvent,
+  TripSummary,
+  createTripAnalyzer,
+  fromLocation,
+  toKmh,
+} from './tripAnalysis';
+import {
+  FinishedTrip,
+  createTripId,
+  finishBufferedTrip,
+  loadRecordingOptions,
+  rebuildAnalyzer,
+} from './tripRecorder';
+import { ensureAutoTripMonitoring } from './autoTrip';
+import type { MotionContext } from './motionAnalysis';
+import { reportInteraction, startMotionSensors, stopMotionSensors } from './motionSensors';
+
+export type TrackingPhase = 'idle' | 'starting' | 'recording' | 'paused' | 'stopping';
+
+export interface TrackingPermissions {
+  foreground: boolean;
+  background: boolean;
+}
+
+export interface TrackingState {
+  phase: TrackingPhase;
+  tripId: string | null;
+  origin: TripOrigin | null;
+  summary: TripSummary | null; // live summary of the trip being recorded
+  pause: PauseReason | null; // why the trip is paused, while it is
+  currentSpeedKmh: number;
+  permissions: TrackingPermissions;
+  // Whether the background task is recording this trip; without it the
+  // trip only records while the app is open
+  backgroundActive: boolean;
+  replay: ReplayInfo | null; // set while the trip is a replay
+}
+
+export interface ReplayInfo {
+  label: string;
+  rate: number; // 1 is real time
+  progress: number; // share of the fixes fed so far, 0 to 1
+}
+
+export type StartResult = 'started' | 'busy' | 'no_permission' | 'task_unavailable';
+
+const IDLE: Omit<TrackingState, 'permissions'> = {
+  phase: 'idle',
+  tripId: null,
+  origin: null,
+  summary: null,
+  pause: null,
+  currentSpeedKmh: 0,
+  backgroundActive: false,
+  replay: null,
+};
+
+let state: TrackingState = { ...IDLE, permissions: { foreground: false, background: false } };
+let analyzer: TripAnalyzer | null = null;
+let watcher: Location.LocationSubscription | null = null;
+let lastFix: Fix | null = null;
+let replayTimer: ReturnType<typeof setTimeout> | null = null;
+let appStateSubscription: NativeEventSubscription | null = null;
+const listeners = new Set<(state: TrackingState) => void>();
+const eventListeners = new Set<(events: TripEvent[]) => void>();
+
+const isActive = (phase: TrackingPhase) => phase === 'recording' || phase === 'paused';
+
+// The analyzer decides whether the trip is paused, manually or because
+// the car has been standing still
+function fromSummary(summary: TripSummary): Partial<TrackingState> {
+  return { phase: summary.pause ? 'paused' : 'recording', pause: summary.pause, summary };
+}
+
+function setState(patch: Partial<TrackingState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((listener) => listener(state));
+}
+
+export const getTrackingState = () => state;
+
+export function subscribeTracking(listener: (state: TrackingState) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Driving events as they are detected live, for haptics and toasts
+export function subscribeTripEvents(listener: (events: TripEvent[]) => void): () => void {
+  eventListeners.add(listener);
+  return () => {
+    eventListeners.delete(listener);
+  };
+}
+
+export function useTrackingState(): TrackingState {
+  const [current, setCurrent] = useState(state);
+  useEffect(() => subscribeTracking(setCurrent), []);
+  return current;
+}
+
+// Read the current permissions, or ask for them when `request` is set.
+// Background access is what lets a trip keep recording with the screen off.
+export async function refreshPermissions(request = false): Promise<TrackingPermissions> {
+  try {
+    const foreground = request
+      ? await Location.requestForegroundPermissionsAsync()
+      : await Location.getForegroundPermissionsAsync();
+    let background = false;
+    if (foreground.status === 'granted') {
+      const result = request
+        ? await Location.requestBackgroundPermissionsAsync()
+        : await Location.getBackgroundPermissionsAsync();
+      background = result.status === 'granted';
+    }
+    setState({ permissions: { foreground: foreground.status === 'granted', background } });
+  } catch (error) {
+    console.error('[Tracking] Error checking permissions:', error);
+  }
+  return state.permissions;
+}
+
+function handleLocation(location: Location.LocationObject | BufferedLocation) {
+  if (!analyzer || !isActive(state.phase)) return;
+
+  appendLocations([location]).catch((error) =>
+    console.error('[Tracking] Error buffering location:', error)
+  );
+
+  const fix = fromLocation(location);
+  lastFix = fix;
+  const events = analyzer.addFix(fix);
+  setState({ ...fromSummary(analyzer.getSummary()), currentSpeedKmh: toKmh(fix) });
+
+  if (events.length > 0) {
+    eventListeners.forEach((listener) => listener(events));
+  }
+}
+
+const motionContext = (): MotionContext | null =>
+  lastFix && { latitude: lastFix.latitude, longitude: lastFix.longitude, speedKmh: toKmh(lastFix) };
+
+function handleMotionEvents(events: TripEvent[]) {
+  if (!analyzer || !isActive(state.phase)) return;
+
+  appendMotionEvents(events).catch((error) =>
+    console.error('[Tracking] Error buffering motion events:', error)
+  );
+  analyzer.addMotionEvents(events);
+  setState(fromSummary(analyzer.getSummary()));
+  eventListeners.forEach((listener) => listener(events));
+}
+
+// Hand over whatever the sensors were still measuring before they stop
+async function stopMotion(): Promise<void> {
+  const pending = stopMotionSensors();
+  if (pending.length > 0 && analyzer) {
+    analyzer.addMotionEvents(pending);
+    await appendMotionEvents(pending);
+  }
+}
+
+async function startWatcher() {
+  if (watcher || AppState.currentState !== 'active' || state.origin === 'replay') return;
+  watcher = await Location.watchPositionAsync(
+    {
+      accuracy: Location.Accuracy.BestForNavigation,
+      timeInterval: 1000,
+      distanceInterval: 1,
+    },
+    handleLocation
+  );
+  console.log('[Tracking] Foreground watcher started');
+}
+
+function stopWatcher() {
+  if (watcher) {
+    watcher.remove();
+    watcher = null;
+    console.log('[Tracking] Foreground watcher stopped');
+  }
+}
+
+// Bring the state in line with the persisted buffer: pick up a trip
+// started elsewhere, replay fixes the background task recorded while
+// the app was away, or notice a trip that was finished elsewhere.
+export async function attachToActiveTrip(): Promise<void> {
+  if (state.phase === 'starting' || state.phase === 'stopping') return;
+
+  const buffer = await loadTripBuffer();
+  if (!buffer) {
+    if (state.phase !== 'idle') {
+      console.log(`[Tracking] Trip ${state.tripId} was finished elsewhere`);
+      stopWatcher();
+      stopMotionSensors();
+      analyzer = null;
+      lastFix = null;
+      setState(IDLE);
+    }
+    return;
+  }
+
+  analyzer = rebuildAnalyzer(buffer, await loadRecordingOptions());
+  const last = buffer.locations[buffer.locations.length - 1];
+  lastFix = last ? fromLocation(last) : null;
+  const { isRegistered } = await checkTaskStatus();
+  setState({
+    ...fromSummary(analyzer.getSummary()),
+    tripId: buffer.id,
+    origin: buffer.origin,
+    currentSpeedKmh: last ? toKmh(fromLocation(last)) : 0,
+    backgroundActive: isRegistered,
+  });
+
+  try {
+    await startWatcher();
+  } catch (error) {
+    console.error('[Tracking] Could not start foreground watcher:', error);
+  }
+  if (AppState.currentState === 'active' && buffer.origin !== 'replay') {
+    await startMotionSensors(motionContext, handleMotionEvents).catch((error) =>
+      console.error('[Tracking] Could not start motion sensors:', error)
+    );
+  }
+}
+
+async function handleAppStateChange(next: AppStateStatus) {
+  if (next === 'active') {
+    await attachToActiveTrip();
+    // Opening the app mid-trip means the phone is in the driver's hand
+    const context = motionContext();
+    if (isActive(state.phase) && context) {
+      reportInteraction(context);
+    }
+    return;
+  }
+  await stopMotion();
+  if (state.backgroundActive) {
+    // The background task keeps recording; the watcher would only
+    // duplicate its fixes
+    stopWatcher();
+  }
+}
+
+// Wire up app state handling and pick up any trip already in progress.
+// Called once from RootLayout, after crash recovery has run.
+export async function initTracking(): Promise<void> {
+  if (!appStateSubscription) {
+    appStateSubscription = AppState.addEventListener('change', handleAppStateChange);
+    subscribeActiveTripChanges(() => {
+      attachToActiveTrip();
+    });
+  }
+  await refreshPermissions(false);
+  await attachToActiveTrip();
+}
+
+export async function startTrip(): Promise<StartResult> {
+  if (state.phase !== 'idle') return 'busy';
+
+  const permissions = await refreshPermissions(false);
+  if (!permissions.foreground) return 'no_permission';
+
+  const { isDefined } = await checkTaskStatus();
+  if (!isDefined) {
+    console.error('[Tracking] Background task not defined! Check index.js');
+    return 'task_unavailable';
+  }
+
+  const tripId = createTripId();
+  const startTime = new Date();
+  setState({ ...IDLE, phase: 'starting', tripId, origin: 'manual' });
+
+  try {
+    const options = await loadRecordingOptions();
+    analyzer = createTripAnalyzer({ ...options, startTime: startTime.getTime() });
+    await beginTripBuffer(tripId, startTime, 'manual');
+
+    const backgroundActive = permissions.background && (await startBackgroundTask('recording'));
+    if (!backgroundActive) {
+      console.warn('[Tracking] Recording in the foreground only');
+    }
+    await startWatcher();
+    lastFix = null;
+    await startMotionSensors(motionContext, handleMotionEvents).catch((error) =>
+      console.error('[Tracking] Could not start motion sensors:', error)
+    );
+
+    setState({ phase: 'recording', summary: analyzer.getSummary(), backgroundActive });
+    console.log(`[Tracking] Started trip ${tripId}`);
+    return 'started';
+  } catch (error) {
+    stopWatcher();
+    stopMotionSensors();
+    analyzer = null;
+    await stopBackgroundTask();
+    await clearTripBuffer();
+    setState(IDLE);
+    await ensureAutoTripMonitoring();
+    throw error;
+  }
+}
+
+// Development aid: feed `fixes` through the live pipeline (analyzer,
+// buffer, gauge, toasts and haptics) at `rate` times real time, shifted
+// to start now. The trip is saved as simulated when the fixes run out
+// or it is stopped.
+export async function startReplay(fixes: Fix[], label: string, rate = 1): Promise<StartResult> {
+  if (state.phase !== 'idle') return 'busy';
+  if (fixes.length === 0) {
+    throw new Error('Nothing to replay');
+  }
+
+  const tripId = createTripId();
+  const startTime = Date.now();
+  const offset = startTime - fixes[0].timestamp;
+  setState({ ...IDLE, phase: 'starting', tripId, origin: 'replay' });
+
+  try {
+    // Monitoring fixes would otherwise be recorded into the replay
+    await stopBackgroundTask();
+    analyzer = createTripAnalyzer({ ...(await loadRecordingOptions()), startTime });
+    await beginTripBuffer(tripId, new Date(startTime), 'replay');
+  } catch (error) {
+    analyzer = null;
+    await clearTripBuffer();
+    setState(IDLE);
+    await ensureAutoTripMonitoring();
+    throw error;
+  }
+  lastFix = null;
+  setState({ phase: 'recording', summary: analyzer.getSummary(), replay: { label, rate, progress: 0 } });
+  console.log(`[Tracking] Replaying ${fixes.length} fixes of ${label} at ${rate}x as ${tripId}`);
+
+  const step = (i: number) => {
+    replayTimer = null;
+    if (state.tripId !== tripId || !isActive(state.phase)) return;
+    if (i >= fixes.length) {
+      stopTrip().catch((error) => console.error('[Tracking] Error finishing replay:', error));
+      return;
+    }
+
+    const { timestamp, latitude, longitude, speed, accuracy, heading } = fixes[i];
+    handleLocation({
+      timestamp: timestamp + offset,
+      coords: { latitude, longitude, speed, accuracy: accuracy ?? null, heading: heading ?? null },
+    });
+    setState({ replay: { label, rate, progress: (i + 1) / fixes.length } });
+
+    const next = fixes[i + 1];
+    replayTimer = setTimeout(() => step(i + 1), next ? Math.max(0, (next.timestamp - timestamp) / rate) : 0);
+  };
+  step(0);
+  return 'started';
+}
+
+// Pause the trip by hand, e.g. for a fuel stop. Fixes keep being
+// recorded, but nothing until resumeTrip counts towards the trip.
+export async function pauseTrip(): Promise<void> {
+  if (!analyzer || !isActive(state.phase) || state.pause === 'manual') return;
+  const at = Date.now();
+  if (await setTripPaused(true, at)) {
+    analyzer.pause(at);
+    setState(fromSummary(analyzer.getSummary()));
+  }
+}
+
+export async function resumeTrip(): Promise<void> {
+  if (!analyzer || state.pause !== 'manual') return;
+  const at = Date.now();
+  if (await setTripPaused(false, at)) {
+    analyzer.resume(at);
+    setState(fromSummary(analyzer.getSummary()));
+  }
+}
+
+// Stop recording and save the trip. Resolves to null when the trip had
+// already been finished elsewhere (e.g. auto-stopped in the background).
+export async function stopTrip(): Promise<FinishedTrip | null> {
+  if (!isActive(state.phase) || !state.tripId) return null;
+
+  const { tripId, phase } = state;
+  setState({ phase: 'stopping' });
+
+  // An accelerated replay runs ahead of the clock, so it ends at its
+  // last fix rather than now
+  const replaying = state.origin === 'replay';
+  if (replayTimer) {
+    clearTimeout(replayTimer);
+    replayTimer = null;
+  }
+
+  try {
+    stopWatcher();
+    await stopMotion();
+    await stopBackgroundTask();
+    const finished = await finishBufferedTrip({
+      expectedId: tripId,
+      endAt: replaying && lastFix ? lastFix.timestamp : undefined,
+    });
+    analyzer = null;
+    lastFix = null;
+    setState(IDLE);
+    await ensureAutoTripMonitoring();
+    return finished;
+  } catch (error) {
+    // The buffer is still in place, so carry on recording and let the
+    // driver try again
+    setState({ phase });
+    if (state.backgroundActive) {
+      await startBackgroundTask('recording');
+    }
+    await startWatcher().catch(() => undefined);
+    await startMotionSensors(motionContext, handleMotionEvents).catch(() => false);
+    throw error;
+  }
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -7,43 +7,327 @@ import {
   ActivityIndicator,
   Alert,
   TouchableOpacity,
+  Dimensions,
+  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useLocalSearchParams, useRouter } from 'expo-router';
+import Svg, { Circle, G, Polyline } from 'react-native-svg';
 
-const API_URL = process.env.EXPO_PUBLIC_BACKEND_URL || '';
-
-interface Trip {
-  id: string;
-  start_time: string;
-  end_time: string;
-  distance_km: number;
-  duration_minutes: number;
-  max_speed: number;
-  avg_speed: number;
-  hard_brakes: number;
-  hard_accelerations: number;
-  speeding_count: number;
-  score: number;
-}
+import {
+  SPEED_BAND_COLORS,
+  TripEvent,
+  TripSegment,
+  getSpeedColor,
+} from '../tripAnalysis';
+import { CATEGORY_CAPS, SCORE_CATEGORIES, ScoreCategory, getEventSeverity } from '../scoring';
+import {
+  COMPARISON_DAYS,
+  CoachingTip,
+  CoachingTipId,
+  RecentComparison,
+  findWorstMoment,
+  getCoachingTips,
+  getRecentComparison,
+} from '../coaching';
+import { RoutePoint, loadRoute } from '../routeStore';
+import { SpeedLimitProvider, getSpeedLimitProvider } from '../speedLimits';
+import { Trip, TripSource, deleteTrip as deleteStoredTrip, getTrip, updateTripLabels } from '../tripRepository';
+import { normalizeName, normalizeTags } from '../tripFilters';
+import { startReplay } from '../trackingController';
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const MAP_WIDTH = SCREEN_WIDTH - 48;
+const MAP_HEIGHT = 240;
+const MAP_PADDING = 16;
+// Enough detail for a phone-sized map without drawing every 1 Hz fix
+const MAX_MAP_POINTS = 1500;
+
+const EVENT_STYLES: Record<TripEvent['type'], { color: string; label: string }> = {
+  hard_brake: { color: '#EF4444', label: 'Hard Brake' },
+  hard_acceleration: { color: '#F59E0B', label: 'Hard Acceleration' },
+  speeding: { color: '#8B5CF6', label: 'Speeding' },
+  harsh_cornering: { color: '#EC4899', label: 'Harsh Cornering' },
+  phone_handling: { color: '#0EA5E9', label: 'Phone Handling' },
+};
+
+const SEVERITY_LABELS = { low: 'Low', medium: 'Medium', high: 'High' };
+
+const SEGMENT_STYLES = {
+  driving: { color: '#10B981', icon: 'car-sport', label: 'Driving' },
+  manual: { color: '#F59E0B', icon: 'pause-circle', label: 'Paused' },
+  auto: { color: '#6B7280', icon: 'hourglass-outline', label: 'Auto-paused' },
+};
+
+const segmentStyle = (segment: TripSegment) =>
+  SEGMENT_STYLES[segment.type === 'paused' ? segment.reason || 'manual' : 'driving'];
+
+const CATEGORY_LABELS: Record<ScoreCategory, string> = {
+  smoothness: 'Smoothness',
+  speeding: 'Speeding',
+  distraction: 'Phone use',
+  night: 'Night driving',
+};
+
+const TIP_TEXT: Record<CoachingTipId, { icon: string; color: string; title: string; text: (tip: CoachingTip) => string }> = {
+  brake_after_speeding: {
+    icon: 'trending-down',
+    color: '#EF4444',
+    title: 'Ease off before you need to brake',
+    text: (tip) =>
+      `${tip.count} hard ${tip.count === 1 ? 'brake' : 'brakes'} came right after speeding. Keeping to the limit leaves time to slow down gently.`,
+  },
+  hard_brakes: {
+    icon: 'warning',
+    color: '#EF4444',
+    title: 'Leave more room ahead',
+    text: (tip) =>
+      `${tip.count} hard ${tip.count === 1 ? 'brake' : 'brakes'} cost ${tip.lost.toFixed(1)} points. A bigger gap to the car in front lets you brake early and smoothly.`,
+  },
+  hard_accelerations: {
+    icon: 'flash',
+    color: '#F59E0B',
+    title: 'Pull away gradually',
+    text: (tip) =>
+      `${tip.count} hard ${tip.count === 1 ? 'acceleration' : 'accelerations'} cost ${tip.lost.toFixed(1)} points. Squeeze the pedal rather than pressing it.`,
+  },
+  harsh_cornering: {
+    icon: 'git-branch',
+    color: '#EC4899',
+    title: 'Slow down before the bend',
+    text: (tip) =>
+      `${tip.count} ${tip.count === 1 ? 'turn was' : 'turns were'} taken hard. Brake on the straight and keep a steady speed through the corner.`,
+  },
+  phone_handling: {
+    icon: 'phone-portrait',
+    color: '#0EA5E9',
+    title: 'Leave the phone alone while moving',
+    text: (tip) =>
+      `You handled the phone ${tip.count} ${tip.count === 1 ? 'time' : 'times'}, costing ${tip.lost.toFixed(1)} points. Set up the route before you set off.`,
+  },
+  speeding_sustained: {
+    icon: 'speedometer',
+    color: '#8B5CF6',
+    title: 'Settle at the limit',
+    text: (tip) =>
+      `You stayed over the limit for a minute or more ${tip.count} ${tip.count === 1 ? 'time' : 'times'}. Cruise control or a speed limiter helps on long stretches.`,
+  },
+  speeding_zone: {
+    icon: 'speedometer',
+    color: '#8B5CF6',
+    title: 'Watch the limit signs',
+    text: (tip) =>
+      tip.limitKmh !== undefined
+        ? `Most of your speeding was in ${tip.limitKmh} km/h zones. Check your speed when the limit drops.`
+        : `Speeding cost ${tip.lost.toFixed(1)} points. Check your speed when the limit drops.`,
+  },
+  night: {
+    icon: 'moon',
+    color: '#6B7280',
+    title: 'Drive in daylight when you can',
+    text: (tip) =>
+      `Night driving cost ${tip.lost.toFixed(1)} points. Visibility and tiredness make late trips riskier.`,
+  },
+  smooth_driving: {
+    icon: 'checkmark-circle',
+    color: '#10B981',
+    title: 'Smooth drive',
+    text: () => 'Nothing cost you more than a point on this trip. Keep it up.',
+  },
+};
+
+const formatEventTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const describeEvent = (event: TripEvent) =>
+  `${formatEventTime(event.timestamp)} · ${event.speed} km/h · ${SEVERITY_LABELS[getEventSeverity(event)]}` +
+  (event.peakG !== undefined ? ` · ${event.peakG.toFixed(2)} g` : '') +
+  (event.limitKmh !== undefined
+    ? ` · limit ${event.limitKmh} · +${Math.round(event.overshootKmh ?? 0)} km/h for ${Math.round(event.durationMs / 1000)}s`
+    : '') +
+  (event.type === 'phone_handling' ? ` · ${Math.round(event.durationMs / 1000)}s in hand` : '');
+
+const SOURCE_LABELS: Record<TripSource, { icon: string; label: string }> = {
+  local: { icon: 'phone-portrait-outline', label: 'Stored on this device' },
+  synced: { icon: 'cloud-done-outline', label: 'On this device and synced' },
+  remote: { icon: 'cloud-outline', label: 'Stored on the server' },
+};
+
+// Route Map Component
+// Draws the route with react-native-svg, coloured by the same speed bands
+// as the live SpeedGauge against the limit at each point, with a tappable
+// pin for every driving event
+const RouteMap = ({
+  route,
+  events,
+  speedLimits,
+}: {
+  route: RoutePoint[];
+  events: TripEvent[];
+  speedLimits: SpeedLimitProvider | null;
+}) => {
+  const [selected, setSelected] = useState<TripEvent | null>(null);
+
+  const { segments, pins, start, end } = useMemo(() => {
+    const step = Math.ceil(route.length / MAX_MAP_POINTS);
+    const points = route.filter((_, i) => i % step === 0 || i === route.length - 1);
+
+    const lats = points.map((p) => p.latitude);
+    const lons = points.map((p) => p.longitude);
+    const minLat = Math.min(...lats);
+    const maxLat = Math.max(...lats);
+    const minLon = Math.min(...lons);
+    const maxLon = Math.max(...lons);
+
+    // Equirectangular projection, corrected for latitude so the shape isn't stretched
+    const lonScale = Math.cos(((minLat + maxLat) / 2) * Math.PI / 180);
+    const spanX = Math.max((maxLon - minLon) * lonScale, 1e-6);
+    const spanY = Math.max(maxLat - minLat, 1e-6);
+    const scale = Math.min(
+      (MAP_WIDTH - MAP_PADDING * 2) / spanX,
+      (MAP_HEIGHT - MAP_PADDING * 2) / spanY
+    );
+    const offsetX = (MAP_WIDTH - spanX * scale) / 2;
+    const offsetY = (MAP_HEIGHT - spanY * scale) / 2;
+
+    const project = (latitude: number, longitude: number) => ({
+      x: offsetX + (longitude - minLon) * lonScale * scale,
+      y: MAP_HEIGHT - (offsetY + (latitude - minLat) * scale),
+    });
+
+    // Consecutive points in the same speed band become one polyline
+    const lines: { color: string; points: string }[] = [];
+    let previous: string | null = null;
+    for (const point of points) {
+      const { x, y } = project(point.latitude, point.longitude);
+      const limit = speedLimits ? speedLimits.lookup(point).limitKmh : undefined;
+      const color = getSpeedColor((point.speed || 0) * 3.6, limit);
+      const coordinate = `${x.toFixed(1)},${y.toFixed(1)}`;
+      const current = lines[lines.length - 1];
+
+      if (current && current.color === color) {
+        current.points += ` ${coordinate}`;
+      } else {
+        // Start the new band where the last one ended so the line stays joined
+        lines.push({ color, points: previous ? `${previous} ${coordinate}` : coordinate });
+      }
+      previous = coordinate;
+    }
+
+    const first = points[0];
+    const last = points[points.length - 1];
+
+    return {
+      segments: lines,
+      pins: events.map((event) => ({ event, ...project(event.latitude, event.longitude) })),
+      start: project(first.latitude, first.longitude),
+      end: project(last.latitude, last.longitude),
+    };
+  }, [route, events, speedLimits]);
+
+  return (
+    <View>
+      <View style={styles.mapCard}>
+        <Svg width={MAP_WIDTH} height={MAP_HEIGHT}>
+          {segments.map((segment, i) => (
+            <Polyline
+              key={i}
+              points={segment.points}
+              fill="none"
+              stroke={segment.color}
+              strokeWidth={4}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          ))}
+          <Circle cx={start.x} cy={start.y} r={6} fill="#FFFFFF" stroke="#10B981" strokeWidth={3} />
+          <Circle cx={end.x} cy={end.y} r={6} fill="#FFFFFF" stroke="#EF4444" strokeWidth={3} />
+          {pins.map(({ event, x, y }, i) => (
+            <G key={i} onPress={() => setSelected(event)}>
+              {/* Larger transparent hit area around each pin */}
+              <Circle cx={x} cy={y} r={14} fill="transparent" />
+              <Circle
+                cx={x}
+                cy={y}
+                r={selected === event ? 8 : 6}
+                fill={EVENT_STYLES[event.type].color}
+                stroke="#0A1628"
+                strokeWidth={2}
+              />
+            </G>
+          ))}
+        </Svg>
+      </View>
+
+      <View style={styles.mapLegend}>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, { backgroundColor: SPEED_BAND_COLORS.normal }]} />
+          <Text style={styles.legendText}>Under limit</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, { backgroundColor: SPEED_BAND_COLORS.warning }]} />
+          <Text style={styles.legendText}>Near limit</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, { backgroundColor: SPEED_BAND_COLORS.danger }]} />
+          <Text style={styles.legendText}>Over limit</Text>
+        </View>
+      </View>
+
+      {selected && (
+        <View style={styles.eventDetailCard}>
+          <View style={[styles.eventIconContainer, { backgroundColor: EVENT_STYLES[selected.type].color + '20' }]}>
+            <Ionicons name="location" size={20} color={EVENT_STYLES[selected.type].color} />
+          </View>
+          <View style={styles.eventInfo}>
+            <Text style={styles.eventDetailTitle}>{EVENT_STYLES[selected.type].label}</Text>
+            <Text style={styles.eventDetailText}>{describeEvent(selected)}</Text>
+          </View>
+          <TouchableOpacity onPress={() => setSelected(null)}>
+            <Ionicons name="close" size={20} color="#6B7280" />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
 
 export default function TripDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const [trip, setTrip] = useState<Trip | null>(null);
+  const [source, setSource] = useState<TripSource>('local');
+  const [route, setRoute] = useState<RoutePoint[]>([]);
+  const [speedLimits, setSpeedLimits] = useState<SpeedLimitProvider | null>(null);
+  const [comparison, setComparison] = useState<RecentComparison | null>(null);
   const [loading, setLoading] = useState(true);
+  const [editingLabels, setEditingLabels] = useState(false);
+  const [nameInput, setNameInput] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
 
   useEffect(() => {
     fetchTrip();
+    getRecentComparison(id)
+      .then(setComparison)
+      .catch((error) => console.error('Error loading trip comparison:', error));
   }, [id]);
 
+  const worstMoment = useMemo(() => (trip ? findWorstMoment(trip) : null), [trip]);
+  const tips = useMemo(
+    () => (trip?.score_breakdown ? getCoachingTips(trip.score_breakdown, trip.events || []) : []),
+    [trip]
+  );
+
   const fetchTrip = async () => {
     try {
-      const response = await fetch(`${API_URL}/api/trips/${id}`);
-      if (response.ok) {
-        const data = await response.json();
-        setTrip(data);
+      const result = await getTrip(id);
+      if (result) {
+        setTrip(result.trip);
+        setSource(result.source);
+        if (result.trip.route_key) {
+          setSpeedLimits(await getSpeedLimitProvider());
+          setRoute(await loadRoute(result.trip.route_key));
+        }
       } else {
         Alert.alert('Error', 'Trip not found');
         router.back();
@@ -67,10 +351,7 @@ export default function TripDetailScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              const response = await fetch(`${API_URL}/api/trips/${id}`, {
-                method: 'DELETE',
-              });
-              if (response.ok) {
+              if (await deleteStoredTrip(id)) {
                 router.back();
               } else {
                 Alert.alert('Error', 'Failed to delete trip');
@@ -85,6 +366,40 @@ export default function TripDetailScreen() {
     );
   };
 
+  const editLabels = () => {
+    setNameInput(trip?.name || '');
+    setTagsInput((trip?.tags || []).join(', '));
+    setEditingLabels(true);
+  };
+
+  const saveLabels = async () => {
+    try {
+      const updated = await updateTripLabels(id, { name: normalizeName(nameInput), tags: normalizeTags(tagsInput) });
+      if (updated) {
+        setTrip(updated);
+      }
+      setEditingLabels(false);
+    } catch (error) {
+      console.error('Error saving trip labels:', error);
+      Alert.alert('Error', 'Failed to save name and tags');
+    }
+  };
+
+  // Developer builds only: drive the Today screen with this trip's route
+  const replayTrip = async () => {
+    try {
+      const result = await startReplay(route, `Trip ${formatDateTime(trip!.start_time).time}`, 10);
+      if (result === 'busy') {
+        Alert.alert('Trip in progress', 'Stop the current trip before replaying one.');
+        return;
+      }
+      router.navigate('/');
+    } catch (error: any) {
+      console.error('Error starting replay:', error);
+      Alert.alert('Error', 'Failed to replay trip');
+    }
+  };
+
   const formatDateTime = (dateString: string) => {
     const date = new Date(dateString);
     return {
@@ -110,12 +425,24 @@ export default function TripDetailScreen() {
     return `${hours}h ${mins}m`;
   };
 
+  const formatClock = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
   const getScoreColor = (score: number) => {
     if (score >= 80) return '#10B981';
     if (score >= 60) return '#F59E0B';
     return '#EF4444';
   };
 
+  const formatComparison = (score: number, recent: RecentComparison) => {
+    const average = Math.round(recent.averageScore);
+    const difference = score - average;
+    if (difference === 0) {
+      return `Level with your ${COMPARISON_DAYS}-day average of ${average}`;
+    }
+    return `${difference > 0 ? '+' : ''}${difference} vs your ${COMPARISON_DAYS}-day average of ${average}`;
+  };
+
   const getScoreGrade = (score: number) => {
     if (score >= 90) return 'Excellent';
     if (score >= 80) return 'Good';
@@ -154,8 +481,163 @@ export default function TripDetailScreen() {
               {getScoreGrade(trip.score)}
             </Text>
           </View>
+          <View style={styles.sourceRow}>
+            <Ionicons name={SOURCE_LABELS[source].icon as any} size={14} color="#6B7280" />
+            <Text style={styles.sourceText}>
+              {trip.simulated
+                ? 'Simulated, kept on this device'
+                : SOURCE_LABELS[source].label + (trip.imported ? ', imported from a file' : '')}
+            </Text>
+          </View>
+          {comparison && (
+            <Text style={styles.breakdownText}>{formatComparison(trip.score, comparison)}</Text>
+          )}
+          {!trip.score_breakdown && (
+            <Text style={styles.breakdownText}>Scored with the original model</Text>
+          )}
         </View>
 
+        {/* Labels Section */}
+        {source !== 'remote' && (
+          <View style={styles.section}>
+            <View style={styles.labelsHeader}>
+              <Text style={styles.sectionTitle}>Name & Tags</Text>
+              {!editingLabels && (
+                <TouchableOpacity onPress={editLabels}>
+                  <Text style={styles.labelsAction}>Edit</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <View style={styles.timeCard}>
+              {editingLabels ? (
+                <>
+                  <TextInput
+                    style={styles.labelInput}
+                    value={nameInput}
+                    onChangeText={setNameInput}
+                    placeholder="Name, e.g. Morning commute"
+                    placeholderTextColor="#6B7280"
+                    maxLength={60}
+                  />
+                  <TextInput
+                    style={styles.labelInput}
+                    value={tagsInput}
+                    onChangeText={setTagsInput}
+                    placeholder="Tags, separated by commas"
+                    placeholderTextColor="#6B7280"
+                    autoCapitalize="none"
+                  />
+                  <View style={styles.labelsButtons}>
+                    <TouchableOpacity onPress={() => setEditingLabels(false)}>
+                      <Text style={styles.labelsCancel}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={saveLabels}>
+                      <Text style={styles.labelsAction}>Save</Text>
+                    </TouchableOpacity>
+                  </View>
+                </>
+              ) : (
+                <>
+                  <Text style={trip.name ? styles.eventDetailTitle : styles.breakdownText}>
+                    {trip.name || 'No name yet'}
+                  </Text>
+                  {trip.tags && trip.tags.length > 0 && (
+                    <View style={styles.tagRow}>
+                      {trip.tags.map((tag) => (
+                        <View key={tag} style={styles.tagChip}>
+                          <Text style={styles.tagText}>#{tag}</Text>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+                </>
+              )}
+            </View>
+          </View>
+        )}
+
+        {/* Breakdown Section */}
+        {trip.score_breakdown && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Where the Points Went</Text>
+            <View style={styles.timeCard}>
+              {SCORE_CATEGORIES.map((category) => {
+                const lost = trip.score_breakdown![category];
+                const average = comparison?.averageBreakdown?.[category];
+                return (
+                  <View key={category} style={styles.breakdownItem}>
+                    <View style={styles.breakdownHeader}>
+                      <Text style={styles.segmentLabel}>{CATEGORY_LABELS[category]}</Text>
+                      <Text style={styles.breakdownLost}>-{lost.toFixed(1)}</Text>
+                    </View>
+                    <View style={styles.breakdownTrack}>
+                      <View
+                        style={[
+                          styles.breakdownFill,
+                          { width: `${(lost / CATEGORY_CAPS[category]) * 100}%` },
+                        ]}
+                      />
+                    </View>
+                    {average !== undefined && (
+                      <Text style={styles.breakdownText}>
+                        Usually -{average.toFixed(1)} of {CATEGORY_CAPS[category]}
+                      </Text>
+                    )}
+                  </View>
+                );
+              })}
+
+              {worstMoment && worstMoment.lost > 0 && (
+                <>
+                  <View style={styles.timeDivider} />
+                  <Text style={styles.timeLabel}>Worst moment</Text>
+                  <View style={styles.segmentRow}>
+                    <View
+                      style={[
+                        styles.eventIconContainer,
+                        { backgroundColor: EVENT_STYLES[worstMoment.event.type].color + '20' },
+                      ]}
+                    >
+                      <Ionicons name="alert-circle" size={20} color={EVENT_STYLES[worstMoment.event.type].color} />
+                    </View>
+                    <View style={styles.eventInfo}>
+                      <Text style={styles.eventDetailTitle}>{EVENT_STYLES[worstMoment.event.type].label}</Text>
+                      <Text style={styles.eventDetailText}>{describeEvent(worstMoment.event)}</Text>
+                    </View>
+                    <Text style={styles.breakdownLost}>-{worstMoment.lost.toFixed(1)}</Text>
+                  </View>
+                </>
+              )}
+            </View>
+          </View>
+        )}
+
+        {/* Coaching Section */}
+        {tips.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Coaching</Text>
+            {tips.map((tip) => (
+              <View key={tip.id} style={styles.tipCard}>
+                <View style={[styles.eventIconContainer, { backgroundColor: TIP_TEXT[tip.id].color + '20' }]}>
+                  <Ionicons name={TIP_TEXT[tip.id].icon as any} size={20} color={TIP_TEXT[tip.id].color} />
+                </View>
+                <View style={styles.eventInfo}>
+                  <Text style={styles.eventDetailTitle}>{TIP_TEXT[tip.id].title}</Text>
+                  <Text style={styles.eventDetailText}>{TIP_TEXT[tip.id].text(tip)}</Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Route Section */}
+        {route.length > 1 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Route</Text>
+            <RouteMap route={route} events={trip.events || []} speedLimits={speedLimits} />
+          </View>
+        )}
+
         {/* Time Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Trip Time</Text>
@@ -188,6 +670,49 @@ export default function TripDetailScreen() {
           </View>
         </View>
 
+        {/* Segments Section */}
+        {trip.segments && trip.segments.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Segments</Text>
+            <View style={styles.timeCard}>
+              <View style={styles.segmentBar}>
+                {trip.segments.map((segment, i) => (
+                  <View
+                    key={i}
+                    style={{
+                      flex: Math.max(segment.end - segment.start, 1),
+                      backgroundColor: segmentStyle(segment).color,
+                    }}
+                  />
+                ))}
+              </View>
+              {trip.moving_minutes !== undefined && (
+                <View style={styles.segmentTotals}>
+                  <Text style={styles.segmentTotal}>Moving {formatDuration(trip.moving_minutes)}</Text>
+                  <Text style={styles.segmentTotal}>Stopped {formatDuration(trip.stopped_minutes || 0)}</Text>
+                  <Text style={styles.segmentTotal}>Paused {formatDuration(trip.paused_minutes || 0)}</Text>
+                </View>
+              )}
+              {trip.segments.map((segment, i) => (
+                <View key={i} style={styles.segmentRow}>
+                  <Ionicons
+                    name={segmentStyle(segment).icon as any}
+                    size={18}
+                    color={segmentStyle(segment).color}
+                  />
+                  <Text style={styles.segmentLabel}>{segmentStyle(segment).label}</Text>
+                  <Text style={styles.segmentTime}>
+                    {formatClock(segment.start)} – {formatClock(segment.end)}
+                  </Text>
+                  <Text style={styles.segmentDuration}>
+                    {formatDuration((segment.end - segment.start) / 60000)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Stats Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Trip Statistics</Text>
@@ -228,7 +753,6 @@ export default function TripDetailScreen() {
                   <Text style={styles.eventLabel}>Hard Brakes</Text>
                   <Text style={styles.eventValue}>{trip.hard_brakes}</Text>
                 </View>
-                <Text style={styles.eventPenalty}>-{trip.hard_brakes * 4} pts</Text>
               </View>
             </View>
             
@@ -243,7 +767,6 @@ export default function TripDetailScreen() {
                   <Text style={styles.eventLabel}>Hard Accelerations</Text>
                   <Text style={styles.eventValue}>{trip.hard_accelerations}</Text>
                 </View>
-                <Text style={styles.eventPenalty}>-{trip.hard_accelerations * 4} pts</Text>
               </View>
             </View>
             
@@ -255,15 +778,53 @@ export default function TripDetailScreen() {
                   <Ionicons name="speedometer" size={20} color="#8B5CF6" />
                 </View>
                 <View style={styles.eventInfo}>
-                  <Text style={styles.eventLabel}>Speeding ({'>'}130 km/h)</Text>
+                  <Text style={styles.eventLabel}>Speeding (over the limit)</Text>
                   <Text style={styles.eventValue}>{trip.speeding_count}</Text>
                 </View>
-                <Text style={styles.eventPenalty}>-{trip.speeding_count * 8} pts</Text>
               </View>
             </View>
+
+            {trip.harsh_cornering_count !== undefined && (
+              <>
+                <View style={styles.eventDivider} />
+
+                <View style={styles.eventRow}>
+                  <View style={styles.eventItem}>
+                    <View style={[styles.eventIconContainer, { backgroundColor: 'rgba(236, 72, 153, 0.1)' }]}>
+                      <Ionicons name="git-branch" size={20} color="#EC4899" />
+                    </View>
+                    <View style={styles.eventInfo}>
+                      <Text style={styles.eventLabel}>Harsh Cornering</Text>
+                      <Text style={styles.eventValue}>{trip.harsh_cornering_count}</Text>
+                    </View>
+                  </View>
+                </View>
+
+                <View style={styles.eventDivider} />
+
+                <View style={styles.eventRow}>
+                  <View style={styles.eventItem}>
+                    <View style={[styles.eventIconContainer, { backgroundColor: 'rgba(14, 165, 233, 0.1)' }]}>
+                      <Ionicons name="phone-portrait" size={20} color="#0EA5E9" />
+                    </View>
+                    <View style={styles.eventInfo}>
+                      <Text style={styles.eventLabel}>Phone Handling</Text>
+                      <Text style={styles.eventValue}>{trip.phone_handling_count ?? 0}</Text>
+                    </View>
+                  </View>
+                </View>
+              </>
+            )}
           </View>
         </View>
 
+        {__DEV__ && route.length > 1 && (
+          <TouchableOpacity style={styles.replayButton} onPress={replayTrip} activeOpacity={0.7}>
+            <Ionicons name="play-forward" size={20} color="#8B5CF6" />
+            <Text style={styles.replayText}>Replay Trip (10x)</Text>
+          </TouchableOpacity>
+        )}
+
         {/* Delete Button */}
         <TouchableOpacity style={styles.deleteButton} onPress={deleteTrip} activeOpacity={0.7}>
           <Ionicons name="trash-outline" size={20} color="#EF4444" />
@@ -316,6 +877,54 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  breakdownText: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 4,
+  },
+  breakdownItem: {
+    paddingVertical: 8,
+  },
+  breakdownHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  breakdownLost: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  breakdownTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#1E3A5F',
+    overflow: 'hidden',
+  },
+  breakdownFill: {
+    height: 6,
+    backgroundColor: '#EF4444',
+  },
+  tipCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#0F1F38',
+    borderRadius: 16,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#1E3A5F',
+  },
+  sourceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  sourceText: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
   section: {
     marginBottom: 24,
   },
@@ -325,6 +934,53 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     marginBottom: 12,
   },
+  mapCard: {
+    backgroundColor: '#0F1F38',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#1E3A5F',
+    overflow: 'hidden',
+  },
+  mapLegend: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 16,
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendSwatch: {
+    width: 16,
+    height: 4,
+    borderRadius: 2,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  eventDetailCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#0F1F38',
+    borderRadius: 16,
+    padding: 12,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#1E3A5F',
+  },
+  eventDetailTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  eventDetailText: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
   timeCard: {
     backgroundColor: '#0F1F38',
     borderRadius: 16,
@@ -370,6 +1026,44 @@ const styles = StyleSheet.create({
     backgroundColor: '#1E3A5F',
     marginVertical: 8,
   },
+  segmentBar: {
+    flexDirection: 'row',
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  segmentTotals: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  segmentTotal: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 8,
+  },
+  segmentLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  segmentTime: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  segmentDuration: {
+    width: 56,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    textAlign: 'right',
+  },
   statsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -430,16 +1124,71 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#FFFFFF',
   },
-  eventPenalty: {
-    fontSize: 14,
-    color: '#EF4444',
-    fontWeight: '600',
-  },
   eventDivider: {
     height: 1,
     backgroundColor: '#1E3A5F',
     marginVertical: 8,
   },
+  labelsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  labelsAction: {
+    fontSize: 15,
+    color: '#00AAFF',
+    fontWeight: '600',
+  },
+  labelsCancel: {
+    fontSize: 15,
+    color: '#9CA3AF',
+  },
+  labelsButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 24,
+    marginTop: 4,
+  },
+  labelInput: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    marginBottom: 12,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  tagChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 170, 255, 0.15)',
+  },
+  tagText: {
+    fontSize: 13,
+    color: '#00AAFF',
+  },
+  replayButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#8B5CF6',
+    gap: 8,
+    marginBottom: 12,
+  },
+  replayText: {
+    fontSize: 16,
+    color: '#8B5CF6',
+    fontWeight: '600',
+  },
   deleteButton: {
     flexDirection: 'row',
     alignItems: 'center',
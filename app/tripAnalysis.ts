@@ -0,0 +1,625 @@
+// ============================================
+// Trip Analysis Engine
+// Pure, UI-free trip logic shared by the foreground watcher,
+// the background task and anything that re-scores stored trips.
+// Takes timestamped fixes, returns distance, speeds, events and score.
+// ============================================
+
+import type { SpeedLimit, SpeedLimitProvider } from './speedLimits';
+import { ScoreBreakdown, nightOverlapMs, scoreTrip } from './scoring';
+
+export interface Fix {
+  timestamp: number; // ms since epoch
+  latitude: number;
+  longitude: number;
+  speed: number | null; // m/s, as reported by the GPS
+  accuracy?: number | null; // metres
+  heading?: number | null; // degrees
+}
+
+export type TripEventType =
+  | 'hard_brake'
+  | 'hard_acceleration'
+  | 'speeding'
+  | 'harsh_cornering'
+  | 'phone_handling';
+
+// Detected from the motion sensors rather than GPS, so they can't be
+// re-derived from a stored route
+export const MOTION_EVENT_TYPES: TripEventType[] = ['harsh_cornering', 'phone_handling'];
+
+export const isMotionEvent = (event: TripEvent) => MOTION_EVENT_TYPES.includes(event.type);
+
+export interface TripEvent {
+  type: TripEventType;
+  timestamp: number; // when the manoeuvre started
+  latitude: number;
+  longitude: number;
+  speed: number; // km/h when the manoeuvre started
+  durationMs: number;
+  peakG?: number; // strongest g-force, lengthwise for brakes and accelerations, sideways for cornering
+  limitKmh?: number; // posted or fallback limit, speeding only
+  overshootKmh?: number; // furthest over the limit, speeding only
+}
+
+export interface AnalysisConfig {
+  hardBrakeThreshold: number; // deceleration in m/s²
+  hardAccelerationThreshold: number; // acceleration in m/s²
+  minBrakeSpeedKmh: number; // brakes starting below this speed are ignored
+  maxFixGapMs: number; // longer gaps between fixes are not used for detection
+  speedingThresholdKmh: number; // limit used when no speed limit provider is given
+  maxAccuracyM: number; // fixes with a worse horizontal accuracy are dropped
+  maxJumpSpeedKmh: number; // implied speeds above this are treated as GPS jumps
+  stationarySpeedKmh: number; // below this the car is considered parked
+  minMoveM: number; // smaller moves while parked are treated as drift
+  speedProcessNoise: number; // Kalman process noise, m/s² of expected acceleration
+  autoPauseMs: number; // stationary this long pauses the trip, 0 disables
+}
+
+export type DiscardReason = 'low_accuracy' | 'duplicate' | 'impossible_jump' | 'stationary_drift';
+
+export type DiscardCounts = Record<DiscardReason, number>;
+
+// A manual pause: from when the driver paused to when they resumed,
+// `end` is null while it is still going
+export interface PauseSpan {
+  start: number;
+  end: number | null;
+}
+
+export type PauseReason = 'manual' | 'auto';
+
+// A stretch of the trip, either driving or paused. Driving segments
+// include short stops such as traffic lights.
+export interface TripSegment {
+  type: 'driving' | 'paused';
+  reason?: PauseReason; // paused segments only
+  start: number;
+  end: number;
+}
+
+export interface TripSummary {
+  startTime: number;
+  endTime: number;
+  distanceKm: number;
+  durationMinutes: number;
+  movingMinutes: number;
+  stoppedMinutes: number; // stationary but not paused
+  pausedMinutes: number;
+  nightMinutes: number; // moving time at night
+  avgSpeed: number; // over the fixes outside paused segments
+  maxSpeed: number;
+  events: TripEvent[];
+  segments: TripSegment[];
+  pause: PauseReason | null; // whether the trip is paused right now
+  speedLimit: SpeedLimit | null; // the limit at the latest fix
+  hardBrakes: number;
+  hardAccelerations: number;
+  speedingCount: number;
+  harshCorneringCount: number;
+  phoneHandlingCount: number;
+  score: number;
+  scoreVersion: number;
+  scoreBreakdown: ScoreBreakdown; // points lost per category
+  acceptedFixes: number;
+  discardedFixes: DiscardCounts;
+}
+
+export interface AnalyzerOptions {
+  startTime?: number;
+  pauses?: PauseSpan[];
+  config?: Partial<AnalysisConfig>;
+  speedLimits?: SpeedLimitProvider;
+  motionEvents?: TripEvent[]; // detected so far by the motion sensors
+}
+
+export interface TripAnalyzer {
+  // Feed the next fix; returns the events it triggered
+  addFix: (fix: Fix) => TripEvent[];
+  // Manual pauses; fixes in between count towards nothing but paused time
+  pause: (at: number) => void;
+  resume: (at: number) => void;
+  // Add events from the motion sensors; those during a manual pause are dropped
+  addMotionEvents: (events: TripEvent[]) => void;
+  getSummary: (endTime?: number) => TripSummary;
+}
+
+export const GRAVITY = 9.80665;
+export const SPEEDING_THRESHOLD_KMH = 130;
+// The gauge turns amber from this share of the limit
+export const SPEED_WARNING_RATIO = 0.9;
+
+// Colours shared by the live speed gauge and the route map
+export const SPEED_BAND_COLORS = {
+  normal: '#10B981',
+  warning: '#F59E0B',
+  danger: '#EF4444',
+};
+
+// Roughly 0.35 g and 0.3 g, the usual telematics cut-offs
+export const DEFAULT_ANALYSIS_CONFIG: AnalysisConfig = {
+  hardBrakeThreshold: 3.5,
+  hardAccelerationThreshold: 3.0,
+  minBrakeSpeedKmh: 20,
+  maxFixGapMs: 5000,
+  speedingThresholdKmh: SPEEDING_THRESHOLD_KMH,
+  maxAccuracyM: 30,
+  maxJumpSpeedKmh: 250,
+  stationarySpeedKmh: 3,
+  minMoveM: 10,
+  speedProcessNoise: 4,
+  autoPauseMs: 0,
+};
+
+// Haversine distance in km
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371;
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+export function getSpeedColor(speedKmh: number, limitKmh: number = SPEEDING_THRESHOLD_KMH): string {
+  if (speedKmh > limitKmh) return SPEED_BAND_COLORS.danger;
+  if (speedKmh > limitKmh * SPEED_WARNING_RATIO) return SPEED_BAND_COLORS.warning;
+  return SPEED_BAND_COLORS.normal;
+}
+
+// Rounded km/h, never negative (the GPS reports -1 when speed is unknown)
+export const toKmh = (fix: Fix | null) =>
+  fix ? Math.max(0, Math.round((fix.speed || 0) * 3.6)) : 0;
+
+// Accepts an expo-location LocationObject or anything shaped like one
+export function fromLocation(location: {
+  timestamp: number;
+  coords: {
+    latitude: number;
+    longitude: number;
+    speed: number | null;
+    accuracy?: number | null;
+    heading?: number | null;
+  };
+}): Fix {
+  const { latitude, longitude, speed, accuracy, heading } = location.coords;
+  return { timestamp: location.timestamp, latitude, longitude, speed, accuracy, heading };
+}
+
+const speedMs = (fix: Fix) => Math.max(0, fix.speed || 0);
+
+// ============================================
+// Fix filtering
+// Gates fixes on accuracy, rejects physically impossible jumps and
+// parked drift, and smooths speed with a scalar Kalman filter.
+// ============================================
+
+export interface FixFilter {
+  // Returns the cleaned fix, or the reason it was discarded
+  push: (fix: Fix) => { fix: Fix } | { discarded: DiscardReason };
+  getDiscarded: () => DiscardCounts;
+}
+
+// After this many jumps in a row the last accepted fix is more likely
+// the outlier, so the filter re-anchors on the new position
+const MAX_CONSECUTIVE_JUMPS = 3;
+const UNKNOWN_ACCURACY_M = 15;
+
+export function createFixFilter(config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG): FixFilter {
+  const discarded: DiscardCounts = {
+    low_accuracy: 0,
+    duplicate: 0,
+    impossible_jump: 0,
+    stationary_drift: 0,
+  };
+  let last: Fix | null = null;
+  let consecutiveJumps = 0;
+  let estimate = 0; // smoothed speed, m/s
+  let variance = 0;
+
+  const discard = (reason: DiscardReason) => {
+    discarded[reason]++;
+    return { discarded: reason };
+  };
+
+  const push = (fix: Fix) => {
+    const accuracy = fix.accuracy ?? UNKNOWN_ACCURACY_M;
+    if (accuracy > config.maxAccuracyM) {
+      return discard('low_accuracy');
+    }
+
+    // Poor fixes are trusted less by the speed filter
+    const measurementNoise = Math.pow(0.5 + accuracy / 10, 2);
+
+    if (!last) {
+      last = fix;
+      estimate = speedMs(fix);
+      variance = measurementNoise;
+      return { fix: { ...fix, speed: estimate } };
+    }
+
+    const dt = (fix.timestamp - last.timestamp) / 1000;
+    if (dt <= 0) {
+      return discard('duplicate');
+    }
+
+    const movedM = calculateDistance(last.latitude, last.longitude, fix.latitude, fix.longitude) * 1000;
+    const impliedSpeed = movedM / dt;
+    if (impliedSpeed * 3.6 > config.maxJumpSpeedKmh && consecutiveJumps < MAX_CONSECUTIVE_JUMPS) {
+      consecutiveJumps++;
+      return discard('impossible_jump');
+    }
+    consecutiveJumps = 0;
+
+    const stationaryMs = config.stationarySpeedKmh / 3.6;
+    const parked = speedMs(fix) < stationaryMs && estimate < stationaryMs;
+    if (parked && movedM < Math.max(config.minMoveM, accuracy)) {
+      return discard('stationary_drift');
+    }
+
+    // GPS reports no speed (null or -1) on some fixes; fall back to displacement
+    const measured = fix.speed !== null && fix.speed >= 0 ? fix.speed : impliedSpeed;
+    variance += Math.pow(config.speedProcessNoise * dt, 2);
+    const gain = variance / (variance + measurementNoise);
+    estimate = Math.max(0, estimate + gain * (measured - estimate));
+    variance *= 1 - gain;
+
+    last = fix;
+    return { fix: { ...fix, speed: estimate } };
+  };
+
+  return { push, getDiscarded: () => ({ ...discarded }) };
+}
+
+// Clean a complete fix sequence in one go
+export function filterFixes(
+  fixes: Fix[],
+  config: Partial<AnalysisConfig> = {}
+): { fixes: Fix[]; discarded: DiscardCounts } {
+  const filter = createFixFilter({ ...DEFAULT_ANALYSIS_CONFIG, ...config });
+  const accepted: Fix[] = [];
+  for (const fix of fixes) {
+    const result = filter.push(fix);
+    if ('fix' in result) {
+      accepted.push(result.fix);
+    }
+  }
+  return { fixes: accepted, discarded: filter.getDiscarded() };
+}
+
+// ============================================
+// Analyzer
+// ============================================
+
+// What the time since the last fix counts as
+type TimeState = 'moving' | 'stopped' | PauseReason;
+
+interface TimeTotals {
+  movingMs: number;
+  stoppedMs: number;
+  pausedMs: number;
+  nightMs: number; // moving time at night
+  segments: TripSegment[];
+}
+
+// Credit the interval from `from` to `to`, growing the last segment
+// when it is of the same kind
+function addTime(totals: TimeTotals, state: TimeState, from: number, to: number) {
+  if (to <= from) return;
+  if (state === 'moving') {
+    totals.movingMs += to - from;
+    totals.nightMs += nightOverlapMs(from, to);
+  } else if (state === 'stopped') {
+    totals.stoppedMs += to - from;
+  } else {
+    totals.pausedMs += to - from;
+  }
+
+  const segment: TripSegment = state === 'moving' || state === 'stopped'
+    ? { type: 'driving', start: from, end: to }
+    : { type: 'paused', reason: state, start: from, end: to };
+  const last = totals.segments[totals.segments.length - 1];
+  if (last && last.type === segment.type && last.reason === segment.reason && last.end === from) {
+    last.end = to;
+  } else {
+    totals.segments.push(segment);
+  }
+}
+
+export function createTripAnalyzer(options: AnalyzerOptions = {}): TripAnalyzer {
+  const config: AnalysisConfig = { ...DEFAULT_ANALYSIS_CONFIG, ...options.config };
+  const filter = createFixFilter(config);
+  const pauses: PauseSpan[] = (options.pauses ?? []).map((p) => ({ ...p }));
+  let previous: Fix | null = null;
+  let firstTimestamp: number | null = options.startTime ?? null;
+  let distanceKm = 0;
+  let maxSpeed = 0;
+  let speedSum = 0;
+  let speedCount = 0;
+  let acceptedFixes = 0;
+  let speedLimit: SpeedLimit | null = null;
+  const events: TripEvent[] = [];
+
+  // The state as of the last tick applies until the next one
+  const totals: TimeTotals = { movingMs: 0, stoppedMs: 0, pausedMs: 0, nightMs: 0, segments: [] };
+  let lastTick: number | null = options.startTime ?? null;
+  let timeState: TimeState = 'stopped';
+  let lastSpeed = 0;
+
+  // The current stationary run. Its time and speed readings are taken
+  // back out if it lasts long enough to become an automatic pause.
+  let stillSince: number | null = options.startTime ?? null;
+  let stillSpeedSum = 0;
+  let stillReadings = 0;
+
+  // Manoeuvres still in progress; they grow until the condition clears
+  let brakeEvent: TripEvent | null = null;
+  let accelerationEvent: TripEvent | null = null;
+  let speedingEvent: TripEvent | null = null;
+
+  const manuallyPaused = (timestamp: number) =>
+    pauses.some((p) => timestamp >= p.start && (p.end === null || timestamp < p.end));
+
+  // Re-file the stationary run since `since` as paused time
+  const startAutoPause = (since: number, now: number) => {
+    totals.stoppedMs -= now - since;
+    totals.pausedMs += now - since;
+    speedSum -= stillSpeedSum;
+    speedCount -= stillReadings;
+
+    const last = totals.segments[totals.segments.length - 1];
+    if (last && last.type === 'driving' && last.end > since) {
+      if (last.start >= since) {
+        totals.segments.pop();
+      } else {
+        last.end = since;
+      }
+    }
+    if (now > since) {
+      totals.segments.push({ type: 'paused', reason: 'auto', start: since, end: now });
+    }
+  };
+
+  // Move the clock to `timestamp`, crediting the time since the last
+  // tick, and work out the state from here on
+  const tick = (timestamp: number, speedKmh: number): TimeState => {
+    if (lastTick !== null && timestamp <= lastTick) {
+      return timeState;
+    }
+    if (lastTick !== null) {
+      addTime(totals, timeState, lastTick, timestamp);
+    }
+    lastTick = timestamp;
+    lastSpeed = speedKmh;
+
+    if (manuallyPaused(timestamp)) {
+      stillSince = null;
+      timeState = 'manual';
+    } else if (speedKmh >= config.stationarySpeedKmh) {
+      stillSince = null;
+      timeState = 'moving';
+    } else if (timeState !== 'auto') {
+      if (stillSince === null || timeState !== 'stopped') {
+        stillSince = timestamp;
+        stillSpeedSum = 0;
+        stillReadings = 0;
+      }
+      if (config.autoPauseMs > 0 && timestamp - stillSince >= config.autoPauseMs) {
+        startAutoPause(stillSince, timestamp);
+        timeState = 'auto';
+      } else {
+        timeState = 'stopped';
+      }
+    }
+    return timeState;
+  };
+
+  // Tick at every pause start and end up to `upTo`, so time splits
+  // exactly where the driver paused, live or replayed from the buffer
+  const crossPauseBoundaries = (upTo: number) => {
+    pauses
+      .flatMap((p) => (p.end === null ? [p.start] : [p.start, p.end]))
+      .filter((t) => (lastTick === null || t > lastTick) && t <= upTo)
+      .sort((a, b) => a - b)
+      .forEach((t) => tick(t, lastSpeed));
+  };
+
+  const addFix = (rawFix: Fix): TripEvent[] => {
+    crossPauseBoundaries(rawFix.timestamp);
+    const filtered = filter.push(rawFix);
+    if (!('fix' in filtered)) {
+      // Parked drift still says the car is standing still
+      if (filtered.discarded === 'stationary_drift') {
+        tick(rawFix.timestamp, 0);
+      }
+      return [];
+    }
+    const fix = filtered.fix;
+    acceptedFixes++;
+
+    const speed = toKmh(fix);
+    const state = tick(fix.timestamp, speed);
+    const triggered: TripEvent[] = [];
+
+    if (firstTimestamp === null) {
+      firstTimestamp = fix.timestamp;
+    }
+
+    // Nothing done during a manual pause counts; the trip picks up
+    // again from the first fix after it
+    if (state === 'manual') {
+      previous = null;
+      brakeEvent = null;
+      accelerationEvent = null;
+      speedingEvent = null;
+      return triggered;
+    }
+
+    const record = (type: TripEventType, from: Fix): TripEvent => {
+      const event: TripEvent = {
+        type,
+        timestamp: from.timestamp,
+        latitude: from.latitude,
+        longitude: from.longitude,
+        speed: toKmh(from),
+        durationMs: fix.timestamp - from.timestamp,
+      };
+      triggered.push(event);
+      return event;
+    };
+
+    // Grow a running manoeuvre, or open a new one starting at `from`
+    const extend = (
+      current: TripEvent | null,
+      type: TripEventType,
+      from: Fix,
+      g?: number
+    ): TripEvent => {
+      const event = current ?? record(type, from);
+      event.durationMs = fix.timestamp - event.timestamp;
+      if (g !== undefined) {
+        event.peakG = Math.max(event.peakG ?? 0, g);
+      }
+      return event;
+    };
+
+    if (previous) {
+      distanceKm += calculateDistance(
+        previous.latitude,
+        previous.longitude,
+        fix.latitude,
+        fix.longitude
+      );
+    }
+
+    maxSpeed = Math.max(maxSpeed, speed);
+    if (state !== 'auto') {
+      speedSum += speed;
+      speedCount++;
+    }
+    if (state === 'stopped') {
+      stillSpeedSum += speed;
+      stillReadings++;
+    }
+
+    // Acceleration in m/s² from the fix timestamps, so 1 s foreground
+    // fixes and 2 s or irregular background fixes score the same
+    const dtMs = previous ? fix.timestamp - previous.timestamp : 0;
+    if (previous && dtMs > 0 && dtMs <= config.maxFixGapMs) {
+      const acceleration = (speedMs(fix) - speedMs(previous)) / (dtMs / 1000);
+
+      const braking = -acceleration >= config.hardBrakeThreshold &&
+        (brakeEvent !== null || toKmh(previous) >= config.minBrakeSpeedKmh);
+      brakeEvent = braking
+        ? extend(brakeEvent, 'hard_brake', previous, -acceleration / GRAVITY)
+        : null;
+
+      accelerationEvent = acceleration >= config.hardAccelerationThreshold
+        ? extend(accelerationEvent, 'hard_acceleration', previous, acceleration / GRAVITY)
+        : null;
+    } else {
+      brakeEvent = null;
+      accelerationEvent = null;
+    }
+
+    speedLimit = options.speedLimits ? options.speedLimits.lookup(fix) : null;
+    const limit = speedLimit ? speedLimit.limitKmh : config.speedingThresholdKmh;
+    if (speed > limit) {
+      // Entering a lower limit while speeding starts a new event, so each
+      // one is measured against a single limit
+      const current = speedingEvent && speedingEvent.limitKmh === limit ? speedingEvent : null;
+      speedingEvent = extend(current, 'speeding', fix);
+      speedingEvent.limitKmh = limit;
+      speedingEvent.overshootKmh = Math.max(speedingEvent.overshootKmh ?? 0, speed - limit);
+    } else {
+      speedingEvent = null;
+    }
+
+    previous = fix;
+    events.push(...triggered);
+    return triggered;
+  };
+
+  const pause = (at: number) => {
+    if (pauses.some((p) => p.end === null)) return;
+    pauses.push({ start: at, end: null });
+    tick(Math.max(at, lastTick ?? at), lastSpeed);
+  };
+
+  const addMotionEvents = (motionEvents: TripEvent[]) => {
+    events.push(...motionEvents.filter((e) => !manuallyPaused(e.timestamp)).map((e) => ({ ...e })));
+  };
+
+  const resume = (at: number) => {
+    const open = pauses.find((p) => p.end === null);
+    if (!open) return;
+    open.end = Math.max(at, open.start);
+    tick(Math.max(open.end, lastTick ?? open.end), lastSpeed);
+  };
+
+  const getSummary = (endTime?: number): TripSummary => {
+    const start = firstTimestamp ?? endTime ?? 0;
+    const end = endTime ?? lastTick ?? start;
+    const counts = {
+      hardBrakes: events.filter((e) => e.type === 'hard_brake').length,
+      hardAccelerations: events.filter((e) => e.type === 'hard_acceleration').length,
+      speedingCount: events.filter((e) => e.type === 'speeding').length,
+      harshCorneringCount: events.filter((e) => e.type === 'harsh_cornering').length,
+      phoneHandlingCount: events.filter((e) => e.type === 'phone_handling').length,
+    };
+
+    // The time since the last tick, without touching the running totals
+    const time: TimeTotals = { ...totals, segments: totals.segments.map((s) => ({ ...s })) };
+    if (lastTick !== null) {
+      addTime(time, timeState, lastTick, end);
+    }
+
+    const movingMinutes = time.movingMs / 60000;
+    const nightMinutes = time.nightMs / 60000;
+    const tripScore = scoreTrip({ distanceKm, movingMinutes, nightMinutes, events });
+
+    return {
+      startTime: start,
+      endTime: end,
+      distanceKm,
+      durationMinutes: Math.max(0, end - start) / 60000,
+      movingMinutes,
+      stoppedMinutes: time.stoppedMs / 60000,
+      pausedMinutes: time.pausedMs / 60000,
+      nightMinutes,
+      avgSpeed: speedCount > 0 ? speedSum / speedCount : 0,
+      maxSpeed,
+      events: events.map((e) => ({ ...e })).sort((a, b) => a.timestamp - b.timestamp),
+      segments: time.segments,
+      pause: timeState === 'manual' || timeState === 'auto' ? timeState : null,
+      speedLimit,
+      ...counts,
+      score: tripScore.score,
+      scoreVersion: tripScore.version,
+      scoreBreakdown: tripScore.breakdown,
+      acceptedFixes,
+      discardedFixes: filter.getDiscarded(),
+    };
+  };
+
+  if (options.motionEvents) {
+    addMotionEvents(options.motionEvents);
+  }
+
+  return { addFix, pause, resume, addMotionEvents, getSummary };
+}
+
+// Analyze a complete fix sequence in one go
+export function analyzeTrip(
+  fixes: Fix[],
+  options: AnalyzerOptions & { endTime?: number } = {}
+): TripSummary {
+  const analyzer = createTripAnalyzer(options);
+  for (const fix of fixes) {
+    analyzer.addFix(fix);
+  }
+  return analyzer.getSummary(options.endTime);
+}
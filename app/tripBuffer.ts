@@ -0,0 +1,272 @@
+// ============================================
+// Active Trip Buffer
+// Persists every fix of the in-progress trip so that both the
+// background task (index.js) and the Today screen record into
+// the same place, whichever of them is alive
+// ============================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { LocationObject } from 'expo-location';
+import type { PauseSpan, TripEvent } from './tripAnalysis';
+
+export const ACTIVE_TRIP_KEY = 'driveiq_active_trip';
+const CHUNK_KEY_PREFIX = 'driveiq_active_trip_chunk_';
+
+// Fixes are split across chunks so an append never rewrites the whole
+// trip and a long drive stays under the Android AsyncStorage row limit
+const CHUNK_SIZE = 500;
+
+export type BufferedLocation = {
+  timestamp: number;
+  coords: Pick<
+    LocationObject['coords'],
+    'latitude' | 'longitude' | 'speed' | 'accuracy' | 'heading'
+  >;
+};
+
+// How the trip was started: by the driver, by auto-trip detection, or
+// by the developer replay mode
+export type TripOrigin = 'manual' | 'auto' | 'replay';
+
+interface BufferMeta {
+  id: string;
+  startTime: string;
+  origin?: TripOrigin; // missing on buffers written before auto trips
+  pauses?: PauseSpan[]; // manual pauses, missing before pause support
+  motionEvents?: TripEvent[]; // from the motion sensors, missing before motion sensing
+  chunkCount: number;
+  lastTimestamp: number;
+}
+
+export interface ActiveTripInfo {
+  id: string;
+  startTime: Date;
+  origin: TripOrigin;
+  pauses: PauseSpan[];
+}
+
+export interface ActiveTripBuffer extends ActiveTripInfo {
+  locations: BufferedLocation[];
+  motionEvents: TripEvent[];
+}
+
+// The foreground watcher and the background task run in the same JS
+// context while the app is open, so writes are serialized here
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(job: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(job, job);
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+const chunkKey = (index: number) => CHUNK_KEY_PREFIX + index;
+
+// Notified when a trip buffer is started or cleared in this JS context,
+// e.g. by auto-trip detection while the app is open
+const changeListeners = new Set<() => void>();
+
+export function subscribeActiveTripChanges(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+const notifyChange = () => changeListeners.forEach((listener) => listener());
+
+async function readMeta(): Promise<BufferMeta | null> {
+  const raw = await AsyncStorage.getItem(ACTIVE_TRIP_KEY);
+  return raw ? (JSON.parse(raw) as BufferMeta) : null;
+}
+
+async function removeChunks(chunkCount: number): Promise<void> {
+  const keys = Array.from({ length: chunkCount }, (_, i) => chunkKey(i));
+  if (keys.length > 0) {
+    await AsyncStorage.multiRemove(keys);
+  }
+}
+
+const toInfo = (meta: BufferMeta): ActiveTripInfo => ({
+  id: meta.id,
+  startTime: new Date(meta.startTime),
+  origin: meta.origin || 'manual',
+  pauses: meta.pauses || [],
+});
+
+// Whether the driver has paused the trip and not yet resumed it
+export const isManuallyPaused = (info: ActiveTripInfo) =>
+  info.pauses.some((p) => p.end === null);
+
+export function toBufferedLocation(location: LocationObject | BufferedLocation): BufferedLocation {
+  const { latitude, longitude, speed, accuracy, heading } = location.coords;
+  return {
+    timestamp: location.timestamp,
+    coords: { latitude, longitude, speed, accuracy, heading },
+  };
+}
+
+// Start a fresh buffer for a new trip, dropping anything left over
+export async function beginTripBuffer(id: string, startTime: Date, origin: TripOrigin = 'manual'): Promise<void> {
+  await enqueue(async () => {
+    const previous = await readMeta();
+    if (previous) {
+      await removeChunks(previous.chunkCount);
+    }
+
+    const meta: BufferMeta = {
+      id,
+      startTime: startTime.toISOString(),
+      origin,
+      pauses: [],
+      motionEvents: [],
+      chunkCount: 0,
+      lastTimestamp: 0,
+    };
+    await AsyncStorage.setItem(ACTIVE_TRIP_KEY, JSON.stringify(meta));
+    console.log(`[TripBuffer] Started ${origin} buffer for ${id}`);
+  });
+  notifyChange();
+}
+
+// Append fixes to the active trip. Fixes older than the last stored one
+// are dropped, which de-duplicates the overlapping foreground and
+// background streams and keeps the buffer in time order.
+// Returns the number of fixes actually stored.
+export function appendLocations(
+  locations: (LocationObject | BufferedLocation)[]
+): Promise<number> {
+  return enqueue(async () => {
+    const meta = await readMeta();
+    if (!meta) {
+      return 0;
+    }
+
+    const fresh = locations
+      .map(toBufferedLocation)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .filter((location, i, sorted) =>
+        location.timestamp > meta.lastTimestamp &&
+        (i === 0 || location.timestamp > sorted[i - 1].timestamp)
+      );
+
+    if (fresh.length === 0) {
+      return 0;
+    }
+
+    let lastIndex = meta.chunkCount - 1;
+    let chunk: BufferedLocation[] = [];
+    if (lastIndex >= 0) {
+      const raw = await AsyncStorage.getItem(chunkKey(lastIndex));
+      chunk = raw ? JSON.parse(raw) : [];
+    }
+    if (lastIndex < 0 || chunk.length >= CHUNK_SIZE) {
+      lastIndex++;
+      chunk = [];
+    }
+
+    const writes: [string, string][] = [];
+    for (const location of fresh) {
+      if (chunk.length >= CHUNK_SIZE) {
+        writes.push([chunkKey(lastIndex), JSON.stringify(chunk)]);
+        lastIndex++;
+        chunk = [];
+      }
+      chunk.push(location);
+    }
+    writes.push([chunkKey(lastIndex), JSON.stringify(chunk)]);
+
+    meta.chunkCount = lastIndex + 1;
+    meta.lastTimestamp = fresh[fresh.length - 1].timestamp;
+    writes.push([ACTIVE_TRIP_KEY, JSON.stringify(meta)]);
+
+    await AsyncStorage.multiSet(writes);
+    return fresh.length;
+  });
+}
+
+// Read the whole in-progress trip, or null when nothing is recording.
+// Goes through the write queue so pending appends are included.
+export function loadTripBuffer(): Promise<ActiveTripBuffer | null> {
+  return enqueue(async () => {
+    try {
+      const meta = await readMeta();
+      if (!meta) {
+        return null;
+      }
+
+      const keys = Array.from({ length: meta.chunkCount }, (_, i) => chunkKey(i));
+      const chunks = keys.length > 0 ? await AsyncStorage.multiGet(keys) : [];
+      const locations: BufferedLocation[] = [];
+      for (const [, raw] of chunks) {
+        if (raw) {
+          locations.push(...JSON.parse(raw));
+        }
+      }
+
+      return { ...toInfo(meta), locations, motionEvents: meta.motionEvents || [] };
+    } catch (error) {
+      console.error('[TripBuffer] Error loading buffer:', error);
+      return null;
+    }
+  });
+}
+
+// The in-progress trip without its fixes, cheap enough to check on
+// every background update
+export function getActiveTrip(): Promise<ActiveTripInfo | null> {
+  return enqueue(async () => {
+    const meta = await readMeta();
+    return meta ? toInfo(meta) : null;
+  });
+}
+
+// Open or close a manual pause on the active trip. Returns the trip's
+// pauses afterwards, or null when nothing is recording.
+export function setTripPaused(paused: boolean, at: number): Promise<PauseSpan[] | null> {
+  return enqueue(async () => {
+    const meta = await readMeta();
+    if (!meta) {
+      return null;
+    }
+    const spans = meta.pauses || [];
+    const open = spans.find((p) => p.end === null);
+    if (paused && !open) {
+      spans.push({ start: at, end: null });
+    } else if (!paused && open) {
+      open.end = Math.max(at, open.start);
+    } else {
+      return spans;
+    }
+    meta.pauses = spans;
+    await AsyncStorage.setItem(ACTIVE_TRIP_KEY, JSON.stringify(meta));
+    console.log(`[TripBuffer] ${paused ? 'Paused' : 'Resumed'} ${meta.id}`);
+    return spans;
+  });
+}
+
+// Store events detected by the motion sensors. Only the foreground
+// records them, so they are few and live in the metadata.
+export function appendMotionEvents(events: TripEvent[]): Promise<void> {
+  return enqueue(async () => {
+    const meta = await readMeta();
+    if (!meta || events.length === 0) {
+      return;
+    }
+    meta.motionEvents = [...(meta.motionEvents || []), ...events];
+    await AsyncStorage.setItem(ACTIVE_TRIP_KEY, JSON.stringify(meta));
+  });
+}
+
+// Drop the buffer once the trip has been saved
+export async function clearTripBuffer(): Promise<void> {
+  await enqueue(async () => {
+    const meta = await readMeta();
+    if (meta) {
+      await removeChunks(meta.chunkCount);
+    }
+    await AsyncStorage.removeItem(ACTIVE_TRIP_KEY);
+    console.log('[TripBuffer] Buffer cleared');
+  });
+  notifyChange();
+}
@@ -0,0 +1,60 @@
+// ============================================
+// Trip Export
+// Writes exported trips to a cache file and hands it to the system
+// share sheet. The file contents come from the pure exporters in
+// exporters.ts; this module only loads routes and does the I/O.
+// ============================================
+
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Trip, queryTrips } from './tripRepository';
+import { loadRoute } from './routeStore';
+import { EXPORT_MIME_TYPES, ExportFormat, ExportTrip, exportFileName, exportTrips } from './exporters';
+
+export type ExportResult =
+  | { ok: true; trips: number; withoutRoute: number }
+  | { ok: false; reason: 'no_trips' | 'no_routes' | 'unavailable' | 'failed' };
+
+const usesRoutes = (format: ExportFormat) => format !== 'csv_trips';
+
+async function withRoutes(trips: Trip[], format: ExportFormat): Promise<ExportTrip[]> {
+  const exported: ExportTrip[] = [];
+  for (const trip of trips) {
+    const route = usesRoutes(format) && trip.route_key ? await loadRoute(trip.route_key) : [];
+    exported.push({ trip, route });
+  }
+  return exported;
+}
+
+// Export the trips oldest first and open the share sheet. Resolves once
+// the sheet is dismissed.
+export async function shareTrips(trips: Trip[], format: ExportFormat): Promise<ExportResult> {
+  if (trips.length === 0) return { ok: false, reason: 'no_trips' };
+  if (!(await Sharing.isAvailableAsync()) || !FileSystem.cacheDirectory) {
+    return { ok: false, reason: 'unavailable' };
+  }
+
+  try {
+    const ordered = [...trips].sort((a, b) => a.start_time.localeCompare(b.start_time));
+    const exported = await withRoutes(ordered, format);
+    const withoutRoute = usesRoutes(format) ? exported.filter((t) => t.route.length === 0).length : 0;
+    if (withoutRoute === exported.length) return { ok: false, reason: 'no_routes' };
+
+    const uri = FileSystem.cacheDirectory + exportFileName(format, ordered);
+    await FileSystem.writeAsStringAsync(uri, exportTrips(format, exported));
+    await Sharing.shareAsync(uri, { mimeType: EXPORT_MIME_TYPES[format], dialogTitle: 'DriveIQ' });
+    return { ok: true, trips: exported.length - withoutRoute, withoutRoute };
+  } catch (error) {
+    console.error('[TripExport] Export failed:', error);
+    return { ok: false, reason: 'failed' };
+  }
+}
+
+// Every stored trip that started in [from, to)
+export async function shareTripsInRange(
+  format: ExportFormat,
+  from?: Date | number,
+  to?: Date | number
+): Promise<ExportResult> {
+  return shareTrips(await queryTrips({ from, to }), format);
+}
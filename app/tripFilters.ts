@@ -0,0 +1,155 @@
+// ============================================
+// Trip Filters
+// Filtering, searching and sorting the trip history, and the summary
+// of whatever set is shown. Pure functions over stored trips; the date
+// range is applied through the trip index by searchTrips in
+// tripRepository.ts, the rest here.
+// ============================================
+
+import type { Trip } from './storage';
+
+export type DateRange = 'all' | 'week' | 'month' | 'quarter' | 'year';
+export type ScoreBand = 'excellent' | 'very_good' | 'good' | 'needs_work';
+export type DistanceBand = 'short' | 'medium' | 'long';
+export type SortKey = 'date' | 'score' | 'distance' | 'duration';
+
+export interface TripFilter {
+  range: DateRange;
+  scoreBand: ScoreBand | null;
+  distanceBand: DistanceBand | null;
+  withSpeeding: boolean;
+  withHardBrakes: boolean;
+  query: string; // matched against trip names and tags
+}
+
+export interface TripSort {
+  key: SortKey;
+  ascending: boolean;
+}
+
+export interface TripSetSummary {
+  count: number;
+  distanceKm: number;
+  durationMinutes: number;
+  avgScore: number;
+}
+
+export const DEFAULT_FILTER: TripFilter = {
+  range: 'all',
+  scoreBand: null,
+  distanceBand: null,
+  withSpeeding: false,
+  withHardBrakes: false,
+  query: '',
+};
+
+// Newest first, the order trips are stored in
+export const DEFAULT_SORT: TripSort = { key: 'date', ascending: false };
+
+const RANGE_DAYS: Record<Exclude<DateRange, 'all'>, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365,
+};
+
+// Same bands as the grades on the trip cards; max is exclusive
+export const SCORE_BANDS: Record<ScoreBand, { min: number; max: number }> = {
+  excellent: { min: 90, max: Infinity },
+  very_good: { min: 80, max: 90 },
+  good: { min: 60, max: 80 },
+  needs_work: { min: -Infinity, max: 60 },
+};
+
+export const DISTANCE_BANDS: Record<DistanceBand, { min: number; max: number }> = {
+  short: { min: 0, max: 5 },
+  medium: { min: 5, max: 20 },
+  long: { min: 20, max: Infinity },
+};
+
+const MAX_NAME_LENGTH = 60;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 24;
+
+// Start of the range in ms, or undefined for all time
+export function rangeStart(range: DateRange, now = Date.now()): number | undefined {
+  return range === 'all' ? undefined : now - RANGE_DAYS[range] * 86400000;
+}
+
+// Number of filters set, not counting the search text
+export function countActiveFilters(filter: TripFilter): number {
+  return [
+    filter.range !== 'all',
+    filter.scoreBand !== null,
+    filter.distanceBand !== null,
+    filter.withSpeeding,
+    filter.withHardBrakes,
+  ].filter(Boolean).length;
+}
+
+export const isDefaultView = (filter: TripFilter, sort: TripSort) =>
+  countActiveFilters(filter) === 0 && filter.query.trim() === '' &&
+  sort.key === DEFAULT_SORT.key && sort.ascending === DEFAULT_SORT.ascending;
+
+const inBand = (value: number, band: { min: number; max: number }) => value >= band.min && value < band.max;
+
+// Every word of the query must appear in the name or one of the tags
+function matchesQuery(trip: Trip, query: string): boolean {
+  const words = query.toLocaleLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const haystack = [trip.name || '', ...(trip.tags || [])].join(' ').toLocaleLowerCase();
+  return words.every((word) => haystack.includes(word.replace(/^#/, '')));
+}
+
+// Everything but the date range
+export function matchesFilter(trip: Trip, filter: TripFilter): boolean {
+  if (filter.scoreBand && !inBand(trip.score, SCORE_BANDS[filter.scoreBand])) return false;
+  if (filter.distanceBand && !inBand(trip.distance_km, DISTANCE_BANDS[filter.distanceBand])) return false;
+  if (filter.withSpeeding && trip.speeding_count === 0) return false;
+  if (filter.withHardBrakes && trip.hard_brakes === 0) return false;
+  return matchesQuery(trip, filter.query);
+}
+
+const SORT_VALUES: Record<SortKey, (trip: Trip) => number> = {
+  date: (trip) => new Date(trip.start_time).getTime(),
+  score: (trip) => trip.score,
+  distance: (trip) => trip.distance_km,
+  duration: (trip) => trip.duration_minutes,
+};
+
+// Ties keep newest first
+export function sortTrips(trips: Trip[], sort: TripSort): Trip[] {
+  const value = SORT_VALUES[sort.key];
+  const date = SORT_VALUES.date;
+  return [...trips].sort((a, b) => {
+    const difference = sort.ascending ? value(a) - value(b) : value(b) - value(a);
+    return difference !== 0 ? difference : date(b) - date(a);
+  });
+}
+
+export function summarizeTrips(trips: Trip[]): TripSetSummary {
+  const count = trips.length;
+  const scoreSum = trips.reduce((sum, t) => sum + t.score, 0);
+  return {
+    count,
+    distanceKm: trips.reduce((sum, t) => sum + t.distance_km, 0),
+    durationMinutes: trips.reduce((sum, t) => sum + t.duration_minutes, 0),
+    avgScore: count > 0 ? Math.round(scoreSum / count) : 0,
+  };
+}
+
+// A trip name as stored: trimmed and capped, undefined when blank
+export function normalizeName(input: string): string | undefined {
+  const name = input.trim().slice(0, MAX_NAME_LENGTH);
+  return name.length > 0 ? name : undefined;
+}
+
+// Tags typed as free text, separated by commas or spaces: without a
+// leading #, lower case, unique and capped
+export function normalizeTags(input: string): string[] {
+  const tags = input
+    .split(/[,،\s]+/)
+    .map((tag) => tag.replace(/^#+/, '').toLocaleLowerCase().slice(0, MAX_TAG_LENGTH))
+    .filter(Boolean);
+  return [...new Set(tags)].slice(0, MAX_TAGS);
+}
@@ -0,0 +1,143 @@
+// ============================================
+// Trip Import
+// Brings drives recorded elsewhere into the history: GPX tracks from
+// other apps and loggers, and DriveIQ's own CSV export from another
+// phone. Each drive is analysed and scored like a live trip and saved
+// with its route. Drives overlapping a stored trip are skipped as
+// duplicates. Parsing lives in importers.ts.
+// ============================================
+
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { analyzeTrip } from './tripAnalysis';
+import { saveRoute } from './routeStore';
+import { Trip, queryTrips, saveLocalTrip, tripFromSummary } from './tripRepository';
+import { RecordingOptions, createTripId, loadRecordingOptions } from './tripRecorder';
+import { syncTrips } from './syncEngine';
+import { ImportedTrack, parseTrackFile } from './importers';
+
+const MIN_IMPORT_FIXES = 10;
+const MIN_IMPORT_KM = 0.2;
+// How far back to look for a stored trip that could overlap a drive
+const OVERLAP_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+export type ImportIssueReason = 'duplicate' | 'too_short' | 'unsupported' | 'unreadable';
+
+export interface ImportIssue {
+  label: string;
+  reason: ImportIssueReason;
+}
+
+export interface ImportSummary {
+  added: Trip[];
+  skipped: ImportIssue[]; // already in the history
+  rejected: ImportIssue[]; // couldn't be turned into a trip
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const overlaps = (a: Span, b: Span) => a.start < b.end && b.start < a.end;
+
+async function overlapsStoredTrip(span: Span): Promise<boolean> {
+  const nearby = await queryTrips({ from: span.start - OVERLAP_LOOKBACK_MS, to: span.end });
+  return nearby.some((trip) =>
+    overlaps(span, { start: new Date(trip.start_time).getTime(), end: new Date(trip.end_time).getTime() })
+  );
+}
+
+async function importTrack(
+  track: ImportedTrack,
+  added: Span[],
+  summary: ImportSummary,
+  recording: RecordingOptions
+): Promise<void> {
+  const { fixes } = track;
+  if (fixes.length < MIN_IMPORT_FIXES) {
+    summary.rejected.push({ label: track.label, reason: 'too_short' });
+    return;
+  }
+  const span = { start: fixes[0].timestamp, end: fixes[fixes.length - 1].timestamp };
+  if (added.some((other) => overlaps(span, other)) || (await overlapsStoredTrip(span))) {
+    summary.skipped.push({ label: track.label, reason: 'duplicate' });
+    return;
+  }
+
+  const analysis = analyzeTrip(fixes, { ...recording, startTime: span.start, endTime: span.end });
+  if (analysis.distanceKm < MIN_IMPORT_KM) {
+    summary.rejected.push({ label: track.label, reason: 'too_short' });
+    return;
+  }
+
+  const id = createTripId();
+  const routeKey = await saveRoute(id, fixes);
+  const trip = tripFromSummary(id, analysis, routeKey, { imported: true });
+  await saveLocalTrip(trip);
+  added.push(span);
+  summary.added.push(trip);
+}
+
+// Import already-read files. Files are handled one at a time, so a
+// drive that appears in two of them is only added once.
+export async function importTrackFiles(files: { name: string; text: string }[]): Promise<ImportSummary> {
+  const summary: ImportSummary = { added: [], skipped: [], rejected: [] };
+  const recording = await loadRecordingOptions();
+  const added: Span[] = [];
+
+  for (const file of files) {
+    const tracks = parseTrackFile(file.name, file.text);
+    if (!tracks) {
+      summary.rejected.push({ label: file.name, reason: 'unsupported' });
+      continue;
+    }
+    for (const track of tracks) {
+      await importTrack(track, added, summary, recording);
+    }
+  }
+
+  console.log(
+    `[TripImport] Added ${summary.added.length}, skipped ${summary.skipped.length}, rejected ${summary.rejected.length}`
+  );
+  if (summary.added.length > 0) {
+    syncTrips();
+  }
+  return summary;
+}
+
+// Let the user pick GPX or CSV files and read them. Resolves to null
+// when the picker is cancelled; files that can't be read come back with
+// no text.
+export async function pickTrackFiles(): Promise<{ name: string; text: string | null }[] | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/gpx+xml', 'text/csv', 'text/comma-separated-values', 'application/octet-stream', 'text/xml'],
+    multiple: true,
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return null;
+
+  const files: { name: string; text: string | null }[] = [];
+  for (const asset of result.assets) {
+    try {
+      files.push({ name: asset.name, text: await FileSystem.readAsStringAsync(asset.uri) });
+    } catch (error) {
+      console.error('[TripImport] Could not read', asset.name, error);
+      files.push({ name: asset.name, text: null });
+    }
+  }
+  return files;
+}
+
+// Pick files and import them. Resolves to null when cancelled.
+export async function pickAndImportTrips(): Promise<ImportSummary | null> {
+  const files = await pickTrackFiles();
+  if (!files) return null;
+
+  const readable = files.filter((f): f is { name: string; text: string } => f.text !== null);
+  const summary = await importTrackFiles(readable);
+  files
+    .filter((f) => f.text === null)
+    .forEach((f) => summary.rejected.push({ label: f.name, reason: 'unreadable' }));
+  return summary;
+}
@@ -0,0 +1,110 @@
+// ============================================
+// Trip Recorder
+// Turns the buffered fixes of the in-progress trip into a saved trip:
+// scores them, stores the route and the trip record, then clears the
+// buffer. Used by the Today screen and by auto-trip detection, which
+// may finish a trip from the background task with no UI running.
+// ============================================
+
+import { ActiveTripBuffer, TripOrigin, clearTripBuffer, loadTripBuffer } from './tripBuffer';
+import {
+  AnalyzerOptions,
+  TripAnalyzer,
+  TripSummary,
+  createTripAnalyzer,
+  fromLocation,
+} from './tripAnalysis';
+import { saveRoute } from './routeStore';
+import { Trip, saveLocalTrip, tripFromSummary } from './tripRepository';
+import { syncTrips } from './syncEngine';
+import { getRecordingConfig } from './autoPause';
+import { getSpeedLimitProvider } from './speedLimits';
+
+// Everything about an analyzer that comes from settings rather than the trip
+export type RecordingOptions = Pick<AnalyzerOptions, 'config' | 'speedLimits'>;
+
+export interface FinishedTrip {
+  trip: Trip;
+  summary: TripSummary;
+}
+
+export interface FinishOptions {
+  origin?: TripOrigin;
+  recovered?: boolean; // finalised after the app was killed mid-trip
+}
+
+export const createTripId = () =>
+  'trip_' + Date.now() + '_' + Math.random().toString(36).substring(2, 9);
+
+export async function loadRecordingOptions(): Promise<RecordingOptions> {
+  return { config: await getRecordingConfig(), speedLimits: await getSpeedLimitProvider() };
+}
+
+// Replay every buffered fix, foreground or background, the driver's
+// pauses and the motion events into a fresh analyzer
+export function rebuildAnalyzer(
+  buffer: ActiveTripBuffer,
+  options: RecordingOptions = {}
+): TripAnalyzer {
+  const analyzer = createTripAnalyzer({
+    ...options,
+    startTime: buffer.startTime.getTime(),
+    pauses: buffer.pauses,
+    motionEvents: buffer.motionEvents,
+  });
+  for (const location of buffer.locations) {
+    analyzer.addFix(fromLocation(location));
+  }
+  return analyzer;
+}
+
+// Store a scored trip and its route, then upload it in the background
+export async function saveFinishedTrip(
+  id: string,
+  summary: TripSummary,
+  buffer: ActiveTripBuffer | null,
+  options: FinishOptions = {}
+): Promise<FinishedTrip> {
+  const origin = options.origin || 'manual';
+  const routeKey = buffer ? await saveRoute(id, buffer.locations.map(fromLocation)) : null;
+  const trip = tripFromSummary(id, summary, routeKey, {
+    autoStarted: origin === 'auto',
+    recovered: options.recovered,
+    simulated: origin === 'replay',
+  });
+  await saveLocalTrip(trip);
+  console.log(`[TripRecorder] Saved ${origin} trip ${id} (score ${summary.score})`);
+
+  // The trip is safe locally either way
+  syncTrips();
+  return { trip, summary };
+}
+
+// Score and save the buffered trip. `endAt` cuts the trip short, dropping
+// fixes recorded after it (the idle tail of an auto-stopped trip).
+// Resolves to null when no trip is buffered, or when `expectedId` is
+// given and a different trip is.
+export async function finishBufferedTrip(
+  options: { endAt?: number; expectedId?: string; recovered?: boolean } = {}
+): Promise<FinishedTrip | null> {
+  const buffer = await loadTripBuffer();
+  if (!buffer || (options.expectedId && buffer.id !== options.expectedId)) {
+    return null;
+  }
+
+  const endAt = options.endAt;
+  const trimmed: ActiveTripBuffer = endAt === undefined
+    ? buffer
+    : { ...buffer, locations: buffer.locations.filter((l) => l.timestamp <= endAt) };
+
+  const recording = await loadRecordingOptions();
+  const summary = rebuildAnalyzer(trimmed, recording).getSummary(endAt ?? Date.now());
+  const finished = await saveFinishedTrip(
+    buffer.id,
+    summary,
+    trimmed.locations.length > 0 ? trimmed : null,
+    { origin: buffer.origin, recovered: options.recovered }
+  );
+  await clearTripBuffer();
+  return finished;
+}
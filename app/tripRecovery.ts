@@ -0,0 +1,115 @@
+// ============================================
+// Trip Recovery
+// A buffer still present at launch means the app was killed while a
+// trip was recording. RootLayout asks the driver whether to resume
+// it or finalise it; the Today screen waits for that decision before
+// picking the trip back up.
+// ============================================
+
+import { checkTaskStatus, startBackgroundTask, stopBackgroundTask } from './locationTask';
+import { ActiveTripInfo, clearTripBuffer, getActiveTrip, loadTripBuffer } from './tripBuffer';
+import { FinishedTrip, finishBufferedTrip } from './tripRecorder';
+import { ensureAutoTripMonitoring } from './autoTrip';
+
+export type RecoveryChoice = 'resume' | 'finalise';
+
+export interface OrphanedTrip extends ActiveTripInfo {
+  fixCount: number;
+  lastFixAt: number;
+  taskRegistered: boolean;
+}
+
+export type RecoveryOutcome =
+  | { action: 'none' }
+  | { action: 'resumed'; tripId: string }
+  | { action: 'finalised'; finished: FinishedTrip | null };
+
+let settle: (outcome: RecoveryOutcome) => void = () => undefined;
+const recoveryDone = new Promise<RecoveryOutcome>((resolve) => {
+  settle = resolve;
+});
+let started = false;
+
+// Resolves once the launch-time check has run and any choice is applied
+export const waitForRecovery = () => recoveryDone;
+
+async function findOrphanedTrip(): Promise<OrphanedTrip | null> {
+  const active = await getActiveTrip();
+  const { isRegistered } = await checkTaskStatus();
+
+  if (!active) {
+    return null;
+  }
+  // A replay can't carry on without the fixes it was fed from
+  if (active.origin === 'replay') {
+    console.log(`[TripRecovery] Dropping interrupted replay ${active.id}`);
+    await clearTripBuffer();
+    return null;
+  }
+  // An auto trip whose task survived is still being recorded and will
+  // end on its own
+  if (active.origin === 'auto' && isRegistered) {
+    return null;
+  }
+
+  const buffer = await loadTripBuffer();
+  if (!buffer || buffer.locations.length === 0) {
+    console.log(`[TripRecovery] Dropping empty buffer for ${active.id}`);
+    await clearTripBuffer();
+    await stopBackgroundTask();
+    return null;
+  }
+
+  return {
+    ...active,
+    fixCount: buffer.locations.length,
+    lastFixAt: buffer.locations[buffer.locations.length - 1].timestamp,
+    taskRegistered: isRegistered,
+  };
+}
+
+async function applyChoice(orphan: OrphanedTrip, choice: RecoveryChoice): Promise<RecoveryOutcome> {
+  if (choice === 'resume') {
+    if (!orphan.taskRegistered) {
+      await startBackgroundTask('recording');
+    }
+    console.log(`[TripRecovery] Resuming ${orphan.id}`);
+    return { action: 'resumed', tripId: orphan.id };
+  }
+
+  // Nothing was recorded after the last fix, so the trip ends there
+  await stopBackgroundTask();
+  const finished = await finishBufferedTrip({
+    endAt: orphan.lastFixAt,
+    expectedId: orphan.id,
+    recovered: true,
+  });
+  await ensureAutoTripMonitoring();
+  console.log(`[TripRecovery] Finalised ${orphan.id}`);
+  return { action: 'finalised', finished };
+}
+
+// Run once per launch from RootLayout. `ask` shows the prompt and
+// resolves to the driver's choice.
+export async function recoverOrphanedTrip(
+  ask: (orphan: OrphanedTrip) => Promise<RecoveryChoice>
+): Promise<RecoveryOutcome> {
+  if (started) {
+    return recoveryDone;
+  }
+  started = true;
+
+  let outcome: RecoveryOutcome = { action: 'none' };
+  try {
+    const orphan = await findOrphanedTrip();
+    if (orphan) {
+      console.log(`[TripRecovery] Found orphaned trip ${orphan.id} (${orphan.fixCount} fixes)`);
+      outcome = await applyChoice(orphan, await ask(orphan));
+    }
+  } catch (error) {
+    console.error('[TripRecovery] Error recovering trip:', error);
+  } finally {
+    settle(outcome);
+  }
+  return outcome;
+}
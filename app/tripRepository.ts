@@ -0,0 +1,418 @@
+// ============================================
+// Trip Repository
+// Single entry point for reading and deleting trips.
+// Looks in local storage first (where every recorded trip lives)
+// and falls back to the backend for trips that only exist there.
+// ============================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { TripSummary } from './tripAnalysis';
+import { deleteRoutes, routeKeyFor, writeStoredRoutes } from './routeStore';
+import { TripFilter, TripSort, matchesFilter, rangeStart, sortTrips } from './tripFilters';
+import {
+  DEVICE_ID_KEY,
+  QuarantinedEntry,
+  Trip,
+  TripIndexEntry,
+  TripStats,
+  applyTripToStats,
+  ensureStorageReady,
+  indexEntryFor,
+  quarantine,
+  readTripIndex,
+  readTripRecords,
+  readTripStats,
+  sortTripIndex,
+  tripKeyFor,
+  validateTrip,
+  writeTripStore,
+} from './storage';
+
+export type { Trip, TripStats } from './storage';
+export { getBestScore } from './storage';
+
+// Ids of synced trips deleted while offline, still to be removed on the backend
+export const PENDING_DELETES_KEY = 'driveiq_pending_deletes';
+
+export const API_URL = process.env.EXPO_PUBLIC_BACKEND_URL || '';
+
+// Where a trip lives: only on this phone, on both, or only on the backend
+export type TripSource = 'local' | 'synced' | 'remote';
+
+export const getTripSource = (trip: Trip, storedLocally = true): TripSource => {
+  if (!storedLocally) return 'remote';
+  return trip.synced ? 'synced' : 'local';
+};
+
+export interface TripQuery {
+  from?: Date | number; // inclusive, by start time
+  to?: Date | number; // exclusive
+  offset?: number;
+  limit?: number;
+}
+
+// Recording, deleting and syncing all touch the index and stats, so
+// read-modify-write cycles are serialized to avoid losing a trip
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(job: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(async () => {
+    await ensureStorageReady();
+    return job();
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+// Store `put` (insert or replace) and drop `remove`, keeping the index
+// and the running stats in step. Resolves to the records that were
+// replaced or removed. Must run inside the write queue.
+async function commitTrips(put: Trip[], remove: string[]): Promise<Trip[]> {
+  const index = await readTripIndex();
+  let stats = await readTripStats();
+
+  const touched = new Set([...put.map((t) => t.id), ...remove]);
+  const stored = new Set(index.map((e) => e.id));
+  const { trips: previous } = await readTripRecords([...touched].filter((id) => stored.has(id)));
+
+  previous.forEach((trip) => {
+    stats = applyTripToStats(stats, trip, -1);
+  });
+  put.forEach((trip) => {
+    stats = applyTripToStats(stats, trip, 1);
+  });
+
+  const nextIndex = sortTripIndex([
+    ...index.filter((e) => !touched.has(e.id)),
+    ...put.map(indexEntryFor),
+  ]);
+  const putIds = new Set(put.map((t) => t.id));
+  await writeTripStore(put, nextIndex, stats, remove.filter((id) => !putIds.has(id)));
+  return previous;
+}
+
+// Records that fail validation are quarantined and dropped from the
+// index, so one bad entry never hides the rest of the history
+async function loadTrips(ids: string[]): Promise<Trip[]> {
+  const { trips, rejected } = await readTripRecords(ids);
+  if (rejected.length > 0) {
+    dropCorrupt(rejected);
+  }
+  return trips;
+}
+
+function dropCorrupt(rejected: QuarantinedEntry[]): Promise<void> {
+  return enqueue(async () => {
+    await quarantine(rejected);
+    const keys = new Set(rejected.map((entry) => entry.key));
+    const index = await readTripIndex();
+    const corrupt = index.filter((e) => keys.has(tripKeyFor(e.id))).map((e) => e.id);
+    // Their contribution to the stats is unknown, so the totals may be
+    // slightly off until the next rebuild
+    await writeTripStore([], index.filter((e) => !corrupt.includes(e.id)), await readTripStats(), corrupt);
+  });
+}
+
+async function readIndex(): Promise<TripIndexEntry[]> {
+  await ensureStorageReady();
+  return readTripIndex();
+}
+
+// Trips newest first, optionally limited to a start-time range and paged
+export async function queryTrips(query: TripQuery = {}): Promise<Trip[]> {
+  try {
+    const from = query.from !== undefined ? new Date(query.from).getTime() : -Infinity;
+    const to = query.to !== undefined ? new Date(query.to).getTime() : Infinity;
+    const offset = query.offset || 0;
+    const matching = (await readIndex()).filter((e) => e.start >= from && e.start < to);
+    const page = query.limit !== undefined ? matching.slice(offset, offset + query.limit) : matching.slice(offset);
+    return loadTrips(page.map((e) => e.id));
+  } catch (error) {
+    console.error('[TripRepository] Error reading local trips:', error);
+    return [];
+  }
+}
+
+export const listLocalTrips = () => queryTrips();
+
+// Every stored trip matching the filter, in the given order. Loads the
+// whole matching range, so the default newest-first view should page
+// through queryTrips instead.
+export async function searchTrips(filter: TripFilter, sort: TripSort): Promise<Trip[]> {
+  const trips = await queryTrips({ from: rangeStart(filter.range) });
+  return sortTrips(trips.filter((trip) => matchesFilter(trip, filter)), sort);
+}
+
+export async function countLocalTrips(): Promise<number> {
+  return (await readIndex()).length;
+}
+
+export async function listLocalTripIds(): Promise<string[]> {
+  return (await readIndex()).map((e) => e.id);
+}
+
+// Simulated trips stay on the device
+export async function listUnsyncedTripIds(): Promise<string[]> {
+  return (await readIndex()).filter((e) => !e.synced && !e.simulated).map((e) => e.id);
+}
+
+export async function loadLocalTrips(ids: string[]): Promise<Trip[]> {
+  await ensureStorageReady();
+  return loadTrips(ids);
+}
+
+export async function getTripStats(): Promise<TripStats> {
+  await ensureStorageReady();
+  return readTripStats();
+}
+
+export function saveLocalTrip(trip: Trip): Promise<void> {
+  return enqueue(async () => {
+    await commitTrips([trip], []);
+  });
+}
+
+// Mark uploaded trips as synced. Resolves to the ids that no longer
+// exist locally (deleted while the upload was in flight).
+export function markTripsSynced(ids: string[]): Promise<string[]> {
+  return enqueue(async () => {
+    const { trips } = await readTripRecords(ids);
+    await commitTrips(trips.map((t) => ({ ...t, synced: true })), []);
+    return ids.filter((id) => !trips.some((t) => t.id === id));
+  });
+}
+
+// Bulk read-modify-write over every stored trip, for jobs such as sync
+// that reconcile the whole set. Only the returned changes are written.
+export function updateLocalTrips<T>(
+  update: (trips: Trip[]) => { put?: Trip[]; remove?: string[]; result: T }
+): Promise<T> {
+  return enqueue(async () => {
+    const index = await readTripIndex();
+    const { trips } = await readTripRecords(index.map((e) => e.id));
+    const { put = [], remove = [], result } = update(trips);
+    const previous = await commitTrips(put, remove);
+    await deleteRoutesOf(previous.filter((t) => remove.includes(t.id)));
+    return result;
+  });
+}
+
+// Read-modify-write over a few trips, for batch jobs that shouldn't
+// hold the whole history at once. `update` sees the stored records
+// (trips deleted meanwhile are missing) and returns the ones to write.
+export function updateTripBatch(ids: string[], update: (trips: Trip[]) => Trip[]): Promise<Trip[]> {
+  return enqueue(async () => {
+    const { trips } = await readTripRecords(ids);
+    const put = update(trips);
+    await commitTrips(put, []);
+    return put;
+  });
+}
+
+const deleteRoutesOf = (trips: Trip[]) =>
+  deleteRoutes(trips.map((t) => t.route_key || routeKeyFor(t.id)));
+
+// Remove trips and their routes from this phone only. Resolves to the
+// trips that were stored.
+export function removeLocalTrips(ids: string[]): Promise<Trip[]> {
+  return enqueue(async () => {
+    const removed = await commitTrips([], ids);
+    await deleteRoutesOf(removed);
+    return removed;
+  });
+}
+
+// The one place a Date-based trip summary becomes its stored form
+export function tripFromSummary(
+  id: string,
+  summary: TripSummary,
+  routeKey: string | null,
+  flags: { autoStarted?: boolean; recovered?: boolean; simulated?: boolean; imported?: boolean } = {}
+): Trip {
+  return {
+    id,
+    start_time: new Date(summary.startTime).toISOString(),
+    end_time: new Date(summary.endTime).toISOString(),
+    distance_km: parseFloat(summary.distanceKm.toFixed(2)),
+    duration_minutes: parseFloat(summary.durationMinutes.toFixed(2)),
+    moving_minutes: parseFloat(summary.movingMinutes.toFixed(2)),
+    stopped_minutes: parseFloat(summary.stoppedMinutes.toFixed(2)),
+    paused_minutes: parseFloat(summary.pausedMinutes.toFixed(2)),
+    night_minutes: parseFloat(summary.nightMinutes.toFixed(2)),
+    max_speed: summary.maxSpeed,
+    avg_speed: parseFloat(summary.avgSpeed.toFixed(1)),
+    hard_brakes: summary.hardBrakes,
+    hard_accelerations: summary.hardAccelerations,
+    speeding_count: summary.speedingCount,
+    harsh_cornering_count: summary.harshCorneringCount,
+    phone_handling_count: summary.phoneHandlingCount,
+    score: summary.score,
+    score_version: summary.scoreVersion,
+    score_breakdown: summary.scoreBreakdown,
+    events: summary.events,
+    segments: summary.segments,
+    discarded_fixes: summary.discardedFixes,
+    route_key: routeKey,
+    synced: false,
+    ...(flags.autoStarted ? { auto_started: true } : {}),
+    ...(flags.recovered ? { recovered: true } : {}),
+    ...(flags.simulated ? { simulated: true } : {}),
+    ...(flags.imported ? { imported: true } : {}),
+  };
+}
+
+export async function getDeviceId(): Promise<string> {
+  await ensureStorageReady();
+  let id = await AsyncStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = 'device_' + Math.random().toString(36).substring(2, 15);
+    await AsyncStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+}
+
+async function fetchRemoteTrip(id: string): Promise<Trip | null> {
+  if (!API_URL) return null;
+  try {
+    const response = await fetch(`${API_URL}/api/trips/${id}`);
+    if (!response.ok) return null;
+    const result = validateTrip(await response.json());
+    if ('error' in result) {
+      console.error(`[TripRepository] Backend sent an invalid trip: ${result.error}`);
+      return null;
+    }
+    return result.trip;
+  } catch (error) {
+    console.error('[TripRepository] Error fetching remote trip:', error);
+    return null;
+  }
+}
+
+async function deleteRemoteTrip(id: string): Promise<boolean> {
+  if (!API_URL) return false;
+  try {
+    const response = await fetch(`${API_URL}/api/trips/${id}`, { method: 'DELETE' });
+    // Already gone on the server counts as deleted
+    return response.ok || response.status === 404;
+  } catch (error) {
+    console.error('[TripRepository] Error deleting remote trip:', error);
+    return false;
+  }
+}
+
+export async function getPendingDeletes(): Promise<string[]> {
+  const raw = await AsyncStorage.getItem(PENDING_DELETES_KEY);
+  return raw ? JSON.parse(raw) : [];
+}
+
+export async function setPendingDeletes(ids: string[]): Promise<void> {
+  if (ids.length > 0) {
+    await AsyncStorage.setItem(PENDING_DELETES_KEY, JSON.stringify(ids));
+  } else {
+    await AsyncStorage.removeItem(PENDING_DELETES_KEY);
+  }
+}
+
+// Local store first, backend second
+export async function getTrip(id: string): Promise<{ trip: Trip; source: TripSource } | null> {
+  const [local] = await loadLocalTrips([id]);
+  if (local) {
+    return { trip: local, source: getTripSource(local) };
+  }
+
+  const remote = await fetchRemoteTrip(id);
+  return remote ? { trip: remote, source: 'remote' } : null;
+}
+
+// Deleting always succeeds locally, so it works offline. Trips the
+// backend knows about are deleted there too, or queued for later.
+export async function deleteTrip(id: string): Promise<boolean> {
+  const [local] = await removeLocalTrips([id]);
+
+  if (local) {
+    if (!local.synced) {
+      return true;
+    }
+  }
+
+  if (await deleteRemoteTrip(id)) {
+    return true;
+  }
+
+  if (local) {
+    const pending = await getPendingDeletes();
+    await setPendingDeletes([...pending.filter((p) => p !== id), id]);
+    console.log(`[TripRepository] Backend unreachable, queued delete for ${id}`);
+    return true;
+  }
+  return false;
+}
+
+// Store trips from a backup, with their routes, in one write. With
+// `replace` every current trip and route on this phone is dropped first,
+// and the dropped trips the server holds are queued for deletion there
+// too, as clearLocalTrips does, so the next sync doesn't pull them back.
+// Otherwise trips already stored are kept as they are. Restored trips
+// are marked unsynced: the server may hold them under another device
+// id, and sync drops synced trips the server doesn't list for this one.
+// Uploads are idempotent by id. Resolves to the trips written.
+export function restoreLocalTrips(
+  trips: Trip[],
+  routes: Record<string, string>,
+  replace: boolean
+): Promise<Trip[]> {
+  return enqueue(async () => {
+    const index = await readTripIndex();
+    const stored = new Set(index.map((e) => e.id));
+    const put = (replace ? trips : trips.filter((t) => !stored.has(t.id))).map((t) => ({ ...t, synced: false }));
+
+    const previous = await commitTrips(put, replace ? [...stored] : []);
+    if (replace) {
+      await deleteRoutesOf(previous);
+      const restored = new Set(put.map((t) => t.id));
+      const dropped = previous.filter((t) => t.synced && !restored.has(t.id)).map((t) => t.id);
+      if (dropped.length > 0) {
+        const pending = await getPendingDeletes();
+        await setPendingDeletes([...new Set([...pending, ...dropped])]);
+      }
+    }
+    const keys = new Set(put.map((t) => t.route_key).filter((key): key is string => !!key));
+    await writeStoredRoutes(Object.fromEntries(Object.entries(routes).filter(([key]) => keys.has(key))));
+    return put;
+  });
+}
+
+// Set or clear the driver's name and tags for a trip. Resolves to the
+// updated trip, or null when it isn't stored on this phone.
+export async function updateTripLabels(
+  id: string,
+  labels: { name?: string; tags: string[] }
+): Promise<Trip | null> {
+  const [updated] = await updateTripBatch([id], (trips) =>
+    trips.map(({ name, tags, ...trip }) => ({
+      ...trip,
+      ...(labels.name ? { name: labels.name } : {}),
+      ...(labels.tags.length > 0 ? { tags: labels.tags } : {}),
+      synced: false,
+    }))
+  );
+  return updated ?? null;
+}
+
+export async function setDeviceId(id: string): Promise<void> {
+  await ensureStorageReady();
+  await AsyncStorage.setItem(DEVICE_ID_KEY, id);
+}
+
+export async function clearLocalTrips(): Promise<void> {
+  const trips = await updateLocalTrips((current) => ({
+    remove: current.map((t) => t.id),
+    result: current,
+  }));
+
+  const synced = trips.filter((t) => t.synced).map((t) => t.id);
+  if (synced.length > 0) {
+    const pending = await getPendingDeletes();
+    await setPendingDeletes([...new Set([...pending, ...synced])]);
+  }
+}
@@ -0,0 +1,96 @@
+// ============================================
+// Trip Sections
+// Groups the trip history into days, weeks or months of local time,
+// each with a summary of its trips. Pure functions; the history screen
+// draws the sections and the summary screen loads a section's routes.
+// ============================================
+
+import type { Trip } from './storage';
+
+export type GroupBy = 'day' | 'week' | 'month';
+
+export interface SectionSummary {
+  count: number;
+  distanceKm: number;
+  durationMinutes: number;
+  score: number; // average weighted by distance
+}
+
+export interface TripSection {
+  key: string; // `${groupBy}-${start}`, stable across reloads
+  groupBy: GroupBy;
+  start: number; // ms, first moment of the period
+  end: number; // ms, exclusive
+  trips: Trip[];
+  summary: SectionSummary;
+}
+
+// Weeks start on Sunday, as in the ar-SA calendar
+const WEEK_START_DAY = 0;
+
+// First moment of the period containing `time`, in local time
+export function periodStart(time: number, groupBy: GroupBy): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  if (groupBy === 'week') {
+    date.setDate(date.getDate() - ((date.getDay() - WEEK_START_DAY + 7) % 7));
+  } else if (groupBy === 'month') {
+    date.setDate(1);
+  }
+  return date.getTime();
+}
+
+// Start of the following period. Steps by calendar date rather than a
+// fixed length so daylight saving changes don't shift the boundary.
+export function periodEnd(start: number, groupBy: GroupBy): number {
+  const date = new Date(start);
+  if (groupBy === 'month') {
+    date.setMonth(date.getMonth() + 1);
+  } else {
+    date.setDate(date.getDate() + (groupBy === 'week' ? 7 : 1));
+  }
+  return date.getTime();
+}
+
+// A long drive counts for more than a trip round the block. Falls back
+// to the plain average when no distance was recorded.
+export function weightedScore(trips: Trip[]): number {
+  if (trips.length === 0) return 0;
+  const distance = trips.reduce((sum, t) => sum + t.distance_km, 0);
+  if (distance <= 0) {
+    return Math.round(trips.reduce((sum, t) => sum + t.score, 0) / trips.length);
+  }
+  return Math.round(trips.reduce((sum, t) => sum + t.score * t.distance_km, 0) / distance);
+}
+
+export function summarizeSection(trips: Trip[]): SectionSummary {
+  return {
+    count: trips.length,
+    distanceKm: trips.reduce((sum, t) => sum + t.distance_km, 0),
+    durationMinutes: trips.reduce((sum, t) => sum + t.duration_minutes, 0),
+    score: weightedScore(trips),
+  };
+}
+
+// Sections for trips already in date order, newest or oldest first;
+// each run of trips in the same period becomes one section
+export function groupTrips(trips: Trip[], groupBy: GroupBy): TripSection[] {
+  const runs: { start: number; trips: Trip[] }[] = [];
+  for (const trip of trips) {
+    const start = periodStart(new Date(trip.start_time).getTime(), groupBy);
+    const current = runs[runs.length - 1];
+    if (current && current.start === start) {
+      current.trips.push(trip);
+    } else {
+      runs.push({ start, trips: [trip] });
+    }
+  }
+  return runs.map(({ start, trips: sectionTrips }) => ({
+    key: `${groupBy}-${start}`,
+    groupBy,
+    start,
+    end: periodEnd(start, groupBy),
+    trips: sectionTrips,
+    summary: summarizeSection(sectionTrips),
+  }));
+}
@@ -1,6 +1,8 @@
-javascript
 import * as TaskManager from 'expo-task-manager';
 import * as Location from 'expo-location';
+import { handleBackgroundLocations } from './app/autoTrip';
+// Entry point: the task below is defined at bundle load, before the router mounts the app
+import 'expo-router/entry';
 
 const LOCATION_TASK_NAME = 'driveiq-location-tracking';
 
@@ -15,6 +17,14 @@ TaskManager.defineTask(LOCATION_TASK_NAME, async ({ data, error }) => {
   if (data) {
     const { locations } = data;
     console.log('[LocationTask] Received ' + (locations ? locations.length : 0) + ' locations');
+
+    if (locations && locations.length > 0) {
+      try {
+        await handleBackgroundLocations(locations);
+      } catch (bufferError) {
+        console.error('[LocationTask] Error handling locations:', bufferError);
+      }
+    }
   }
 });
 
@@ -0,0 +1,4 @@
+// In-memory AsyncStorage for the storage, sync and backup tests
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);